@@ -1,4 +1,6 @@
 import { Application } from '@nativescript/core';
+// Browser-style WebSocket global for the realtime transport
+import '@valor/nativescript-websockets';
 import { AppContainer } from './src/AppContainer';
 
 Application.run({ create: () => new AppContainer() });
\ No newline at end of file
@@ -0,0 +1,63 @@
+export interface BrokerConfig {
+  port: number;
+  apiKey: string | undefined;
+  upstreamBaseUrl: string;
+  model: string;
+  voice: string;
+  instructions: string;
+  transcriptionModel: string;
+  allowedOrigin: string;
+}
+
+export const DEFAULT_INSTRUCTIONS =
+  'You are a friendly English tutor helping students practice their speaking skills.';
+
+// Everything the upstream session is allowed to do is fixed here, server-side.
+// The client only ever receives a short-lived token for that session.
+export function loadBrokerConfig(env: NodeJS.ProcessEnv = process.env): BrokerConfig {
+  return {
+    port: Number(env.BROKER_PORT ?? 8787),
+    apiKey: env.OPENAI_API_KEY,
+    upstreamBaseUrl: (env.OPENAI_BASE_URL ?? 'https://api.openai.com/v1').replace(/\/$/, ''),
+    model: env.REALTIME_MODEL ?? 'gpt-4o-realtime-preview-2024-12-17',
+    voice: env.REALTIME_VOICE ?? 'alloy',
+    instructions: env.TUTOR_INSTRUCTIONS ?? DEFAULT_INSTRUCTIONS,
+    transcriptionModel: env.TRANSCRIPTION_MODEL ?? 'whisper-1',
+    allowedOrigin: env.BROKER_ALLOWED_ORIGIN ?? '*',
+  };
+}
+
+// The offline stand-in for the Realtime API: each stage is an OpenAI-compatible HTTP endpoint,
+// e.g. a local Whisper server, Ollama and a local TTS server
+export interface LocalPipelineConfig {
+  port: number;
+  sttUrl: string;
+  sttModel: string;
+  chatUrl: string;
+  chatModel: string;
+  chatApiKey: string | undefined;
+  ttsUrl: string;
+  ttsModel: string;
+  // Overrides the voice the client asks for; local engines rarely share the upstream voice names
+  ttsVoice: string | undefined;
+  instructions: string;
+  allowedOrigin: string;
+}
+
+const trimSlash = (url: string) => url.replace(/\/$/, '');
+
+export function loadLocalPipelineConfig(env: NodeJS.ProcessEnv = process.env): LocalPipelineConfig {
+  return {
+    port: Number(env.LOCAL_PIPELINE_PORT ?? 8790),
+    sttUrl: trimSlash(env.LOCAL_STT_URL ?? 'http://localhost:8000/v1'),
+    sttModel: env.LOCAL_STT_MODEL ?? 'whisper-1',
+    chatUrl: trimSlash(env.LOCAL_CHAT_URL ?? 'http://localhost:11434/v1'),
+    chatModel: env.LOCAL_CHAT_MODEL ?? 'llama3.1',
+    chatApiKey: env.LOCAL_CHAT_API_KEY,
+    ttsUrl: trimSlash(env.LOCAL_TTS_URL ?? 'http://localhost:8880/v1'),
+    ttsModel: env.LOCAL_TTS_MODEL ?? 'tts-1',
+    ttsVoice: env.LOCAL_TTS_VOICE,
+    instructions: env.TUTOR_INSTRUCTIONS ?? DEFAULT_INSTRUCTIONS,
+    allowedOrigin: env.BROKER_ALLOWED_ORIGIN ?? '*',
+  };
+}
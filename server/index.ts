@@ -0,0 +1,19 @@
+import { loadBrokerConfig } from './config';
+import { createTokenBroker, SESSION_ROUTE } from './tokenBroker';
+import { createUpstreamStub } from './upstreamStub';
+
+const config = loadBrokerConfig();
+
+// `--stub` runs a local stand-in for the upstream API next to the broker
+if (process.argv.includes('--stub')) {
+  const stubPort = config.port + 1;
+  createUpstreamStub().listen(stubPort, () => {
+    console.log(`Upstream stub listening on http://localhost:${stubPort}/v1`);
+  });
+  config.upstreamBaseUrl = `http://localhost:${stubPort}/v1`;
+  config.apiKey = config.apiKey ?? 'stub-key';
+}
+
+createTokenBroker(config).listen(config.port, () => {
+  console.log(`Token broker listening on http://localhost:${config.port}${SESSION_ROUTE}`);
+});
@@ -0,0 +1,130 @@
+import { LocalPipelineConfig } from './config';
+import type { SessionConfig, ToolDefinition } from '../src/services/realtimeEvents';
+
+// pcm16 as the Realtime API exchanges it: 24 kHz mono, little-endian
+export const SAMPLE_RATE = 24_000;
+export const BYTES_PER_MS = (SAMPLE_RATE * 2) / 1000;
+
+export interface ChatToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
+export type ChatMessage =
+  | { role: 'system' | 'user'; content: string }
+  | { role: 'assistant'; content: string | null; tool_calls?: ChatToolCall[] }
+  | { role: 'tool'; tool_call_id: string; content: string };
+
+export interface ChatOptions {
+  tools: ToolDefinition[];
+  toolChoice: SessionConfig['tool_choice'];
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export interface ChatReply {
+  text: string;
+  toolCalls: ChatToolCall[];
+  promptTokens: number;
+  completionTokens: number;
+}
+
+interface ChatCompletion {
+  choices?: { message?: { content?: string | null; tool_calls?: ChatToolCall[] } }[];
+  usage?: { prompt_tokens?: number; completion_tokens?: number };
+}
+
+// Whisper-style servers want a file, not raw samples
+function wavFromPcm16(pcm: Buffer): Buffer {
+  const header = Buffer.alloc(44);
+  header.write('RIFF', 0);
+  header.writeUInt32LE(36 + pcm.length, 4);
+  header.write('WAVE', 8);
+  header.write('fmt ', 12);
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(1, 20);
+  header.writeUInt16LE(1, 22);
+  header.writeUInt32LE(SAMPLE_RATE, 24);
+  header.writeUInt32LE(SAMPLE_RATE * 2, 28);
+  header.writeUInt16LE(2, 32);
+  header.writeUInt16LE(16, 34);
+  header.write('data', 36);
+  header.writeUInt32LE(pcm.length, 40);
+  return Buffer.concat([header, pcm]);
+}
+
+async function post(stage: string, url: string, init: RequestInit): Promise<Response> {
+  let response: Response;
+  try {
+    response = await fetch(url, { method: 'POST', ...init });
+  } catch (error) {
+    if (init.signal?.aborted) throw error;
+    throw new Error(`${stage} is unreachable at ${url}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+  if (!response.ok) {
+    throw new Error(`${stage} failed (${response.status}): ${await response.text()}`);
+  }
+  return response;
+}
+
+// OpenAI-compatible /audio/transcriptions
+export async function transcribe(config: LocalPipelineConfig, pcm: Buffer, signal?: AbortSignal): Promise<string> {
+  const form = new FormData();
+  form.append('file', new Blob([wavFromPcm16(pcm)], { type: 'audio/wav' }), 'speech.wav');
+  form.append('model', config.sttModel);
+
+  const response = await post('Speech recognition', `${config.sttUrl}/audio/transcriptions`, { body: form, signal });
+  const body = (await response.json()) as { text?: string };
+  return (body.text ?? '').trim();
+}
+
+// OpenAI-compatible /chat/completions, without streaming: replies are spoken sentence by sentence anyway
+export async function chat(config: LocalPipelineConfig, messages: ChatMessage[], options: ChatOptions, signal?: AbortSignal): Promise<ChatReply> {
+  const { toolChoice } = options;
+  const response = await post('Chat model', `${config.chatUrl}/chat/completions`, {
+    headers: {
+      'Content-Type': 'application/json',
+      ...(config.chatApiKey ? { 'Authorization': `Bearer ${config.chatApiKey}` } : {}),
+    },
+    body: JSON.stringify({
+      model: config.chatModel,
+      messages,
+      temperature: options.temperature,
+      max_tokens: options.maxTokens,
+      // Some local servers reject an empty tool list
+      ...(options.tools.length > 0 ? {
+        tools: options.tools.map(({ name, description, parameters }) => ({
+          type: 'function',
+          function: { name, description, parameters },
+        })),
+        tool_choice: typeof toolChoice === 'object' ? { type: 'function', function: { name: toolChoice.name } } : toolChoice,
+      } : {}),
+    }),
+    signal,
+  });
+
+  const completion = (await response.json()) as ChatCompletion;
+  const message = completion.choices?.[0]?.message;
+  return {
+    text: message?.content?.trim() ?? '',
+    toolCalls: message?.tool_calls ?? [],
+    promptTokens: completion.usage?.prompt_tokens ?? 0,
+    completionTokens: completion.usage?.completion_tokens ?? 0,
+  };
+}
+
+// OpenAI-compatible /audio/speech, asking for raw pcm16 so it can go straight into audio deltas
+export async function synthesize(config: LocalPipelineConfig, text: string, voice: string, signal?: AbortSignal): Promise<Buffer> {
+  const response = await post('Speech synthesis', `${config.ttsUrl}/audio/speech`, {
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      model: config.ttsModel,
+      voice: config.ttsVoice ?? voice,
+      input: text,
+      response_format: 'pcm',
+    }),
+    signal,
+  });
+  return Buffer.from(await response.arrayBuffer());
+}
@@ -0,0 +1,96 @@
+import { AddressInfo } from 'node:net';
+import { Server } from 'node:http';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { WebSocket } from 'ws';
+import { LocalPipelineConfig } from './config';
+import { createLocalPipeline, LOCAL_REALTIME_ROUTE } from './localPipeline';
+import { SESSION_ROUTE } from './tokenBroker';
+
+const CONFIG: LocalPipelineConfig = {
+  port: 0,
+  sttUrl: 'http://stt.test/v1',
+  sttModel: 'whisper-1',
+  chatUrl: 'http://chat.test/v1',
+  chatModel: 'llama3.1',
+  chatApiKey: undefined,
+  ttsUrl: 'http://tts.test/v1',
+  ttsModel: 'tts-1',
+  ttsVoice: undefined,
+  instructions: 'Be a tutor.',
+  allowedOrigin: '*',
+};
+
+type ReceivedEvent = { type: string } & Record<string, unknown>;
+
+// A client socket whose server events can be awaited one at a time
+async function openCall(baseUrl: string) {
+  const response = await fetch(`${baseUrl}${SESSION_ROUTE}`, { method: 'POST' });
+  const { token } = (await response.json()) as { token: string };
+  const socket = new WebSocket(`${baseUrl.replace('http', 'ws')}${LOCAL_REALTIME_ROUTE}`, ['realtime', `openai-insecure-api-key.${token}`]);
+  const queued: ReceivedEvent[] = [];
+  const waiting: Array<(event: ReceivedEvent) => void> = [];
+  socket.on('message', data => {
+    const event = JSON.parse(data.toString()) as ReceivedEvent;
+    const resolve = waiting.shift();
+    if (resolve) resolve(event);
+    else queued.push(event);
+  });
+  await new Promise((resolve, reject) => {
+    socket.once('open', resolve);
+    socket.once('error', reject);
+  });
+
+  return {
+    socket,
+    next: () => new Promise<ReceivedEvent>(resolve => {
+      const event = queued.shift();
+      if (event) resolve(event);
+      else waiting.push(resolve);
+    }),
+  };
+}
+
+describe('createLocalPipeline', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeEach(async () => {
+    server = createLocalPipeline(CONFIG);
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('answers malformed events with errors and keeps every call running', async () => {
+    const first = await openCall(baseUrl);
+    const second = await openCall(baseUrl);
+    expect((await first.next()).type).toBe('session.created');
+    expect((await second.next()).type).toBe('session.created');
+
+    for (const data of ['null', '{"type":"input_audio_buffer.append"}', '{"type":"conversation.item.create"}']) {
+      first.socket.send(data);
+      expect(await first.next()).toMatchObject({ type: 'error', error: { type: 'invalid_request_error' } });
+    }
+
+    first.socket.send(JSON.stringify({ type: 'session.update', session: { voice: 'verse' } }));
+    expect(await first.next()).toMatchObject({ type: 'session.updated', session: { voice: 'verse' } });
+    second.socket.send(JSON.stringify({ type: 'input_audio_buffer.clear' }));
+    expect((await second.next()).type).toBe('input_audio_buffer.cleared');
+
+    first.socket.close();
+    second.socket.close();
+  });
+
+  it('refuses a socket without a session token', async () => {
+    const socket = new WebSocket(`${baseUrl.replace('http', 'ws')}${LOCAL_REALTIME_ROUTE}`, ['realtime']);
+
+    await expect(new Promise((resolve, reject) => {
+      socket.once('open', resolve);
+      socket.once('error', reject);
+    })).rejects.toThrow('Unexpected server response: 401');
+  });
+});
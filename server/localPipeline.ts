@@ -0,0 +1,103 @@
+import { randomUUID } from 'node:crypto';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { WebSocketServer } from 'ws';
+import { LocalPipelineConfig } from './config';
+import { sendJson, SESSION_ROUTE, SessionTokenResponse } from './tokenBroker';
+import { LocalRealtimeSession } from './localSession';
+
+export const LOCAL_REALTIME_ROUTE = '/v1/realtime';
+
+// Tokens only have to survive until the client opens its socket
+const TOKEN_TTL_MS = 60_000;
+
+// Same contract as the token broker, so the client fetches sessions the same way for either provider
+function mintSessionToken(req: IncomingMessage, config: LocalPipelineConfig, tokens: Map<string, number>): SessionTokenResponse {
+  const now = Date.now();
+  tokens.forEach((expiresAt, token) => {
+    if (expiresAt <= now) tokens.delete(token);
+  });
+
+  const token = `ek_local_${randomUUID()}`;
+  const expiresAt = now + TOKEN_TTL_MS;
+  tokens.set(token, expiresAt);
+  return {
+    token,
+    expiresAt,
+    model: config.chatModel,
+    // Whatever host the client reached us on, e.g. the teacher's laptop on the classroom network
+    realtimeUrl: `http://${req.headers.host ?? `localhost:${config.port}`}${LOCAL_REALTIME_ROUTE}`,
+  };
+}
+
+function handleRequest(req: IncomingMessage, res: ServerResponse, config: LocalPipelineConfig, tokens: Map<string, number>) {
+  const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, {
+      'Access-Control-Allow-Origin': config.allowedOrigin,
+      'Access-Control-Allow-Methods': 'POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+    });
+    res.end();
+    return;
+  }
+
+  if (pathname !== SESSION_ROUTE) {
+    sendJson(res, 404, { error: 'Not found' }, config);
+    return;
+  }
+
+  if (req.method !== 'POST') {
+    sendJson(res, 405, { error: 'Method not allowed' }, config);
+    return;
+  }
+
+  sendJson(res, 200, mintSessionToken(req, config, tokens), config);
+}
+
+// Browsers can't set headers on a WebSocket, so the token arrives as a subprotocol like upstream
+function tokenFromProtocols(req: IncomingMessage): string | null {
+  const protocols = (req.headers['sec-websocket-protocol'] ?? '').split(',').map(protocol => protocol.trim());
+  const keyProtocol = protocols.find(protocol => protocol.startsWith('openai-insecure-api-key.'));
+  return keyProtocol ? keyProtocol.slice('openai-insecure-api-key.'.length) : null;
+}
+
+// Session endpoint plus a Realtime-compatible WebSocket, backed by local STT, chat and TTS
+export function createLocalPipeline(config: LocalPipelineConfig): Server {
+  // Issued session tokens and when they expire; each one opens a single socket
+  const tokens = new Map<string, number>();
+  const sockets = new WebSocketServer({
+    noServer: true,
+    handleProtocols: protocols => (protocols.has('realtime') ? 'realtime' : false),
+  });
+
+  const server = createServer((req, res) => handleRequest(req, res, config, tokens));
+
+  server.on('upgrade', (req, socket, head) => {
+    const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+    const token = tokenFromProtocols(req);
+    const expiresAt = token ? tokens.get(token) : undefined;
+
+    if (pathname !== LOCAL_REALTIME_ROUTE || !token || !expiresAt || expiresAt <= Date.now()) {
+      socket.write('HTTP/1.1 401 Unauthorized\r\nConnection: close\r\n\r\n');
+      socket.destroy();
+      return;
+    }
+    tokens.delete(token);
+
+    sockets.handleUpgrade(req, socket, head, ws => {
+      const session = new LocalRealtimeSession(config, data => ws.send(data));
+      // One bad frame must not take down the server and every other call with it
+      ws.on('message', data => {
+        try {
+          session.receive(data.toString());
+        } catch (error) {
+          console.error('Failed to handle a local pipeline event:', error);
+        }
+      });
+      ws.on('close', () => session.close());
+    });
+  });
+
+  return server;
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { LocalPipelineConfig } from './config';
+import { LocalRealtimeSession } from './localSession';
+
+const CONFIG: LocalPipelineConfig = {
+  port: 0,
+  sttUrl: 'http://stt.test/v1',
+  sttModel: 'whisper-1',
+  chatUrl: 'http://chat.test/v1',
+  chatModel: 'llama3.1',
+  chatApiKey: undefined,
+  ttsUrl: 'http://tts.test/v1',
+  ttsModel: 'tts-1',
+  ttsVoice: undefined,
+  instructions: 'Be a tutor.',
+  allowedOrigin: '*',
+};
+
+function createSession() {
+  const sent: Array<{ type: string } & Record<string, unknown>> = [];
+  const session = new LocalRealtimeSession(CONFIG, data => sent.push(JSON.parse(data)));
+  return { session, sent };
+}
+
+describe('LocalRealtimeSession', () => {
+  it('answers malformed events with an error instead of throwing', () => {
+    const { session, sent } = createSession();
+
+    for (const data of [
+      '{not json',
+      'null',
+      '{"type":"input_audio_buffer.append"}',
+      '{"type":"conversation.item.create"}',
+      '{"type":"conversation.item.truncate","item_id":"item_1","content_index":"0","audio_end_ms":100}',
+      '{"type":"conversation.item.delete"}',
+      '{"type":"session.teleport"}',
+    ]) {
+      expect(() => session.receive(data)).not.toThrow();
+    }
+
+    expect(sent.map(event => event.type)).toEqual(['session.created', ...Array(7).fill('error')]);
+    expect(sent.slice(1).map(event => (event.error as { message: string }).message)).toEqual([
+      'Event is not valid JSON',
+      'Event is not a JSON object',
+      'Field "audio" of "input_audio_buffer.append" should be string',
+      'Field "item" of "conversation.item.create" should be object',
+      'Field "content_index" of "conversation.item.truncate" should be number',
+      'Field "item_id" of "conversation.item.delete" should be string',
+      'Unsupported event type "session.teleport"',
+    ]);
+  });
+
+  it('keeps serving the call after a bad event', () => {
+    const { session, sent } = createSession();
+
+    session.receive('{"type":"conversation.item.create"}');
+    session.receive(JSON.stringify({
+      type: 'conversation.item.create',
+      item: { id: 'item_1', type: 'message', role: 'user', content: [{ type: 'input_text', text: 'Hello' }] },
+    }));
+
+    expect(sent.map(event => event.type)).toEqual(['session.created', 'error', 'conversation.item.created']);
+    expect(sent[2]).toMatchObject({ previous_item_id: null, item: { id: 'item_1', role: 'user' } });
+  });
+});
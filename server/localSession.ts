@@ -0,0 +1,432 @@
+import { randomUUID } from 'node:crypto';
+import { LocalPipelineConfig } from './config';
+import { BYTES_PER_MS, chat, ChatMessage, synthesize, transcribe } from './localEngines';
+import type {
+  ClientEvent,
+  ContentPart,
+  ConversationItem,
+  NewConversationItem,
+  RealtimeResponse,
+  ResponseConfig,
+  ServerEvent,
+  SessionConfig,
+} from '../src/services/realtimeEvents';
+import { clientEventProblem } from '../src/services/realtimeEvents';
+
+type OutgoingEvent = ServerEvent extends infer E ? (E extends unknown ? Omit<E, 'event_id'> : never) : never;
+
+// Loudness (RMS, 0..1) that counts as speech at a VAD threshold of 1; the default 0.5 halves it
+const MAX_SPEECH_RMS = 0.06;
+const DEFAULT_VAD = { threshold: 0.5, prefix_padding_ms: 300, silence_duration_ms: 500 };
+// Shorter commits are rejected, as upstream does
+const MIN_COMMIT_MS = 100;
+// Size of the audio deltas sent back to the client
+const AUDIO_DELTA_MS = 100;
+
+const DEFAULT_SESSION: SessionConfig = {
+  modalities: ['text', 'audio'],
+  instructions: '',
+  voice: 'alloy',
+  input_audio_format: 'pcm16',
+  output_audio_format: 'pcm16',
+  input_audio_transcription: null,
+  turn_detection: { type: 'server_vad', ...DEFAULT_VAD },
+  tools: [],
+  tool_choice: 'auto',
+  temperature: 0.8,
+  max_response_output_tokens: 'inf',
+};
+
+const newId = (prefix: string) => `${prefix}_${randomUUID().replace(/-/g, '').slice(0, 20)}`;
+
+function rms(pcm: Buffer): number {
+  const samples = Math.floor(pcm.length / 2);
+  if (samples === 0) return 0;
+  let sum = 0;
+  for (let i = 0; i < samples; i++) {
+    const sample = pcm.readInt16LE(i * 2) / 32768;
+    sum += sample * sample;
+  }
+  return Math.sqrt(sum / samples);
+}
+
+// Each sentence is synthesized as soon as the previous one is on its way, keeping trailing spaces so the parts join back up
+function splitSentences(text: string): string[] {
+  return text.match(/[^.!?]+[.!?]+["')\]]*\s*|[^.!?]+$/g) ?? [text];
+}
+
+function itemText(item: NewConversationItem): string {
+  if (item.type !== 'message') return '';
+  return item.content
+    .map(part => (part.type === 'input_text' || part.type === 'text' ? part.text : part.transcript ?? ''))
+    .join(' ')
+    .trim();
+}
+
+// Realtime conversation items as chat messages; consecutive tool calls share one assistant message
+function toChatMessages(instructions: string, items: NewConversationItem[]): ChatMessage[] {
+  const messages: ChatMessage[] = [{ role: 'system', content: instructions }];
+  for (const item of items) {
+    if (item.type === 'function_call') {
+      const call = { id: item.call_id, type: 'function' as const, function: { name: item.name, arguments: item.arguments } };
+      const last = messages[messages.length - 1];
+      if (last.role === 'assistant' && last.tool_calls) {
+        last.tool_calls.push(call);
+      } else {
+        messages.push({ role: 'assistant', content: null, tool_calls: [call] });
+      }
+    } else if (item.type === 'function_call_output') {
+      messages.push({ role: 'tool', tool_call_id: item.call_id, content: item.output });
+    } else {
+      const text = itemText(item);
+      if (text) messages.push({ role: item.role, content: text });
+    }
+  }
+  return messages;
+}
+
+// One call's worth of the Realtime event protocol, served by local STT, chat and TTS endpoints.
+// Covers what the app sends; anything else is answered with an error event.
+export class LocalRealtimeSession {
+  private readonly id = newId('sess');
+  private config: SessionConfig;
+  private items: ConversationItem[] = [];
+  // Input audio not yet committed; outside speech only the prefix padding is kept
+  private input: Buffer[] = [];
+  private inputBytes = 0;
+  // Audio received so far, the clock for VAD timestamps
+  private streamMs = 0;
+  private speech: { itemId: string; silenceMs: number } | null = null;
+  // Spoken length of each tutor item, to truncate its transcript in proportion
+  private spokenMs = new Map<string, number>();
+  // Transcriptions and responses run one at a time, in the order they were asked for
+  private work: Promise<void> = Promise.resolve();
+  private activeResponse: { id: string; abort: AbortController } | null = null;
+  private isClosed = false;
+
+  constructor(
+    private readonly pipeline: LocalPipelineConfig,
+    private readonly send: (data: string) => void,
+  ) {
+    this.config = { ...DEFAULT_SESSION, instructions: pipeline.instructions };
+    this.emit({ type: 'session.created', session: this.sessionObject() });
+  }
+
+  receive(data: string): void {
+    let payload: unknown;
+    try {
+      payload = JSON.parse(data);
+    } catch {
+      this.emitError('invalid_request_error', 'Event is not valid JSON');
+      return;
+    }
+    // Fields the session reads are checked up front, so a malformed event can't throw halfway through
+    const problem = clientEventProblem(payload);
+    if (problem) {
+      this.emitError('invalid_request_error', problem);
+      return;
+    }
+    const event = payload as ClientEvent;
+
+    switch (event.type) {
+      case 'session.update':
+        this.config = { ...this.config, ...event.session };
+        this.emit({ type: 'session.updated', session: this.sessionObject() });
+        break;
+      case 'input_audio_buffer.append':
+        this.appendAudio(Buffer.from(event.audio, 'base64'));
+        break;
+      case 'input_audio_buffer.commit':
+        this.commit(this.speech?.itemId ?? newId('item'));
+        this.speech = null;
+        break;
+      case 'input_audio_buffer.clear':
+        this.input = [];
+        this.inputBytes = 0;
+        this.speech = null;
+        this.emit({ type: 'input_audio_buffer.cleared' });
+        break;
+      case 'conversation.item.create':
+        this.addItem(event.item);
+        break;
+      case 'conversation.item.truncate':
+        this.truncate(event.item_id, event.content_index, event.audio_end_ms);
+        break;
+      case 'conversation.item.delete':
+        this.items = this.items.filter(item => item.id !== event.item_id);
+        this.emit({ type: 'conversation.item.deleted', item_id: event.item_id });
+        break;
+      case 'response.create':
+        this.enqueue(() => this.respond(event.response ?? {}));
+        break;
+      case 'response.cancel':
+        if (this.activeResponse && (!event.response_id || event.response_id === this.activeResponse.id)) {
+          this.activeResponse.abort.abort();
+        }
+        break;
+      case 'output_audio_buffer.clear':
+        // Audio deltas are played by the client, there is no server-side buffer to clear
+        break;
+      default:
+        this.emitError('invalid_request_error', `Unsupported event type "${(event as { type?: string }).type}"`);
+    }
+  }
+
+  close(): void {
+    this.isClosed = true;
+    this.activeResponse?.abort.abort();
+  }
+
+  private emit(event: OutgoingEvent): void {
+    if (this.isClosed) return;
+    this.send(JSON.stringify({ event_id: newId('event'), ...event }));
+  }
+
+  private emitError(type: string, message: string, code: string | null = null): void {
+    this.emit({ type: 'error', error: { type, code, message } });
+  }
+
+  private sessionObject() {
+    return { id: this.id, object: 'realtime.session' as const, model: this.pipeline.chatModel, ...this.config };
+  }
+
+  private enqueue(task: () => Promise<void>): void {
+    this.work = this.work.then(task).catch(error => {
+      console.error('Local pipeline task failed:', error);
+    });
+  }
+
+  private appendAudio(pcm: Buffer): void {
+    const chunkMs = pcm.length / BYTES_PER_MS;
+    this.streamMs += chunkMs;
+    this.input.push(pcm);
+    this.inputBytes += pcm.length;
+
+    const vad = this.config.turn_detection;
+    if (!vad) return;
+    const threshold = vad.threshold ?? DEFAULT_VAD.threshold;
+    const isSpeech = rms(pcm) >= threshold * MAX_SPEECH_RMS;
+
+    if (!this.speech) {
+      if (!isSpeech) {
+        this.trimToPadding(vad.prefix_padding_ms ?? DEFAULT_VAD.prefix_padding_ms);
+        return;
+      }
+      const itemId = newId('item');
+      this.speech = { itemId, silenceMs: 0 };
+      this.emit({
+        type: 'input_audio_buffer.speech_started',
+        audio_start_ms: Math.max(0, Math.round(this.streamMs - this.inputBytes / BYTES_PER_MS)),
+        item_id: itemId,
+      });
+      if (vad.interrupt_response !== false) {
+        this.activeResponse?.abort.abort();
+      }
+      return;
+    }
+
+    this.speech.silenceMs = isSpeech ? 0 : this.speech.silenceMs + chunkMs;
+    if (this.speech.silenceMs < (vad.silence_duration_ms ?? DEFAULT_VAD.silence_duration_ms)) return;
+
+    const { itemId } = this.speech;
+    this.speech = null;
+    this.emit({ type: 'input_audio_buffer.speech_stopped', audio_end_ms: Math.round(this.streamMs), item_id: itemId });
+    this.commit(itemId);
+    if (vad.create_response !== false) {
+      this.enqueue(() => this.respond({}));
+    }
+  }
+
+  private trimToPadding(paddingMs: number): void {
+    const keepBytes = paddingMs * BYTES_PER_MS;
+    while (this.input.length > 1 && this.inputBytes - this.input[0].length >= keepBytes) {
+      this.inputBytes -= this.input.shift()!.length;
+    }
+  }
+
+  private commit(itemId: string): void {
+    const audio = Buffer.concat(this.input);
+    this.input = [];
+    this.inputBytes = 0;
+    if (audio.length < MIN_COMMIT_MS * BYTES_PER_MS) {
+      this.emitError('invalid_request_error', 'The input audio buffer holds too little audio to commit', 'input_audio_buffer_commit_empty');
+      return;
+    }
+
+    const part = { type: 'input_audio' as const, transcript: null as string | null };
+    const item: ConversationItem = { id: itemId, object: 'realtime.item', type: 'message', role: 'user', status: 'completed', content: [part] };
+    const previousItemId = this.items[this.items.length - 1]?.id ?? null;
+    this.items.push(item);
+    this.emit({ type: 'input_audio_buffer.committed', previous_item_id: previousItemId, item_id: itemId });
+    this.emit({ type: 'conversation.item.created', previous_item_id: previousItemId, item });
+
+    // Queued, so a response asked for right after the commit sees the transcript
+    this.enqueue(async () => {
+      try {
+        part.transcript = await transcribe(this.pipeline, audio);
+        this.emit({ type: 'conversation.item.input_audio_transcription.completed', item_id: itemId, content_index: 0, transcript: part.transcript });
+      } catch (error) {
+        this.emit({
+          type: 'conversation.item.input_audio_transcription.failed',
+          item_id: itemId,
+          content_index: 0,
+          error: { type: 'server_error', message: error instanceof Error ? error.message : 'Transcription failed' },
+        });
+      }
+    });
+  }
+
+  private addItem(newItem: NewConversationItem): void {
+    const item = { ...newItem, id: newItem.id ?? newId('item'), object: 'realtime.item', status: 'completed' } as ConversationItem;
+    const previousItemId = this.items[this.items.length - 1]?.id ?? null;
+    this.items.push(item);
+    this.emit({ type: 'conversation.item.created', previous_item_id: previousItemId, item });
+  }
+
+  // The model should only remember what the learner actually heard
+  private truncate(itemId: string, contentIndex: number, audioEndMs: number): void {
+    const item = this.items.find(candidate => candidate.id === itemId);
+    const part = item?.type === 'message' ? item.content[contentIndex] : undefined;
+    const spokenMs = this.spokenMs.get(itemId);
+    if (part?.type === 'audio' && part.transcript && spokenMs) {
+      part.transcript = part.transcript.slice(0, Math.round(part.transcript.length * Math.min(1, audioEndMs / spokenMs)));
+    }
+    this.emit({ type: 'conversation.item.truncated', item_id: itemId, content_index: contentIndex, audio_end_ms: audioEndMs });
+  }
+
+  private async respond(options: ResponseConfig): Promise<void> {
+    if (this.isClosed) return;
+    const abort = new AbortController();
+    const response: RealtimeResponse = {
+      id: newId('resp'),
+      object: 'realtime.response',
+      status: 'in_progress',
+      output: [],
+      metadata: options.metadata ?? null,
+      usage: null,
+    };
+    this.activeResponse = { id: response.id, abort };
+    this.emit({ type: 'response.created', response: { ...response, output: [] } });
+
+    const inConversation = options.conversation !== 'none';
+    const addOutput = (item: ConversationItem) => {
+      response.output.push(item);
+      if (inConversation) this.items.push(item);
+      this.emit({ type: 'response.output_item.added', response_id: response.id, output_index: response.output.length - 1, item });
+      return response.output.length - 1;
+    };
+
+    try {
+      const reply = await chat(
+        this.pipeline,
+        toChatMessages(options.instructions ?? this.config.instructions, options.input ?? this.items),
+        {
+          tools: options.tools ?? this.config.tools,
+          toolChoice: options.tool_choice ?? this.config.tool_choice,
+          temperature: options.temperature ?? this.config.temperature,
+          maxTokens: this.maxTokens(options),
+        },
+        abort.signal,
+      );
+
+      for (const call of reply.toolCalls) {
+        const item: ConversationItem = {
+          id: newId('item'),
+          object: 'realtime.item',
+          type: 'function_call',
+          status: 'completed',
+          call_id: call.id || newId('call'),
+          name: call.function.name,
+          arguments: call.function.arguments,
+        };
+        const outputIndex = addOutput(item);
+        this.emit({
+          type: 'response.function_call_arguments.done',
+          response_id: response.id,
+          item_id: item.id,
+          output_index: outputIndex,
+          call_id: item.call_id,
+          name: item.name,
+          arguments: item.arguments,
+        });
+        this.emit({ type: 'response.output_item.done', response_id: response.id, output_index: outputIndex, item });
+      }
+
+      if (reply.text) {
+        const modalities = options.modalities ?? this.config.modalities;
+        await this.speak(response.id, reply.text, modalities.includes('audio'), options.voice ?? this.config.voice, addOutput, abort.signal);
+      }
+
+      response.status = 'completed';
+      response.usage = {
+        total_tokens: reply.promptTokens + reply.completionTokens,
+        input_tokens: reply.promptTokens,
+        output_tokens: reply.completionTokens,
+        input_token_details: { text_tokens: reply.promptTokens },
+        output_token_details: { text_tokens: reply.completionTokens },
+      };
+    } catch (error) {
+      if (abort.signal.aborted) {
+        response.status = 'cancelled';
+        response.status_details = { type: 'cancelled', reason: 'client_cancelled' };
+      } else {
+        const message = error instanceof Error ? error.message : 'The local pipeline failed';
+        response.status = 'failed';
+        response.status_details = { type: 'failed', error: { type: 'server_error', message } };
+        this.emitError('server_error', message);
+      }
+    } finally {
+      this.activeResponse = null;
+    }
+
+    response.output.forEach(item => {
+      if (item.type === 'message' && item.status === 'in_progress') item.status = 'incomplete';
+    });
+    this.emit({ type: 'response.done', response });
+  }
+
+  private maxTokens(options: ResponseConfig): number | undefined {
+    const limit = options.max_response_output_tokens ?? this.config.max_response_output_tokens;
+    return limit === 'inf' ? undefined : limit;
+  }
+
+  private async speak(
+    responseId: string,
+    text: string,
+    withAudio: boolean,
+    voice: string,
+    addOutput: (item: ConversationItem) => number,
+    signal: AbortSignal,
+  ): Promise<void> {
+    const part: ContentPart = withAudio ? { type: 'audio', transcript: '' } : { type: 'text', text: '' };
+    const item: Extract<ConversationItem, { type: 'message' }> = { id: newId('item'), object: 'realtime.item', type: 'message', role: 'assistant', status: 'in_progress', content: [part] };
+    const ref = { response_id: responseId, item_id: item.id, output_index: addOutput(item), content_index: 0 };
+    this.emit({ type: 'response.content_part.added', ...ref, part: { ...part } });
+
+    if (part.type === 'text') {
+      part.text = text;
+      this.emit({ type: 'response.text.delta', ...ref, delta: text });
+      this.emit({ type: 'response.text.done', ...ref, text });
+    } else {
+      let transcript = '';
+      for (const sentence of splitSentences(text)) {
+        const pcm = await synthesize(this.pipeline, sentence.trim(), voice, signal);
+        if (signal.aborted) throw new Error('Response cancelled');
+        transcript += sentence;
+        part.transcript = transcript;
+        this.spokenMs.set(item.id, (this.spokenMs.get(item.id) ?? 0) + pcm.length / BYTES_PER_MS);
+        this.emit({ type: 'response.audio_transcript.delta', ...ref, delta: sentence });
+        const deltaBytes = AUDIO_DELTA_MS * BYTES_PER_MS;
+        for (let offset = 0; offset < pcm.length; offset += deltaBytes) {
+          this.emit({ type: 'response.audio.delta', ...ref, delta: pcm.subarray(offset, offset + deltaBytes).toString('base64') });
+        }
+      }
+      this.emit({ type: 'response.audio.done', ...ref });
+      this.emit({ type: 'response.audio_transcript.done', ...ref, transcript });
+    }
+
+    item.status = 'completed';
+    this.emit({ type: 'response.content_part.done', ...ref, part });
+    this.emit({ type: 'response.output_item.done', response_id: responseId, output_index: ref.output_index, item });
+  }
+}
@@ -0,0 +1,12 @@
+import { loadLocalPipelineConfig } from './config';
+import { createLocalPipeline } from './localPipeline';
+import { SESSION_ROUTE } from './tokenBroker';
+
+const config = loadLocalPipelineConfig();
+
+createLocalPipeline(config).listen(config.port, () => {
+  console.log(`Local speech pipeline listening on http://localhost:${config.port}${SESSION_ROUTE}`);
+  console.log(`  speech recognition: ${config.sttModel} at ${config.sttUrl}`);
+  console.log(`  chat model: ${config.chatModel} at ${config.chatUrl}`);
+  console.log(`  speech synthesis: ${config.ttsModel} at ${config.ttsUrl}`);
+});
@@ -0,0 +1,101 @@
+import { AddressInfo } from 'node:net';
+import { Server } from 'node:http';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { BrokerConfig, loadBrokerConfig } from './config';
+import { createTokenBroker, SESSION_ROUTE, SessionTokenResponse } from './tokenBroker';
+import { createUpstreamStub, UpstreamStubOptions } from './upstreamStub';
+
+const servers: Server[] = [];
+
+async function listen(server: Server): Promise<string> {
+  servers.push(server);
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+}
+
+// A broker pointed at a fresh upstream stub; the stub's session requests are collected as they arrive
+async function startBroker(stubOptions: UpstreamStubOptions = {}, overrides: Partial<BrokerConfig> = {}) {
+  const stub = createUpstreamStub(stubOptions);
+  const upstreamRequests: Record<string, unknown>[] = [];
+  stub.on('request', req => {
+    let body = '';
+    req.on('data', chunk => {
+      body += chunk;
+    });
+    req.on('end', () => upstreamRequests.push(JSON.parse(body)));
+  });
+
+  const config: BrokerConfig = {
+    ...loadBrokerConfig({}),
+    apiKey: 'test-key',
+    upstreamBaseUrl: `${await listen(stub)}/v1`,
+    model: 'gpt-4o-realtime-preview-2024-12-17',
+    voice: 'verse',
+    instructions: 'Only speak English.',
+    ...overrides,
+  };
+  const brokerUrl = `${await listen(createTokenBroker(config))}${SESSION_ROUTE}`;
+  return { brokerUrl, config, upstreamRequests };
+}
+
+describe('createTokenBroker', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    await Promise.all(servers.splice(0).map(server => new Promise(resolve => server.close(resolve))));
+  });
+
+  it('mints a token for a session with the configured model, voice and instructions', async () => {
+    const { brokerUrl, config, upstreamRequests } = await startBroker({ tokenTtl: 120 });
+
+    const response = await fetch(brokerUrl, { method: 'POST' });
+    const body = (await response.json()) as SessionTokenResponse;
+
+    expect(response.status).toBe(200);
+    expect(body).toEqual({
+      token: expect.stringMatching(/^ek_stub_/),
+      expiresAt: expect.any(Number),
+      model: config.model,
+      realtimeUrl: `${config.upstreamBaseUrl}/realtime`,
+    });
+    expect(body.expiresAt).toBeGreaterThan(Date.now() + 100_000);
+    expect(upstreamRequests).toEqual([{
+      model: config.model,
+      voice: 'verse',
+      instructions: 'Only speak English.',
+      input_audio_transcription: { model: config.transcriptionModel },
+    }]);
+  });
+
+  it('reports an upstream failure as a bad gateway', async () => {
+    const { brokerUrl } = await startBroker({ failWith: 500 });
+
+    const response = await fetch(brokerUrl, { method: 'POST' });
+
+    expect(response.status).toBe(502);
+    expect(await response.json()).toEqual({
+      error: 'Upstream session request failed (500): {"error":{"message":"Stubbed upstream failure"}}',
+    });
+  });
+
+  it('reports an upstream answer that is not JSON as a bad gateway', async () => {
+    const { brokerUrl } = await startBroker({ malformed: true });
+
+    const response = await fetch(brokerUrl, { method: 'POST' });
+
+    expect(response.status).toBe(502);
+    expect(await response.json()).toEqual({ error: 'Upstream session response is not valid JSON' });
+  });
+
+  it('says so when no API key is configured', async () => {
+    const { brokerUrl, upstreamRequests } = await startBroker({}, { apiKey: undefined });
+
+    const response = await fetch(brokerUrl, { method: 'POST' });
+
+    expect(response.status).toBe(502);
+    expect(await response.json()).toEqual({ error: 'OPENAI_API_KEY is not configured on the token broker' });
+    expect(upstreamRequests).toHaveLength(0);
+  });
+});
@@ -0,0 +1,115 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { BrokerConfig } from './config';
+
+export const SESSION_ROUTE = '/api/realtime/session';
+
+export interface SessionTokenResponse {
+  token: string;
+  expiresAt: number;
+  model: string;
+  realtimeUrl: string;
+}
+
+interface UpstreamSession {
+  model?: string;
+  client_secret?: {
+    value?: string;
+    expires_at?: number;
+  };
+}
+
+export function sendJson(res: ServerResponse, status: number, body: unknown, config: Pick<BrokerConfig, 'allowedOrigin'>) {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Cache-Control': 'no-store',
+    'Access-Control-Allow-Origin': config.allowedOrigin,
+  });
+  res.end(JSON.stringify(body));
+}
+
+// Ask the upstream API for an ephemeral client secret bound to our fixed session settings
+async function mintSessionToken(config: BrokerConfig): Promise<SessionTokenResponse> {
+  if (!config.apiKey) {
+    throw new Error('OPENAI_API_KEY is not configured on the token broker');
+  }
+
+  const upstreamResponse = await fetch(`${config.upstreamBaseUrl}/realtime/sessions`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${config.apiKey}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      model: config.model,
+      voice: config.voice,
+      instructions: config.instructions,
+      // Needed for the learner's side of the transcript
+      input_audio_transcription: { model: config.transcriptionModel },
+    }),
+  });
+
+  if (!upstreamResponse.ok) {
+    const errorText = await upstreamResponse.text();
+    throw new Error(`Upstream session request failed (${upstreamResponse.status}): ${errorText}`);
+  }
+
+  let session: UpstreamSession;
+  try {
+    session = (await upstreamResponse.json()) as UpstreamSession;
+  } catch {
+    throw new Error('Upstream session response is not valid JSON');
+  }
+  const token = session.client_secret?.value;
+  const expiresAt = session.client_secret?.expires_at;
+
+  if (!token || typeof expiresAt !== 'number') {
+    throw new Error('Upstream session response did not include a client secret');
+  }
+
+  return {
+    token,
+    // Upstream reports seconds, the client works in milliseconds
+    expiresAt: expiresAt * 1000,
+    model: session.model ?? config.model,
+    realtimeUrl: `${config.upstreamBaseUrl}/realtime`,
+  };
+}
+
+async function handleRequest(req: IncomingMessage, res: ServerResponse, config: BrokerConfig) {
+  const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, {
+      'Access-Control-Allow-Origin': config.allowedOrigin,
+      'Access-Control-Allow-Methods': 'POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+    });
+    res.end();
+    return;
+  }
+
+  if (pathname !== SESSION_ROUTE) {
+    sendJson(res, 404, { error: 'Not found' }, config);
+    return;
+  }
+
+  if (req.method !== 'POST') {
+    sendJson(res, 405, { error: 'Method not allowed' }, config);
+    return;
+  }
+
+  try {
+    sendJson(res, 200, await mintSessionToken(config), config);
+  } catch (error) {
+    console.error('Failed to mint session token:', error);
+    sendJson(res, 502, {
+      error: error instanceof Error ? error.message : 'Failed to mint session token',
+    }, config);
+  }
+}
+
+export function createTokenBroker(config: BrokerConfig): Server {
+  return createServer((req, res) => {
+    void handleRequest(req, res, config);
+  });
+}
@@ -0,0 +1,72 @@
+import { randomUUID } from 'node:crypto';
+import { createServer, Server } from 'node:http';
+
+export interface UpstreamStubOptions {
+  // Lifetime of the minted client secrets, in seconds
+  tokenTtl?: number;
+  // Force the session endpoint to fail with this status code
+  failWith?: number;
+  // Answer the session endpoint with a body that isn't JSON
+  malformed?: boolean;
+}
+
+// A local stand-in for the upstream Realtime sessions endpoint, so the broker
+// can be exercised without a real API key or network access.
+export function createUpstreamStub(options: UpstreamStubOptions = {}): Server {
+  const tokenTtl = options.tokenTtl ?? 60;
+
+  return createServer((req, res) => {
+    const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+
+    if (req.method !== 'POST' || pathname !== '/v1/realtime/sessions') {
+      res.writeHead(404, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: { message: 'Not found' } }));
+      return;
+    }
+
+    if (!req.headers.authorization?.startsWith('Bearer ')) {
+      res.writeHead(401, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: { message: 'Missing API key' } }));
+      return;
+    }
+
+    if (options.failWith) {
+      res.writeHead(options.failWith, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: { message: 'Stubbed upstream failure' } }));
+      return;
+    }
+
+    if (options.malformed) {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end('{"id":"sess_');
+      return;
+    }
+
+    let body = '';
+    req.on('data', (chunk) => {
+      body += chunk;
+    });
+    req.on('end', () => {
+      let requested;
+      try {
+        requested = body ? JSON.parse(body) : {};
+      } catch {
+        res.writeHead(400, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: { message: 'Request body is not valid JSON' } }));
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({
+        id: `sess_${randomUUID()}`,
+        object: 'realtime.session',
+        model: requested.model,
+        voice: requested.voice,
+        instructions: requested.instructions,
+        client_secret: {
+          value: `ek_stub_${randomUUID()}`,
+          expires_at: Math.floor(Date.now() / 1000) + tokenTtl,
+        },
+      }));
+    });
+  });
+}
@@ -1,37 +1,111 @@
-import React, { useRef, useEffect, useState } from 'react';
-import { Mic, MicOff, Volume2, VolumeX, Phone, PhoneOff } from 'lucide-react';
+import React, { useRef, useEffect, useState, useMemo } from 'react';
+import { Mic, MicOff, Volume2, VolumeX, Phone, PhoneOff, Settings, History, Circle, AlertTriangle, ListChecks, X, Bug, TrendingUp } from 'lucide-react';
 import { useAudioChat } from './hooks/useAudioChat';
+import { useAudioDevices } from './hooks/useAudioDevices';
+import { useScenarioLibrary } from './hooks/useScenarioLibrary';
+import { useEventLog } from './hooks/useEventLog';
+import { useLearner } from './hooks/useLearner';
+import { TutorSettings } from './components/TutorSettings';
+import { TurnFeedback } from './components/TurnFeedback';
+import { SessionHistory } from './components/SessionHistory';
+import { DevicePicker } from './components/DevicePicker';
+import { LevelIndicator } from './components/LevelIndicator';
+import { TextComposer } from './components/TextComposer';
+import { UsageSummary } from './components/UsageSummary';
+import { ScenarioLibrary } from './components/ScenarioLibrary';
+import { ScenarioChecklist } from './components/ScenarioChecklist';
+import { SessionReportView } from './components/SessionReportView';
+import { EventInspector } from './components/EventInspector';
+import { ConnectionQualityBadge } from './components/ConnectionQualityBadge';
+import { ProgressDashboard } from './components/ProgressDashboard';
+import { indexedDbSessionRepository } from './services/indexedDbSessionRepository';
+import { indexedDbRecordingRepository } from './services/indexedDbRecordingRepository';
+import { ConnectionPhase, describeConnection } from './services/connectionStateMachine';
+import { DEFAULT_SERVER_VAD, PUSH_TO_TALK, ServerVadSettings } from './services/turnDetection';
+import { describeMicrophonePermission, detectBrowserPlatform } from './services/microphonePermission';
+import { DEV_TOOLS } from './config';
+
+const STATUS_DOT_CLASSES: Record<ConnectionPhase, string> = {
+  'idle': 'bg-gray-500',
+  'closed': 'bg-gray-500',
+  'acquiring-mic': 'bg-yellow-400 animate-pulse',
+  'negotiating': 'bg-yellow-400 animate-pulse',
+  'connected': 'bg-green-500 animate-pulse',
+  'reconnecting': 'bg-orange-500 animate-pulse',
+  'failed': 'bg-red-500',
+};
 
 function App() {
+  const learner = useLearner();
   const {
-    isConnected,
     isListening,
     error,
+    connectionPhase,
+    reconnectAttempt,
+    lastFailureReason,
+    connectionQuality,
+    switchTransport,
+    turns,
+    turnDetection,
+    isTalking,
+    micMuted,
+    outputMuted,
+    volume,
     disconnect,
+    endSession,
+    isEndingSession,
+    report,
+    dismissReport,
     startListening,
     stopListening,
+    sendText,
+    scenario,
+    startScenario,
+    finishScenario,
+    leaveScenario,
+    setTurnDetection,
+    startTalking,
+    stopTalking,
+    setMicMuted,
+    setOutputMuted,
+    setVolume,
+    tutorProfile,
+    setTutorProfile,
+    isRecordingEnabled,
+    setRecordingEnabled,
+    micPermission,
+    audioLevels,
+    usage,
     checkPermissions,
-  } = useAudioChat();
+    requestPermission,
+    replayEventLog,
+  } = useAudioChat({
+    sessionRepository: indexedDbSessionRepository,
+    recordingRepository: indexedDbRecordingRepository,
+    onSessionEnded: learner.recordSession,
+  });
   
-  const [isMuted, setIsMuted] = useState(false);
-  const [showPermissionRequest, setShowPermissionRequest] = useState(true);
-  const [permissionGranted, setPermissionGranted] = useState(false);
-  const [messages, setMessages] = useState<Array<{ text: string; sender: 'user' | 'ai' }>>([]);
+  const audioDevices = useAudioDevices();
+  const scenarioLibrary = useScenarioLibrary();
+  const eventLog = useEventLog({ enabled: DEV_TOOLS });
+
+  // Remember VAD tuning while push-to-talk is active
+  const [vadSettings, setVadSettings] = useState<ServerVadSettings>(DEFAULT_SERVER_VAD);
+  const isPushToTalk = turnDetection.mode === 'push-to-talk';
+  const [showSettings, setShowSettings] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showScenarios, setShowScenarios] = useState(false);
+  const [showProgress, setShowProgress] = useState(false);
+  const [showInspector, setShowInspector] = useState(false);
+  const permissionGranted = micPermission === 'granted';
+  // Chosen on the permission screen: carry on by typing, without a mic
+  const [textOnly, setTextOnly] = useState(false);
+  // Local notices (errors, permission hints) shown alongside the conversation turns
+  const [messages, setMessages] = useState<Array<{ text: string; sender: 'user' | 'ai'; createdAt: number }>>([]);
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
-    const checkInitialPermission = async () => {
-      try {
-        const hasPermission = await checkPermissions();
-        setPermissionGranted(hasPermission);
-        setShowPermissionRequest(!hasPermission);
-      } catch (error) {
-        setShowPermissionRequest(true);
-        setPermissionGranted(false);
-      }
-    };
-
-    checkInitialPermission();
+    checkPermissions();
   }, [checkPermissions]);
 
   useEffect(() => {
@@ -46,20 +120,14 @@ function App() {
 
   useEffect(() => {
     scrollToBottom();
-  }, [messages]);
+  }, [turns, messages]);
 
+  // A blocked mic can't be prompted for again; re-checking picks up a fix made in the browser settings
   const handlePermissionRequest = async () => {
-    try {
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      stream.getTracks().forEach(track => track.stop()); // Stop the stream after permission
-      setPermissionGranted(true);
-      setShowPermissionRequest(false);
-    } catch (error) {
-      setMessages(prev => [...prev, { 
-        text: 'Microphone access denied. Please enable it in your browser settings to use the app.', 
-        sender: 'ai' 
-      }]);
-      setPermissionGranted(false);
+    if (micPermission === 'prompt') {
+      await requestPermission();
+    } else {
+      await checkPermissions();
     }
   };
 
@@ -71,30 +139,69 @@ function App() {
     }
   };
 
-  const toggleMute = () => {
-    setIsMuted(!isMuted);
+  const updateVadSettings = (changes: Partial<ServerVadSettings>) => {
+    const next = { ...vadSettings, ...changes };
+    setVadSettings(next);
+    setTurnDetection(next);
+  };
+
+  const toggleOutputMute = () => {
+    setOutputMuted(!outputMuted);
+  };
+
+  const toggleMicMute = () => {
+    setMicMuted(!micMuted);
   };
 
   useEffect(() => {
     if (error) {
-      setMessages(prev => [...prev, { text: `Error: ${error}`, sender: 'ai' }]);
+      setMessages(prev => [...prev, { text: `Error: ${error}`, sender: 'ai', createdAt: Date.now() }]);
     }
   }, [error]);
 
-  if (showPermissionRequest) {
+  const chatItems = useMemo(() => [
+    ...turns.map(turn => ({
+      key: turn.id,
+      text: turn.text || (turn.status === 'failed' ? '(transcription unavailable)' : '…'),
+      sender: turn.role === 'user' ? 'user' as const : 'ai' as const,
+      pending: turn.status === 'in-progress',
+      interrupted: turn.interrupted,
+      createdAt: turn.startedAt,
+      corrections: turn.corrections,
+      vocabulary: turn.vocabulary,
+    })),
+    ...messages.map((message, index) => ({
+      ...message,
+      key: `notice-${index}`,
+      pending: false,
+      interrupted: false,
+      corrections: [],
+      vocabulary: [],
+    })),
+  ].sort((a, b) => a.createdAt - b.createdAt), [turns, messages]);
+
+  if (!permissionGranted && !textOnly) {
+    const guidance = describeMicrophonePermission(micPermission ?? 'prompt', detectBrowserPlatform(navigator.userAgent));
+    const PermissionIcon = micPermission === 'prompt' || micPermission === null ? Mic : MicOff;
     return (
       <div className="min-h-screen bg-gradient-to-br from-indigo-900 via-purple-900 to-pink-900 flex items-center justify-center p-4">
         <div className="max-w-md w-full bg-black/30 backdrop-blur-xl rounded-3xl shadow-2xl overflow-hidden border border-white/10 p-8 text-center">
-          <Mic className="w-16 h-16 text-white mx-auto mb-6" />
-          <h2 className="text-2xl font-bold text-white mb-4">Microphone Access Required</h2>
-          <p className="text-white/80 mb-6">
-            To use the AI Language Tutor, we need access to your microphone. This allows you to have voice conversations with your AI tutor.
-          </p>
+          <PermissionIcon className="w-16 h-16 text-white mx-auto mb-6" />
+          <h2 className="text-2xl font-bold text-white mb-4">{guidance.title}</h2>
+          <p className="text-white/80 mb-6">{guidance.description}</p>
+          {guidance.actionLabel && (
+            <button
+              onClick={handlePermissionRequest}
+              className="px-6 py-3 bg-indigo-600 text-white rounded-full font-semibold hover:bg-indigo-700 transition-colors duration-200"
+            >
+              {guidance.actionLabel}
+            </button>
+          )}
           <button
-            onClick={handlePermissionRequest}
-            className="px-6 py-3 bg-indigo-600 text-white rounded-full font-semibold hover:bg-indigo-700 transition-colors duration-200"
+            onClick={() => setTextOnly(true)}
+            className="block mx-auto mt-4 text-sm text-white/70 underline hover:text-white"
           >
-            Allow Microphone Access
+            Continue with text only
           </button>
         </div>
       </div>
@@ -103,51 +210,266 @@ function App() {
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-indigo-900 via-purple-900 to-pink-900 flex items-center justify-center p-4">
-      <div className="max-w-md w-full bg-black/30 backdrop-blur-xl rounded-3xl shadow-2xl overflow-hidden border border-white/10">
+      <div className="relative max-w-md w-full bg-black/30 backdrop-blur-xl rounded-3xl shadow-2xl overflow-hidden border border-white/10">
+        {/* Tutor settings overlay */}
+        {showSettings && (
+          <div className="absolute inset-0 z-10 bg-gray-950/95 backdrop-blur-xl overflow-y-auto">
+            <TutorSettings
+              profile={tutorProfile}
+              isInCall={connectionPhase === 'connected'}
+              onSave={setTutorProfile}
+              onClose={() => setShowSettings(false)}
+            />
+          </div>
+        )}
+
+        {/* Session history overlay */}
+        {showHistory && (
+          <div className="absolute inset-0 z-10 bg-gray-950/95 backdrop-blur-xl overflow-y-auto">
+            <SessionHistory
+              repository={indexedDbSessionRepository}
+              recordingRepository={indexedDbRecordingRepository}
+              onClose={() => setShowHistory(false)}
+            />
+          </div>
+        )}
+
+        {/* Learner profile and progress overlay */}
+        {showProgress && (
+          <div className="absolute inset-0 z-10 bg-gray-950/95 backdrop-blur-xl overflow-y-auto">
+            <ProgressDashboard
+              profile={learner.profile}
+              progress={learner.progress}
+              onSaveProfile={learner.updateProfile}
+              onClose={() => setShowProgress(false)}
+            />
+          </div>
+        )}
+
+        {/* End-of-session report */}
+        {report && (
+          <div className="absolute inset-0 z-10 bg-gray-950/95 backdrop-blur-xl overflow-y-auto">
+            <div className="p-6 space-y-4">
+              <div className="flex items-center justify-between">
+                <h2 className="text-xl font-bold text-white">Session report</h2>
+                <button onClick={dismissReport} className="p-2 rounded-full text-white/70 hover:bg-white/10">
+                  <X size={20} />
+                </button>
+              </div>
+              <SessionReportView report={report} />
+            </div>
+          </div>
+        )}
+
+        {/* Scenario library overlay */}
+        {showScenarios && (
+          <div className="absolute inset-0 z-10 bg-gray-950/95 backdrop-blur-xl overflow-y-auto">
+            <ScenarioLibrary
+              scenarios={scenarioLibrary.scenarios}
+              importedIds={scenarioLibrary.importedIds}
+              onStart={selected => {
+                setShowScenarios(false);
+                void startScenario(selected, { textOnly: !permissionGranted });
+              }}
+              onImport={scenarioLibrary.importScenarios}
+              onRemove={scenarioLibrary.removeScenario}
+              onClose={() => setShowScenarios(false)}
+            />
+          </div>
+        )}
+
         {/* Header with connection status */}
-        <div className="p-6 text-center border-b border-white/10">
+        <div className="relative p-6 text-center border-b border-white/10">
+          <button
+            onClick={() => setShowHistory(true)}
+            className="absolute top-4 left-4 p-2 rounded-full text-white/70 hover:bg-white/10 hover:text-white transition-colors duration-200"
+            title="Past sessions"
+          >
+            <History size={20} />
+          </button>
+          {DEV_TOOLS && (
+            <button
+              onClick={() => setShowInspector(!showInspector)}
+              className="absolute top-4 left-14 p-2 rounded-full text-white/70 hover:bg-white/10 hover:text-white transition-colors duration-200"
+              title="Event inspector"
+            >
+              <Bug size={20} />
+            </button>
+          )}
+          <button
+            onClick={() => setShowSettings(true)}
+            className="absolute top-4 right-4 p-2 rounded-full text-white/70 hover:bg-white/10 hover:text-white transition-colors duration-200"
+            title="Tutor settings"
+          >
+            <Settings size={20} />
+          </button>
+          <button
+            onClick={() => setShowScenarios(true)}
+            className="absolute top-4 right-14 p-2 rounded-full text-white/70 hover:bg-white/10 hover:text-white transition-colors duration-200"
+            title="Role-play scenarios"
+          >
+            <ListChecks size={20} />
+          </button>
+          <button
+            onClick={() => setShowProgress(true)}
+            className="absolute top-4 right-24 p-2 rounded-full text-white/70 hover:bg-white/10 hover:text-white transition-colors duration-200"
+            title="Your progress"
+          >
+            <TrendingUp size={20} />
+          </button>
           <div className="flex items-center justify-center gap-2 mb-2">
-            <div className={`w-3 h-3 rounded-full ${isConnected ? 'bg-green-500 animate-pulse' : 'bg-gray-500'}`}></div>
+            <div className={`w-3 h-3 rounded-full ${STATUS_DOT_CLASSES[connectionPhase]}`}></div>
+            {connectionPhase === 'connected' && connectionQuality && <ConnectionQualityBadge quality={connectionQuality} />}
             <span className="text-white/80 text-sm">
-              {isConnected ? 'Connected' : 'Ready to connect'}
+              {describeConnection({
+                phase: connectionPhase,
+                attempt: reconnectAttempt,
+                lastFailureReason,
+              })}
             </span>
+            <button
+              onClick={() => setRecordingEnabled(!isRecordingEnabled)}
+              className={`flex items-center gap-1 px-2 py-0.5 rounded-full text-xs transition-colors duration-200 ${
+                isRecordingEnabled ? 'bg-red-500/20 text-red-300' : 'bg-white/10 text-white/50 hover:text-white'
+              }`}
+              title={isRecordingEnabled ? 'Stop recording this session' : 'Record this session for replay'}
+            >
+              <Circle size={8} className={isRecordingEnabled ? 'fill-red-400 animate-pulse' : ''} />
+              REC
+            </button>
           </div>
           <h1 className="text-2xl font-bold text-white">AI Language Tutor</h1>
+          <UsageSummary usage={usage} isInCall={connectionPhase === 'connected'} />
+          {connectionPhase === 'connected' && (
+            <div className="mt-3 flex items-center justify-center gap-6">
+              <LevelIndicator
+                label="You"
+                level={audioLevels.learner}
+                color="indigo"
+                isHeard={audioLevels.serverDetectsSpeech}
+              />
+              <LevelIndicator label="Tutor" level={audioLevels.tutor} color="emerald" />
+            </div>
+          )}
         </div>
 
+        {scenario && <ScenarioChecklist progress={scenario} onFinish={finishScenario} onLeave={leaveScenario} />}
+
         {/* Chat area */}
         <div className="h-[400px] overflow-y-auto p-4 space-y-4" style={{ scrollBehavior: 'smooth' }}>
-          {messages.map((message, index) => (
-            <div
-              key={index}
-              className={`flex ${message.sender === 'user' ? 'justify-end' : 'justify-start'}`}
-            >
-              <div
-                className={`max-w-[80%] p-3 rounded-2xl ${
-                  message.sender === 'user'
-                    ? 'bg-indigo-600 text-white'
-                    : 'bg-white/10 text-white/90'
-                }`}
-              >
-                {message.text}
+          {chatItems.map((message) => (
+            <div key={message.key}>
+              <div className={`flex ${message.sender === 'user' ? 'justify-end' : 'justify-start'}`}>
+                <div
+                  className={`max-w-[80%] p-3 rounded-2xl ${
+                    message.sender === 'user'
+                      ? 'bg-indigo-600 text-white'
+                      : 'bg-white/10 text-white/90'
+                  } ${message.pending ? 'opacity-70 italic' : ''}`}
+                >
+                  {message.text}
+                  {message.interrupted && <span className="ml-1 text-xs text-white/50">(interrupted)</span>}
+                </div>
               </div>
+              <TurnFeedback
+                corrections={message.corrections}
+                vocabulary={message.vocabulary}
+                align={message.sender === 'user' ? 'end' : 'start'}
+              />
             </div>
           ))}
           <div ref={messagesEndRef} />
         </div>
 
+        <TextComposer
+          onSend={sendText}
+          disabled={connectionPhase === 'acquiring-mic' || connectionPhase === 'negotiating'}
+          placeholder={permissionGranted ? 'Type instead of speaking…' : 'Type your message…'}
+        />
+
+        {/* Turn detection */}
+        <div className="px-6 pt-4 pb-2 bg-black/40 space-y-3">
+          <div className="flex bg-white/10 rounded-full p-1 text-sm">
+            <button
+              onClick={() => setTurnDetection(vadSettings)}
+              className={`flex-1 py-1.5 rounded-full transition-colors duration-200 ${
+                !isPushToTalk ? 'bg-indigo-600 text-white' : 'text-white/70 hover:text-white'
+              }`}
+            >
+              Hands-free
+            </button>
+            <button
+              onClick={() => setTurnDetection(PUSH_TO_TALK)}
+              className={`flex-1 py-1.5 rounded-full transition-colors duration-200 ${
+                isPushToTalk ? 'bg-indigo-600 text-white' : 'text-white/70 hover:text-white'
+              }`}
+            >
+              Push to talk
+            </button>
+          </div>
+          {!isPushToTalk && (
+            <div className="space-y-2 text-xs text-white/70">
+              <label className="flex items-center justify-between gap-4">
+                <span>Speech threshold</span>
+                <input
+                  type="range"
+                  min={0.1}
+                  max={0.9}
+                  step={0.05}
+                  value={vadSettings.threshold}
+                  onChange={(e) => updateVadSettings({ threshold: Number(e.target.value) })}
+                  className="w-40 accent-indigo-500"
+                />
+              </label>
+              <label className="flex items-center justify-between gap-4">
+                <span>Pause before reply ({vadSettings.silenceDurationMs} ms)</span>
+                <input
+                  type="range"
+                  min={200}
+                  max={2000}
+                  step={100}
+                  value={vadSettings.silenceDurationMs}
+                  onChange={(e) => updateVadSettings({ silenceDurationMs: Number(e.target.value) })}
+                  className="w-40 accent-indigo-500"
+                />
+              </label>
+            </div>
+          )}
+        </div>
+
         {/* Control panel */}
         <div className="p-6 bg-black/40">
+          {connectionPhase === 'connected' && connectionQuality?.persistentlyPoor && (
+            <div className="mb-4 flex items-start gap-2 p-3 rounded-xl bg-yellow-500/10 border border-yellow-400/30 text-yellow-200 text-xs">
+              <AlertTriangle size={16} className="shrink-0" />
+              <div>
+                <p>Your connection is unstable, so the tutor may break up. Moving closer to your Wi-Fi router or switching networks can help.</p>
+                <button
+                  onClick={() => void switchTransport('websocket')}
+                  className="mt-1 underline hover:text-white"
+                >
+                  Try a more robust connection
+                </button>
+              </div>
+            </div>
+          )}
+          {isListening && audioLevels.micSeemsSilent && (
+            <div className="mb-4 flex items-start gap-2 p-3 rounded-xl bg-yellow-500/10 border border-yellow-400/30 text-yellow-200 text-xs">
+              <AlertTriangle size={16} className="shrink-0" />
+              <span>Your microphone seems silent. Check that it isn't muted on the device, and that the right microphone is selected below.</span>
+            </div>
+          )}
           <div className="flex justify-center items-center gap-6">
             <button
-              onClick={toggleMute}
+              onClick={toggleOutputMute}
               className={`p-4 rounded-full transition-all duration-200 ${
-                isMuted 
+                outputMuted 
                   ? 'bg-red-500/20 text-red-500 hover:bg-red-500/30' 
                   : 'bg-white/10 text-white hover:bg-white/20'
               }`}
+              title={outputMuted ? 'Unmute tutor' : 'Mute tutor'}
             >
-              {isMuted ? <VolumeX size={24} /> : <Volume2 size={24} />}
+              {outputMuted ? <VolumeX size={24} /> : <Volume2 size={24} />}
             </button>
             
             <button
@@ -162,20 +484,84 @@ function App() {
               {isListening ? <PhoneOff size={32} /> : <Phone size={32} />}
             </button>
 
+            {isPushToTalk ? (
+              <button
+                onPointerDown={startTalking}
+                onPointerUp={stopTalking}
+                onPointerLeave={stopTalking}
+                onPointerCancel={stopTalking}
+                className={`p-4 rounded-full transition-all duration-200 select-none touch-none ${
+                  isTalking
+                    ? 'bg-green-500 text-white scale-110'
+                    : 'bg-white/10 text-white hover:bg-white/20'
+                }`}
+                disabled={!permissionGranted || !isListening}
+                title="Hold to talk"
+              >
+                <Mic size={24} />
+              </button>
+            ) : (
+              <button
+                onClick={toggleMicMute}
+                className={`p-4 rounded-full transition-all duration-200 ${
+                  micMuted
+                    ? 'bg-red-500/20 text-red-500 hover:bg-red-500/30'
+                    : 'bg-white/10 text-white hover:bg-white/20'
+                }`}
+                disabled={!permissionGranted}
+                title={micMuted ? 'Unmute microphone' : 'Mute microphone'}
+              >
+                {micMuted ? <MicOff size={24} /> : <Mic size={24} />}
+              </button>
+            )}
+          </div>
+
+          {(connectionPhase === 'connected' || isEndingSession) && (
             <button
-              onClick={toggleMicrophone}
-              className={`p-4 rounded-full transition-all duration-200 ${
-                isListening
-                  ? 'bg-red-500/20 text-red-500 hover:bg-red-500/30'
-                  : 'bg-white/10 text-white hover:bg-white/20'
-              }`}
-              disabled={!permissionGranted}
+              onClick={() => void endSession()}
+              disabled={isEndingSession}
+              className="block mx-auto mt-4 text-sm text-white/70 underline hover:text-white disabled:no-underline disabled:opacity-60"
             >
-              {isListening ? <MicOff size={24} /> : <Mic size={24} />}
+              {isEndingSession ? 'Preparing your report…' : 'End session and see report'}
             </button>
-          </div>
+          )}
+
+          {/* Tutor volume */}
+          <label className="mt-4 flex items-center gap-3 text-white/70 text-xs">
+            <Volume2 size={16} />
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.05}
+              value={volume}
+              onChange={(e) => setVolume(Number(e.target.value))}
+              disabled={outputMuted}
+              className="flex-1 accent-indigo-500"
+            />
+            <span className="w-10 text-right">{Math.round(volume * 100)}%</span>
+          </label>
+
+          <DevicePicker
+            inputs={audioDevices.inputs}
+            outputs={audioDevices.outputs}
+            selection={audioDevices.selection}
+            canSelectOutput={audioDevices.canSelectOutput}
+            onSelect={audioDevices.selectDevices}
+          />
         </div>
       </div>
+
+      {/* Developer event inspector, docked below so the conversation stays visible */}
+      {showInspector && (
+        <div className="fixed inset-x-0 bottom-0 z-20 h-1/3 bg-gray-950/95 backdrop-blur-xl border-t border-white/10">
+          <EventInspector
+            log={eventLog}
+            onReplay={(log, speed) => replayEventLog(log, { speed })}
+            onClose={() => setShowInspector(false)}
+          />
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,30 @@
+import { ConnectionQuality, describeConnectionStats, QualityRating } from '../services/connectionQuality';
+
+interface ConnectionQualityBadgeProps {
+  quality: ConnectionQuality;
+}
+
+// Signal bars lit per rating, like a phone's reception
+const BAR_HEIGHTS = [4, 7, 10];
+
+const RATING_STYLES: Record<QualityRating, { bars: number; color: string; label: string }> = {
+  good: { bars: 3, color: 'bg-green-400', label: 'Good connection' },
+  fair: { bars: 2, color: 'bg-yellow-400', label: 'Fair connection' },
+  poor: { bars: 1, color: 'bg-red-400', label: 'Poor connection' },
+};
+
+export function ConnectionQualityBadge({ quality }: ConnectionQualityBadgeProps) {
+  const style = RATING_STYLES[quality.rating];
+
+  return (
+    <div className="flex items-end gap-0.5" title={`${style.label}: ${describeConnectionStats(quality.stats)}`}>
+      {BAR_HEIGHTS.map((height, index) => (
+        <div
+          key={index}
+          className={`w-1 rounded-sm ${index < style.bars ? style.color : 'bg-white/20'}`}
+          style={{ height }}
+        />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+import { ReactNode } from 'react';
+import { Mic, Speaker } from 'lucide-react';
+import { AudioDevice, AudioDeviceSelection } from '../services/audioDevices';
+
+interface DevicePickerProps {
+  inputs: AudioDevice[];
+  outputs: AudioDevice[];
+  selection: AudioDeviceSelection;
+  canSelectOutput: boolean;
+  onSelect: (changes: Partial<AudioDeviceSelection>) => void;
+}
+
+interface DeviceSelectProps {
+  label: string;
+  icon: ReactNode;
+  devices: AudioDevice[];
+  selectedId: string | null;
+  onChange: (id: string | null) => void;
+}
+
+function DeviceSelect({ label, icon, devices, selectedId, onChange }: DeviceSelectProps) {
+  // A remembered device that is unplugged right now still shows as chosen
+  const isMissing = selectedId !== null && !devices.some(device => device.id === selectedId);
+
+  return (
+    <label className="flex items-center gap-3 text-white/70 text-xs" title={label}>
+      {icon}
+      <select
+        value={selectedId ?? ''}
+        onChange={(e) => onChange(e.target.value || null)}
+        className="flex-1 min-w-0 bg-white/10 rounded-lg px-2 py-1 text-white text-xs focus:outline-none focus:ring-2 focus:ring-indigo-500"
+      >
+        <option value="" className="bg-gray-900">System default</option>
+        {devices.map(device => (
+          <option key={device.id} value={device.id} className="bg-gray-900">{device.label}</option>
+        ))}
+        {isMissing && (
+          <option value={selectedId} className="bg-gray-900">Disconnected device (using default)</option>
+        )}
+      </select>
+    </label>
+  );
+}
+
+// Microphone and speaker choice; switching mid-call keeps the conversation going
+export function DevicePicker({ inputs, outputs, selection, canSelectOutput, onSelect }: DevicePickerProps) {
+  return (
+    <div className="mt-4 space-y-2">
+      <DeviceSelect
+        label="Microphone"
+        icon={<Mic size={16} />}
+        devices={inputs}
+        selectedId={selection.inputId}
+        onChange={inputId => onSelect({ inputId })}
+      />
+      {canSelectOutput && (
+        <DeviceSelect
+          label="Speaker"
+          icon={<Speaker size={16} />}
+          devices={outputs}
+          selectedId={selection.outputId}
+          onChange={outputId => onSelect({ outputId })}
+        />
+      )}
+    </div>
+  );
+}
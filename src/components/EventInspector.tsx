@@ -0,0 +1,171 @@
+import { ChangeEvent, useMemo, useState, useSyncExternalStore } from 'react';
+import { ArrowDownLeft, ArrowUpRight, Download, Trash2, Upload, X } from 'lucide-react';
+import { EventDirection, EventLog, EventLogEntry, EventLogFile, parseEventLog, serializeEventLog } from '../services/eventLog';
+
+interface EventInspectorProps {
+  log: EventLog;
+  onReplay: (log: EventLogFile, speed: number) => Promise<void>;
+  onClose: () => void;
+}
+
+// Rendering thousands of rows would stall the page; filter to find older events
+const MAX_VISIBLE = 300;
+
+const REPLAY_SPEEDS: Array<{ label: string; speed: number }> = [
+  { label: '1×', speed: 1 },
+  { label: '4×', speed: 4 },
+  { label: 'Instant', speed: Infinity },
+];
+
+function formatTime(at: number): string {
+  const time = new Date(at);
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+  return `${pad(time.getHours())}:${pad(time.getMinutes())}:${pad(time.getSeconds())}.${pad(time.getMilliseconds(), 3)}`;
+}
+
+function prettyJson(data: string): string {
+  try {
+    return JSON.stringify(JSON.parse(data), null, 2);
+  } catch {
+    return data;
+  }
+}
+
+function downloadLog(log: EventLogFile) {
+  const blob = new Blob([serializeEventLog(log)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `events-${new Date(log.recordedAt).toISOString().replace(/[:.]/g, '-')}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// Developer panel: every client and server event of the calls so far, to save and replay
+export function EventInspector({ log, onReplay, onClose }: EventInspectorProps) {
+  const entries = useSyncExternalStore(log.subscribe, log.getSnapshot);
+  const [filter, setFilter] = useState('');
+  const [direction, setDirection] = useState<EventDirection | 'all'>('all');
+  const [expanded, setExpanded] = useState<Set<number>>(() => new Set());
+  const [speed, setSpeed] = useState(1);
+  const [isReplaying, setIsReplaying] = useState(false);
+  const [notice, setNotice] = useState<{ text: string; isError: boolean } | null>(null);
+
+  const visible = useMemo(() => {
+    const query = filter.trim().toLowerCase();
+    const matching = entries.filter(entry =>
+      (direction === 'all' || entry.direction === direction)
+      && (!query || (entry.type ?? 'malformed').toLowerCase().includes(query))
+    );
+    return matching.slice(-MAX_VISIBLE);
+  }, [entries, filter, direction]);
+
+  const toggleExpanded = (entry: EventLogEntry) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (!next.delete(entry.seq)) next.add(entry.seq);
+      return next;
+    });
+  };
+
+  const handleFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    let saved: EventLogFile;
+    try {
+      saved = parseEventLog(await file.text());
+    } catch (error) {
+      setNotice({ text: error instanceof Error ? error.message : 'Failed to load event log', isError: true });
+      return;
+    }
+    setNotice({ text: `Replaying ${saved.entries.length} events from ${file.name}…`, isError: false });
+    setIsReplaying(true);
+    try {
+      await onReplay(saved, speed);
+      setNotice({ text: `Replayed ${file.name}.`, isError: false });
+    } finally {
+      setIsReplaying(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col h-full text-xs text-white/80">
+      <div className="flex flex-wrap items-center gap-2 p-3 border-b border-white/10">
+        <h2 className="text-sm font-bold text-white mr-2">Events</h2>
+        <input
+          value={filter}
+          onChange={e => setFilter(e.target.value)}
+          placeholder="Filter by type…"
+          className="px-2 py-1 rounded bg-white/10 text-white placeholder-white/40 w-44"
+        />
+        <select
+          value={direction}
+          onChange={e => setDirection(e.target.value as EventDirection | 'all')}
+          className="px-2 py-1 rounded bg-white/10 text-white"
+        >
+          <option value="all">Both directions</option>
+          <option value="client">Sent</option>
+          <option value="server">Received</option>
+        </select>
+        <span className="text-white/40">{visible.length} of {entries.length}</span>
+
+        <div className="ml-auto flex items-center gap-2">
+          <button
+            onClick={() => downloadLog(log.toFile())}
+            disabled={entries.length === 0}
+            className="flex items-center gap-1 px-2 py-1 rounded bg-white/10 hover:bg-white/20 disabled:opacity-40"
+          >
+            <Download size={12} />
+            Save
+          </button>
+          <select
+            value={speed}
+            onChange={e => setSpeed(Number(e.target.value))}
+            className="px-2 py-1 rounded bg-white/10 text-white"
+            title="Replay speed"
+          >
+            {REPLAY_SPEEDS.map(option => (
+              <option key={option.label} value={option.speed}>{option.label}</option>
+            ))}
+          </select>
+          <label className={`flex items-center gap-1 px-2 py-1 rounded bg-white/10 hover:bg-white/20 ${isReplaying ? 'opacity-40 pointer-events-none' : 'cursor-pointer'}`}>
+            <Upload size={12} />
+            Replay…
+            <input type="file" accept="application/json,.json" onChange={handleFile} className="hidden" />
+          </label>
+          <button onClick={() => log.clear()} className="p-1 rounded hover:bg-white/10" title="Clear">
+            <Trash2 size={14} />
+          </button>
+          <button onClick={onClose} className="p-1 rounded hover:bg-white/10" title="Close">
+            <X size={14} />
+          </button>
+        </div>
+      </div>
+      {notice && <p className={`px-3 py-1 ${notice.isError ? 'text-red-400' : 'text-emerald-300'}`}>{notice.text}</p>}
+
+      <div className="flex-1 overflow-y-auto font-mono">
+        {visible.map(entry => (
+          <div key={entry.seq} className="border-b border-white/5">
+            <button
+              onClick={() => toggleExpanded(entry)}
+              className="w-full flex items-center gap-2 px-3 py-1 text-left hover:bg-white/5"
+            >
+              <span className="text-white/40 shrink-0">{formatTime(entry.at)}</span>
+              {entry.direction === 'client'
+                ? <ArrowUpRight size={12} className="shrink-0 text-sky-400" />
+                : <ArrowDownLeft size={12} className="shrink-0 text-emerald-400" />}
+              <span className={entry.type ? 'text-white truncate' : 'text-red-400 truncate'}>
+                {entry.type ?? 'malformed'}
+              </span>
+            </button>
+            {expanded.has(entry.seq) && (
+              <pre className="px-3 pb-2 whitespace-pre-wrap break-all text-white/70">{prettyJson(entry.data)}</pre>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+import { SideLevel } from '../services/audioLevels';
+
+interface LevelIndicatorProps {
+  label: string;
+  level: SideLevel;
+  color: 'indigo' | 'emerald';
+  // Shown when the server's voice detection hears this side
+  isHeard?: boolean;
+}
+
+// Louder levels lift the middle bars most, like a small waveform
+const BAR_WEIGHTS = [0.5, 0.8, 1, 0.8, 0.5];
+const MAX_BAR_HEIGHT = 20;
+const MIN_BAR_HEIGHT = 3;
+
+const BAR_CLASSES = {
+  indigo: { active: 'bg-indigo-400', idle: 'bg-indigo-400/40' },
+  emerald: { active: 'bg-emerald-400', idle: 'bg-emerald-400/40' },
+};
+
+export function LevelIndicator({ label, level, color, isHeard = false }: LevelIndicatorProps) {
+  const classes = BAR_CLASSES[color];
+
+  return (
+    <div className="flex items-center gap-2" title={level.isSpeaking ? `${label}: speaking` : label}>
+      <span className={`text-xs ${level.isSpeaking ? 'text-white' : 'text-white/50'}`}>{label}</span>
+      <div className="flex items-center gap-0.5" style={{ height: MAX_BAR_HEIGHT }}>
+        {BAR_WEIGHTS.map((weight, index) => (
+          <div
+            key={index}
+            className={`w-1 rounded-full transition-all duration-100 ${level.isSpeaking ? classes.active : classes.idle}`}
+            style={{ height: Math.max(MIN_BAR_HEIGHT, level.level * weight * MAX_BAR_HEIGHT) }}
+          />
+        ))}
+      </div>
+      {isHeard && <span className="w-1.5 h-1.5 rounded-full bg-green-400" title="The tutor hears you" />}
+    </div>
+  );
+}
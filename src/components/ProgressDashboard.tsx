@@ -0,0 +1,145 @@
+import { FormEvent, useState } from 'react';
+import { LucideIcon, Minus, TrendingDown, TrendingUp, X } from 'lucide-react';
+import { LearnerProfile } from '../services/learnerProfile';
+import { ProgressSummary, TrendDirection } from '../services/learnerProgress';
+import { formatMinutes } from '../services/sessionReport';
+import { CEFR_LEVELS, CefrLevel } from '../services/tutorProfile';
+
+interface ProgressDashboardProps {
+  profile: LearnerProfile;
+  progress: ProgressSummary;
+  onSaveProfile: (profile: LearnerProfile) => void;
+  onClose: () => void;
+}
+
+const fieldClass = 'w-full bg-white/10 border border-white/10 rounded-xl px-3 py-2 text-white focus:outline-none focus:border-indigo-400';
+const labelClass = 'block text-sm text-white/70 mb-1';
+
+// Fewer mistakes is the good direction
+const TREND_STYLES: Record<TrendDirection, { icon: LucideIcon; color: string; label: string }> = {
+  down: { icon: TrendingDown, color: 'text-green-300', label: 'Improving' },
+  up: { icon: TrendingUp, color: 'text-amber-300', label: 'More often lately' },
+  steady: { icon: Minus, color: 'text-white/50', label: 'Steady' },
+};
+
+function Stat({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="p-3 rounded-xl bg-white/5 border border-white/10">
+      <p className="text-white/50 text-xs">{label}</p>
+      <p className="text-white font-semibold">{value}</p>
+    </div>
+  );
+}
+
+export function ProgressDashboard({ profile, progress, onSaveProfile, onClose }: ProgressDashboardProps) {
+  const [draft, setDraft] = useState(() => ({ ...profile, goals: profile.goals.join('\n') }));
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    onSaveProfile({
+      name: draft.name.trim(),
+      nativeLanguage: draft.nativeLanguage.trim(),
+      goals: draft.goals.split('\n').map(goal => goal.trim()).filter(Boolean),
+      estimatedLevel: draft.estimatedLevel,
+    });
+    onClose();
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-bold text-white">Your progress</h2>
+        <button onClick={onClose} className="p-2 rounded-full text-white/70 hover:bg-white/10">
+          <X size={20} />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 text-sm">
+        <Stat label="Daily streak" value={progress.streakDays === 1 ? '1 day' : `${progress.streakDays} days`} />
+        <Stat label="Practised this week" value={formatMinutes(progress.practiceMsThisWeek)} />
+        <Stat label="Sessions this week" value={String(progress.sessionsThisWeek)} />
+        <Stat label="Sessions per week" value={String(Math.round(progress.sessionsPerWeek * 10) / 10)} />
+        <Stat label="Total practice" value={formatMinutes(progress.totalPracticeMs)} />
+        <Stat label="Total sessions" value={String(progress.totalSessions)} />
+      </div>
+
+      <div className="space-y-2 text-sm">
+        <h3 className="text-white font-semibold">Mistakes over the last two weeks</h3>
+        {progress.errorTrends.length === 0 ? (
+          <p className="text-white/50">Corrections from your sessions will show up here.</p>
+        ) : (
+          progress.errorTrends.map(trend => {
+            const style = TREND_STYLES[trend.direction];
+            const Icon = style.icon;
+            return (
+              <div key={trend.category} className="flex items-center justify-between p-3 rounded-xl bg-white/5 border border-white/10">
+                <span className="text-white/80 capitalize">{trend.category}</span>
+                <span className={`flex items-center gap-2 text-xs ${style.color}`} title={style.label}>
+                  {Math.round(trend.recentPerSession * 10) / 10} per session
+                  <Icon size={16} />
+                </span>
+              </div>
+            );
+          })
+        )}
+      </div>
+
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <h3 className="text-white font-semibold text-sm">About you</h3>
+        <p className="text-xs text-white/50">The tutor uses this to make conversations more personal.</p>
+        <div>
+          <label className={labelClass} htmlFor="learner-name">Name</label>
+          <input
+            id="learner-name"
+            className={fieldClass}
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            placeholder="What should the tutor call you?"
+          />
+        </div>
+        <div>
+          <label className={labelClass} htmlFor="native-language">Native language</label>
+          <input
+            id="native-language"
+            className={fieldClass}
+            value={draft.nativeLanguage}
+            onChange={(e) => setDraft({ ...draft, nativeLanguage: e.target.value })}
+            placeholder="e.g. Kazakh"
+          />
+        </div>
+        <div>
+          <label className={labelClass} htmlFor="learner-goals">Goals, one per line</label>
+          <textarea
+            id="learner-goals"
+            className={`${fieldClass} resize-none`}
+            rows={3}
+            value={draft.goals}
+            onChange={(e) => setDraft({ ...draft, goals: e.target.value })}
+            placeholder={'Pass a job interview\nChat with colleagues'}
+          />
+        </div>
+        <div>
+          <label className={labelClass} htmlFor="estimated-level">Estimated level</label>
+          <select
+            id="estimated-level"
+            className={fieldClass}
+            value={draft.estimatedLevel ?? ''}
+            onChange={(e) => setDraft({ ...draft, estimatedLevel: (e.target.value || null) as CefrLevel | null })}
+          >
+            <option value="" className="bg-gray-900">Not sure</option>
+            {(Object.keys(CEFR_LEVELS) as CefrLevel[]).map(level => (
+              <option key={level} value={level} className="bg-gray-900">{level} · {CEFR_LEVELS[level]}</option>
+            ))}
+          </select>
+          <p className="text-xs text-white/50 mt-1">Updated by the tutor after each session.</p>
+        </div>
+        <button
+          type="submit"
+          className="w-full py-3 bg-indigo-600 text-white rounded-full font-semibold hover:bg-indigo-700 transition-colors duration-200"
+        >
+          Save
+        </button>
+      </form>
+    </div>
+  );
+}
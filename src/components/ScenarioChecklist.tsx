@@ -0,0 +1,68 @@
+import { CheckCircle2, Circle, Flag, X } from 'lucide-react';
+import { ScenarioProgress } from '../services/scenarios';
+
+interface ScenarioChecklistProps {
+  progress: ScenarioProgress;
+  onFinish: () => void;
+  onLeave: () => void;
+}
+
+// Goals of the running role-play, ticked off as the tutor reports them, and the final assessment
+export function ScenarioChecklist({ progress, onFinish, onLeave }: ScenarioChecklistProps) {
+  const { scenario, completedGoals, result } = progress;
+
+  return (
+    <div className="px-4 py-3 border-b border-white/10 bg-white/5 text-sm">
+      <div className="flex items-center justify-between gap-2">
+        <p className="font-semibold text-white">{scenario.title}</p>
+        <div className="flex gap-1">
+          {!result && (
+            <button
+              onClick={onFinish}
+              className="flex items-center gap-1 px-2 py-1 rounded-full bg-white/10 text-white/80 text-xs hover:bg-white/20"
+              title="End the role-play and get your result"
+            >
+              <Flag size={12} />
+              Finish
+            </button>
+          )}
+          <button
+            onClick={onLeave}
+            className="p-1 rounded-full text-white/60 hover:bg-white/10 hover:text-white"
+            title="Back to free conversation"
+          >
+            <X size={16} />
+          </button>
+        </div>
+      </div>
+
+      <ul className="mt-2 space-y-1">
+        {scenario.goals.map(goal => {
+          const evidence = completedGoals[goal.id];
+          return (
+            <li key={goal.id} className="flex items-start gap-2" title={evidence ? `“${evidence}”` : undefined}>
+              {evidence !== undefined
+                ? <CheckCircle2 size={16} className="shrink-0 text-emerald-400" />
+                : <Circle size={16} className="shrink-0 text-white/30" />}
+              <span className={evidence !== undefined ? 'text-white/60 line-through' : 'text-white/90'}>{goal.description}</span>
+            </li>
+          );
+        })}
+      </ul>
+      {scenario.targetPhrases.length > 0 && !result && (
+        <p className="mt-2 text-xs text-white/50">Try saying: {scenario.targetPhrases.join(' · ')}</p>
+      )}
+
+      {result && (
+        <div className={`mt-3 p-3 rounded-xl border ${
+          result.passed ? 'bg-emerald-500/10 border-emerald-400/30' : 'bg-amber-500/10 border-amber-400/30'
+        }`}>
+          <p className={`font-semibold ${result.passed ? 'text-emerald-300' : 'text-amber-300'}`}>
+            {result.passed ? 'Scenario passed' : 'Not passed yet'}
+          </p>
+          <p className="text-white/80 mt-1">{result.summary}</p>
+        </div>
+      )}
+    </div>
+  );
+}
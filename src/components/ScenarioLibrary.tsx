@@ -0,0 +1,105 @@
+import { ChangeEvent, useState } from 'react';
+import { Download, Play, Trash2, Upload, X } from 'lucide-react';
+import { Scenario, serializeScenarioLibrary } from '../services/scenarios';
+
+interface ScenarioLibraryProps {
+  scenarios: Scenario[];
+  // Teacher imports can be removed again; built-ins can't
+  importedIds: Set<string>;
+  onStart: (scenario: Scenario) => void;
+  onImport: (json: string) => number;
+  onRemove: (id: string) => void;
+  onClose: () => void;
+}
+
+// The whole library as a file, to edit and import again
+function downloadLibrary(scenarios: Scenario[]) {
+  const blob = new Blob([serializeScenarioLibrary(scenarios)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = 'scenarios.json';
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export function ScenarioLibrary({ scenarios, importedIds, onStart, onImport, onRemove, onClose }: ScenarioLibraryProps) {
+  const [notice, setNotice] = useState<{ text: string; isError: boolean } | null>(null);
+
+  const handleFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const count = onImport(await file.text());
+      setNotice({ text: `Imported ${count} scenario${count === 1 ? '' : 's'}.`, isError: false });
+    } catch (error) {
+      setNotice({ text: error instanceof Error ? error.message : 'Failed to import scenarios', isError: true });
+    }
+  };
+
+  return (
+    <div className="p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-bold text-white">Role-play scenarios</h2>
+        <button onClick={onClose} className="p-2 rounded-full text-white/70 hover:bg-white/10">
+          <X size={20} />
+        </button>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <label className="flex items-center gap-1 px-3 py-1.5 rounded-full bg-white/10 text-white/80 text-sm hover:bg-white/20 cursor-pointer">
+          <Upload size={14} />
+          Import JSON
+          <input type="file" accept="application/json,.json" onChange={handleFile} className="hidden" />
+        </label>
+        <button
+          onClick={() => downloadLibrary(scenarios)}
+          className="flex items-center gap-1 px-3 py-1.5 rounded-full bg-white/10 text-white/80 text-sm hover:bg-white/20"
+        >
+          <Download size={14} />
+          Export library
+        </button>
+      </div>
+      {notice && <p className={`text-sm ${notice.isError ? 'text-red-400' : 'text-emerald-300'}`}>{notice.text}</p>}
+
+      <div className="space-y-2">
+        {scenarios.map(scenario => (
+          <div key={scenario.id} className="p-4 rounded-2xl bg-white/5 border border-white/10">
+            <div className="flex items-start justify-between gap-2">
+              <div>
+                <p className="font-semibold text-white">
+                  {scenario.title}
+                  {scenario.level && <span className="ml-2 text-xs text-white/50">{scenario.level}</span>}
+                </p>
+                <p className="text-white/60 text-sm mt-1">{scenario.setting}</p>
+                <p className="text-white/40 text-xs mt-1">
+                  You are {scenario.learnerRole.toLowerCase()} · {scenario.goals.length} goals
+                </p>
+              </div>
+              <div className="flex gap-1 shrink-0">
+                {importedIds.has(scenario.id) && (
+                  <button
+                    onClick={() => onRemove(scenario.id)}
+                    className="p-2 rounded-full text-red-400 hover:bg-red-500/10"
+                    title="Remove imported scenario"
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                )}
+                <button
+                  onClick={() => onStart(scenario)}
+                  className="p-2 rounded-full bg-indigo-600 text-white hover:bg-indigo-700"
+                  title="Start this scenario"
+                >
+                  <Play size={16} />
+                </button>
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
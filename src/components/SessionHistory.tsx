@@ -0,0 +1,216 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { ArrowLeft, Download, Play, Square, Trash2, X } from 'lucide-react';
+import { SessionRecord, SessionRepository, SessionSummary } from '../services/sessionRepository';
+import { RecordingRepository } from '../services/recordingRepository';
+import { findTurnClip, RecordingSegment, TurnClip } from '../services/sessionRecorder';
+import { EXPORT_FORMATS, ExportFormat, exportFileName, exportTranscript } from '../services/transcriptExport';
+import { TurnFeedback } from './TurnFeedback';
+import { SessionReportView } from './SessionReportView';
+
+interface SessionHistoryProps {
+  repository: SessionRepository;
+  recordingRepository?: RecordingRepository;
+  onClose: () => void;
+}
+
+function formatDuration(summary: Pick<SessionSummary, 'startedAt' | 'endedAt'>): string {
+  if (!summary.endedAt) return 'In progress';
+  const minutes = Math.max(1, Math.round((summary.endedAt - summary.startedAt) / 60_000));
+  return `${minutes} min`;
+}
+
+function downloadTranscript(record: SessionRecord, format: ExportFormat) {
+  const blob = new Blob([exportTranscript(record, format)], { type: EXPORT_FORMATS[format].mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = exportFileName(record, format);
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export function SessionHistory({ repository, recordingRepository, onClose }: SessionHistoryProps) {
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [selected, setSelected] = useState<SessionRecord | null>(null);
+  const [recording, setRecording] = useState<RecordingSegment[]>([]);
+  const [playingTurnId, setPlayingTurnId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const player = useRef<{ audio: HTMLAudioElement; url: string } | null>(null);
+
+  const stopPlayback = useCallback(() => {
+    if (player.current) {
+      player.current.audio.pause();
+      URL.revokeObjectURL(player.current.url);
+      player.current = null;
+    }
+    setPlayingTurnId(null);
+  }, []);
+
+  // Release the audio when leaving a session or closing history
+  useEffect(() => stopPlayback, [selected, stopPlayback]);
+
+  const playClip = (turnId: string, clip: TurnClip) => {
+    stopPlayback();
+    const url = URL.createObjectURL(clip.segment.blob);
+    const audio = new Audio(url);
+    player.current = { audio, url };
+    setPlayingTurnId(turnId);
+
+    const endAt = (clip.offsetMs + clip.durationMs) / 1000;
+    audio.addEventListener('timeupdate', () => {
+      if (audio.currentTime >= endAt) stopPlayback();
+    });
+    audio.addEventListener('ended', stopPlayback);
+    audio.addEventListener('loadedmetadata', () => {
+      audio.currentTime = clip.offsetMs / 1000;
+      audio.play().catch(stopPlayback);
+    }, { once: true });
+  };
+
+  const loadSessions = useCallback(async () => {
+    try {
+      setSessions(await repository.list());
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to load sessions');
+    }
+  }, [repository]);
+
+  useEffect(() => {
+    loadSessions();
+  }, [loadSessions]);
+
+  const openSession = async (id: string) => {
+    try {
+      setSelected(await repository.get(id));
+      setRecording(recordingRepository ? await recordingRepository.get(id) : []);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to open session');
+    }
+  };
+
+  // The session stays open when it couldn't be deleted
+  const deleteSession = async (id: string) => {
+    try {
+      await repository.delete(id);
+      await recordingRepository?.delete(id);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to delete session');
+      return;
+    }
+    setError(null);
+    setSelected(null);
+    await loadSessions();
+  };
+
+  if (selected) {
+    const spokenTurns = selected.turns.filter(turn => turn.text);
+
+    return (
+      <div className="p-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <button onClick={() => setSelected(null)} className="p-2 rounded-full text-white/70 hover:bg-white/10">
+            <ArrowLeft size={20} />
+          </button>
+          <h2 className="text-lg font-bold text-white">{new Date(selected.startedAt).toLocaleString()}</h2>
+          <button
+            onClick={() => deleteSession(selected.id)}
+            className="p-2 rounded-full text-red-400 hover:bg-red-500/10"
+            title="Delete session"
+          >
+            <Trash2 size={20} />
+          </button>
+        </div>
+        {error && <p className="text-sm text-red-400">{error}</p>}
+
+        <div className="flex flex-wrap gap-2">
+          {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(format => (
+            <button
+              key={format}
+              onClick={() => downloadTranscript(selected, format)}
+              className="flex items-center gap-1 px-3 py-1.5 rounded-full bg-white/10 text-white/80 text-sm hover:bg-white/20"
+            >
+              <Download size={14} />
+              {EXPORT_FORMATS[format].label}
+            </button>
+          ))}
+        </div>
+
+        {selected.report && (
+          <details className="p-4 rounded-2xl bg-white/5 border border-white/10">
+            <summary className="text-white font-semibold cursor-pointer">Session report</summary>
+            <div className="mt-3">
+              <SessionReportView report={selected.report} />
+            </div>
+          </details>
+        )}
+
+        <div className="space-y-3">
+          {spokenTurns.map((turn, index) => {
+            const clip = findTurnClip(recording, turn, spokenTurns[index + 1]);
+            const isPlaying = playingTurnId === turn.id;
+            return (
+              <div key={turn.id}>
+                <div className={`flex items-center gap-2 ${turn.role === 'user' ? 'flex-row-reverse' : ''}`}>
+                  <div
+                    className={`max-w-[80%] p-3 rounded-2xl text-sm transition-shadow duration-200 ${
+                      turn.role === 'user' ? 'bg-indigo-600 text-white' : 'bg-white/10 text-white/90'
+                    } ${isPlaying ? 'ring-2 ring-yellow-300' : ''}`}
+                  >
+                    {turn.text}
+                  </div>
+                  {clip && (
+                    <button
+                      onClick={() => (isPlaying ? stopPlayback() : playClip(turn.id, clip))}
+                      className="p-1.5 rounded-full text-white/60 hover:bg-white/10 hover:text-white"
+                      title={isPlaying ? 'Stop' : 'Replay this turn'}
+                    >
+                      {isPlaying ? <Square size={14} /> : <Play size={14} />}
+                    </button>
+                  )}
+                </div>
+                <TurnFeedback
+                  corrections={turn.corrections}
+                  vocabulary={turn.vocabulary}
+                  align={turn.role === 'user' ? 'end' : 'start'}
+                />
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-bold text-white">Past sessions</h2>
+        <button onClick={onClose} className="p-2 rounded-full text-white/70 hover:bg-white/10">
+          <X size={20} />
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+      {sessions.length === 0 && !error && (
+        <p className="text-white/60 text-sm">Your practice sessions will appear here.</p>
+      )}
+
+      <div className="space-y-2">
+        {sessions.map(session => (
+          <button
+            key={session.id}
+            onClick={() => openSession(session.id)}
+            className="w-full text-left p-4 rounded-2xl bg-white/5 hover:bg-white/10 border border-white/10 transition-colors duration-200"
+          >
+            <div className="flex justify-between text-sm text-white">
+              <span className="font-semibold">{new Date(session.startedAt).toLocaleString()}</span>
+              <span className="text-white/60">{formatDuration(session)}</span>
+            </div>
+            <p className="text-white/60 text-sm mt-1 truncate">{session.preview || 'No transcript'}</p>
+            <p className="text-white/40 text-xs mt-1">{session.turnCount} turns</p>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
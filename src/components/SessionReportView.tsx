@@ -0,0 +1,84 @@
+import { formatMinutes, SessionReport } from '../services/sessionReport';
+import { CEFR_LEVELS } from '../services/tutorProfile';
+
+interface SessionReportViewProps {
+  report: SessionReport;
+}
+
+function Stat({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="p-3 rounded-xl bg-white/5 border border-white/10">
+      <p className="text-white/50 text-xs">{label}</p>
+      <p className="text-white font-semibold">{value}</p>
+    </div>
+  );
+}
+
+export function SessionReportView({ report }: SessionReportViewProps) {
+  const { metrics, narrative } = report;
+
+  return (
+    <div className="space-y-4 text-sm">
+      {narrative ? (
+        <div className="space-y-2">
+          <p className="text-white/90">{narrative.summary}</p>
+          {narrative.nextSteps.length > 0 && (
+            <ul className="list-disc pl-5 text-white/80 space-y-1">
+              {narrative.nextSteps.map((step, index) => <li key={index}>{step}</li>)}
+            </ul>
+          )}
+          {narrative.estimatedLevel && (
+            <p className="text-white/60 text-xs">
+              Estimated level: {narrative.estimatedLevel} · {CEFR_LEVELS[narrative.estimatedLevel]}
+            </p>
+          )}
+        </div>
+      ) : (
+        <p className="text-white/50">The tutor's written summary isn't available for this session.</p>
+      )}
+
+      <div className="grid grid-cols-2 gap-2">
+        <Stat label="Session length" value={formatMinutes(metrics.durationMs)} />
+        <Stat
+          label="Your share of talk time"
+          value={metrics.learnerTalkRatio === null ? '–' : `${Math.round(metrics.learnerTalkRatio * 100)}%`}
+        />
+        <Stat label="Words per minute" value={metrics.wordsPerMinute === null ? '–' : String(metrics.wordsPerMinute)} />
+        <Stat label="Different words used" value={String(metrics.uniqueWords)} />
+        <Stat label="Words per turn" value={String(metrics.averageUtteranceWords)} />
+        <Stat label="Corrections" value={String(metrics.correctionCount)} />
+      </div>
+
+      {metrics.recurringErrors.length > 0 && (
+        <div>
+          <h3 className="text-white font-semibold mb-2">Recurring mistakes</h3>
+          <div className="space-y-2">
+            {metrics.recurringErrors.map(pattern => (
+              <div key={pattern.category} className="p-3 rounded-xl bg-amber-500/10 border border-amber-400/30">
+                <p className="text-amber-300 text-xs uppercase tracking-wide">{pattern.category} · {pattern.count}×</p>
+                {pattern.examples.map((example, index) => (
+                  <p key={index} className="text-white/80 mt-1">
+                    <span className="line-through text-white/50">{example.original}</span> → {example.corrected}
+                  </p>
+                ))}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {metrics.newWords.length > 0 && (
+        <div>
+          <h3 className="text-white font-semibold mb-2">New words</h3>
+          <ul className="space-y-1">
+            {metrics.newWords.map(item => (
+              <li key={item.word} className="text-white/80">
+                <span className="text-emerald-300 font-medium">{item.word}</span> – {item.definition}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+import { FormEvent, useState } from 'react';
+import { Send } from 'lucide-react';
+
+interface TextComposerProps {
+  onSend: (text: string) => void;
+  disabled?: boolean;
+  placeholder?: string;
+}
+
+// Typed turns, for when the learner can't (or would rather not) speak
+export function TextComposer({ onSend, disabled = false, placeholder = 'Type a message…' }: TextComposerProps) {
+  const [text, setText] = useState('');
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (!text.trim()) return;
+    onSend(text);
+    setText('');
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex items-center gap-2 px-4 py-3 border-t border-white/10">
+      <input
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        placeholder={placeholder}
+        disabled={disabled}
+        className="flex-1 min-w-0 bg-white/10 border border-white/10 rounded-full px-4 py-2 text-sm text-white placeholder-white/40 focus:outline-none focus:border-indigo-400"
+      />
+      <button
+        type="submit"
+        disabled={disabled || !text.trim()}
+        className="p-2 rounded-full bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-40 transition-colors duration-200"
+        title="Send"
+      >
+        <Send size={18} />
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,42 @@
+import { BookOpen, CheckCircle2 } from 'lucide-react';
+import { Correction, VocabularyItem } from '../services/tutorTools';
+
+interface TurnFeedbackProps {
+  corrections: Correction[];
+  vocabulary: VocabularyItem[];
+  align: 'start' | 'end';
+}
+
+// Inline correction and vocabulary cards shown under a conversation turn
+export function TurnFeedback({ corrections, vocabulary, align }: TurnFeedbackProps) {
+  if (corrections.length === 0 && vocabulary.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className={`mt-2 max-w-[80%] space-y-2 ${align === 'end' ? 'ml-auto' : ''}`}>
+      {corrections.map((correction, index) => (
+        <div key={`correction-${index}`} className="p-3 rounded-xl bg-amber-500/10 border border-amber-400/30 text-sm">
+          <div className="flex items-center gap-2 mb-1 text-amber-300 text-xs uppercase tracking-wide">
+            <CheckCircle2 size={14} />
+            {correction.category}
+          </div>
+          <p className="text-white/60 line-through">{correction.original}</p>
+          <p className="text-white font-medium">{correction.corrected}</p>
+          <p className="text-white/70 text-xs mt-1">{correction.explanation}</p>
+        </div>
+      ))}
+      {vocabulary.map((item, index) => (
+        <div key={`word-${index}`} className="p-3 rounded-xl bg-emerald-500/10 border border-emerald-400/30 text-sm">
+          <div className="flex items-center gap-2 mb-1 text-emerald-300 text-xs uppercase tracking-wide">
+            <BookOpen size={14} />
+            New word
+          </div>
+          <p className="text-white font-semibold">{item.word}</p>
+          <p className="text-white/80">{item.definition}</p>
+          <p className="text-white/60 text-xs italic mt-1">“{item.example}”</p>
+        </div>
+      ))}
+    </div>
+  );
+}
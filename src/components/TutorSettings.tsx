@@ -0,0 +1,150 @@
+import { FormEvent, useState } from 'react';
+import { X } from 'lucide-react';
+import {
+  CEFR_LEVELS,
+  CefrLevel,
+  CORRECTION_STYLES,
+  CorrectionStyle,
+  SPEAKING_RATES,
+  SpeakingRate,
+  TUTOR_VOICES,
+  TutorProfile,
+  TutorVoice,
+} from '../services/tutorProfile';
+
+interface TutorSettingsProps {
+  profile: TutorProfile;
+  // Voice changes only apply before the tutor has spoken in the current call
+  isInCall: boolean;
+  onSave: (profile: TutorProfile) => void;
+  onClose: () => void;
+}
+
+const fieldClass = 'w-full bg-white/10 border border-white/10 rounded-xl px-3 py-2 text-white focus:outline-none focus:border-indigo-400';
+const labelClass = 'block text-sm text-white/70 mb-1';
+
+export function TutorSettings({ profile, isInCall, onSave, onClose }: TutorSettingsProps) {
+  const [draft, setDraft] = useState<TutorProfile>(profile);
+
+  const update = (changes: Partial<TutorProfile>) => {
+    setDraft(prev => ({ ...prev, ...changes }));
+  };
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    onSave(draft);
+    onClose();
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-bold text-white">Tutor settings</h2>
+        <button type="button" onClick={onClose} className="p-2 rounded-full text-white/70 hover:bg-white/10">
+          <X size={20} />
+        </button>
+      </div>
+
+      <div>
+        <label className={labelClass}>Your level</label>
+        <div className="grid grid-cols-6 gap-1">
+          {(Object.keys(CEFR_LEVELS) as CefrLevel[]).map(level => (
+            <button
+              key={level}
+              type="button"
+              onClick={() => update({ level })}
+              title={CEFR_LEVELS[level]}
+              className={`py-2 rounded-lg text-sm font-semibold transition-colors duration-200 ${
+                draft.level === level ? 'bg-indigo-600 text-white' : 'bg-white/10 text-white/70 hover:bg-white/20'
+              }`}
+            >
+              {level}
+            </button>
+          ))}
+        </div>
+        <p className="text-xs text-white/50 mt-1">{CEFR_LEVELS[draft.level]}</p>
+      </div>
+
+      <div>
+        <label className={labelClass} htmlFor="topic">Conversation topic</label>
+        <input
+          id="topic"
+          className={fieldClass}
+          value={draft.topic}
+          onChange={(e) => update({ topic: e.target.value })}
+          placeholder="Anything — or e.g. travel, football, job interviews"
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className={labelClass} htmlFor="voice">Voice</label>
+          <select
+            id="voice"
+            className={fieldClass}
+            value={draft.voice}
+            onChange={(e) => update({ voice: e.target.value as TutorVoice })}
+          >
+            {TUTOR_VOICES.map(voice => (
+              <option key={voice} value={voice} className="bg-gray-900">{voice}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className={labelClass} htmlFor="speaking-rate">Speaking rate</label>
+          <select
+            id="speaking-rate"
+            className={fieldClass}
+            value={draft.speakingRate}
+            onChange={(e) => update({ speakingRate: e.target.value as SpeakingRate })}
+          >
+            {(Object.keys(SPEAKING_RATES) as SpeakingRate[]).map(rate => (
+              <option key={rate} value={rate} className="bg-gray-900">{SPEAKING_RATES[rate]}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+      {isInCall && draft.voice !== profile.voice && (
+        <p className="text-xs text-yellow-300/80">The new voice is used from your next call.</p>
+      )}
+
+      <div>
+        <label className={labelClass}>Corrections</label>
+        <div className="grid grid-cols-2 gap-2">
+          {(Object.keys(CORRECTION_STYLES) as CorrectionStyle[]).map(style => (
+            <button
+              key={style}
+              type="button"
+              onClick={() => update({ correctionStyle: style })}
+              className={`py-2 px-3 rounded-lg text-sm transition-colors duration-200 ${
+                draft.correctionStyle === style ? 'bg-indigo-600 text-white' : 'bg-white/10 text-white/70 hover:bg-white/20'
+              }`}
+            >
+              {CORRECTION_STYLES[style]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <label className="flex items-start gap-3 text-sm text-white/80">
+        <input
+          type="checkbox"
+          checked={draft.allowInterruptions}
+          onChange={(e) => update({ allowInterruptions: e.target.checked })}
+          className="mt-1 accent-indigo-500"
+        />
+        <span>
+          Stop the tutor when I start speaking
+          <span className="block text-xs text-white/50">Turn off to let the tutor always finish its sentence.</span>
+        </span>
+      </label>
+
+      <button
+        type="submit"
+        className="w-full py-3 bg-indigo-600 text-white rounded-full font-semibold hover:bg-indigo-700 transition-colors duration-200"
+      >
+        Save
+      </button>
+    </form>
+  );
+}
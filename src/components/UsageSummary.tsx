@@ -0,0 +1,28 @@
+import { formatCost, formatTalkTime, UsageSnapshot } from '../services/usageMeter';
+
+interface UsageSummaryProps {
+  usage: UsageSnapshot;
+  // Session figures only mean something while a call is running
+  isInCall: boolean;
+}
+
+export function UsageSummary({ usage, isInCall }: UsageSummaryProps) {
+  const { session, today, rateLimits, budget } = usage;
+  const details = [
+    `Input: ${session.inputTextTokens} text, ${session.inputAudioTokens} audio, ${session.cachedInputTokens} cached tokens`,
+    `Output: ${session.outputTextTokens} text, ${session.outputAudioTokens} audio tokens`,
+    ...rateLimits.map(limit => `Rate limit (${limit.name}): ${limit.remaining} of ${limit.limit} left`),
+  ].join('\n');
+
+  return (
+    <div className="mt-2 text-xs">
+      <div className="text-white/50" title={details}>
+        {isInCall && `This session ${formatTalkTime(session.talkTimeMs)} · ${formatCost(session.costUsd)} · `}
+        Today {formatTalkTime(today.talkTimeMs)} · {formatCost(today.costUsd)}
+      </div>
+      {budget.level !== 'ok' && (
+        <div className={budget.level === 'exceeded' ? 'text-red-300' : 'text-amber-300'}>{budget.reason}</div>
+      )}
+    </div>
+  );
+}
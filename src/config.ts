@@ -1 +1,38 @@
-export const OPENAI_API_KEY = import.meta.env.VITE_OPENAI_API_KEY;
\ No newline at end of file
+import { TransportPreference } from './services/realtimeTransport';
+import { SpeechProviderKind } from './services/speechProvider';
+import { DEFAULT_USAGE_BUDGET, UsageBudget } from './services/usageMeter';
+
+// Endpoint of the local token broker (see server/). The OpenAI API key lives there, never in the client bundle.
+export const TOKEN_BROKER_URL = import.meta.env.VITE_TOKEN_BROKER_URL ?? '/api/realtime/session';
+
+// Who runs the tutor: 'openai-realtime' through the token broker, or 'local' for offline demos
+// through the local speech pipeline (see server/pipeline.ts)
+export const SPEECH_PROVIDER: SpeechProviderKind = (import.meta.env.VITE_SPEECH_PROVIDER ?? 'openai-realtime') as SpeechProviderKind;
+
+// Session endpoint of the local speech pipeline, for the 'local' provider
+export const LOCAL_PIPELINE_URL = import.meta.env.VITE_LOCAL_PIPELINE_URL ?? 'http://localhost:8790/api/realtime/session';
+
+// 'auto' prefers WebRTC and falls back to a WebSocket where WebRTC is missing or blocked
+export const REALTIME_TRANSPORT: TransportPreference = (import.meta.env.VITE_REALTIME_TRANSPORT ?? 'auto') as TransportPreference;
+
+// socket.io relay for the 'socket.io' transport
+export const REALTIME_RELAY_URL: string | undefined = import.meta.env.VITE_REALTIME_RELAY_URL;
+
+// Developer tools such as the event inspector; only in dev builds
+export const DEV_TOOLS: boolean = import.meta.env.DEV;
+
+// Unset keeps the default limit, 0 removes it
+function readLimit(value: string | undefined, fallback: number | null): number | null {
+  if (value === undefined || value === '') return fallback;
+  const limit = Number(value);
+  return Number.isFinite(limit) && limit > 0 ? limit : null;
+}
+
+// Spending limits per call and per day on this device
+export const USAGE_BUDGET: UsageBudget = {
+  ...DEFAULT_USAGE_BUDGET,
+  sessionCostUsd: readLimit(import.meta.env.VITE_BUDGET_SESSION_USD, DEFAULT_USAGE_BUDGET.sessionCostUsd),
+  dailyCostUsd: readLimit(import.meta.env.VITE_BUDGET_DAILY_USD, DEFAULT_USAGE_BUDGET.dailyCostUsd),
+  sessionMinutes: readLimit(import.meta.env.VITE_BUDGET_SESSION_MINUTES, DEFAULT_USAGE_BUDGET.sessionMinutes),
+  dailyMinutes: readLimit(import.meta.env.VITE_BUDGET_DAILY_MINUTES, DEFAULT_USAGE_BUDGET.dailyMinutes),
+};
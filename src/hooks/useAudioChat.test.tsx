@@ -0,0 +1,163 @@
+// @vitest-environment jsdom
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { useAudioChat } from './useAudioChat';
+import { AudioService } from '../services/audioService';
+import { SessionRecord, SessionRepository, summarizeSession } from '../services/sessionRepository';
+import { FakeMicrophone } from '../test/fakeMedia';
+import { FakeRealtimeServer } from '../test/fakeRealtimeServer';
+import { learnerTurn, tutorReply } from '../test/cannedConversations';
+import { createTestService } from '../test/testService';
+
+function createMemorySessionRepository(): SessionRepository & { records: Map<string, SessionRecord> } {
+  const records = new Map<string, SessionRecord>();
+  return {
+    records,
+    save: async record => {
+      records.set(record.id, record);
+    },
+    get: async id => records.get(id) ?? null,
+    list: async () => [...records.values()].sort((a, b) => b.startedAt - a.startedAt).map(summarizeSession),
+    delete: async id => {
+      records.delete(id);
+    },
+  };
+}
+
+describe('useAudioChat', () => {
+  let server: FakeRealtimeServer;
+  let microphone: FakeMicrophone;
+  let service: AudioService;
+  let sessions: ReturnType<typeof createMemorySessionRepository>;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    server = new FakeRealtimeServer();
+    microphone = new FakeMicrophone();
+    service = createTestService(server, { microphone });
+    sessions = createMemorySessionRepository();
+  });
+
+  afterEach(() => {
+    service.disconnect();
+  });
+
+  function renderChat() {
+    return renderHook(() => useAudioChat({ service, sessionRepository: sessions }));
+  }
+
+  it('starts a call and follows the conversation', async () => {
+    const { result } = renderChat();
+    expect(result.current.connectionPhase).toBe('idle');
+
+    await act(() => result.current.startListening());
+
+    expect(result.current).toMatchObject({ isConnected: true, isListening: true, connectionPhase: 'connected', error: null });
+    expect(result.current.sessionId).not.toBeNull();
+
+    act(() => {
+      server.emit(...learnerTurn('item_user', 'I goed to the park yesterday.'));
+      server.emit(...tutorReply('resp_1', 'item_tutor', 'You went to the park? Lovely!'));
+    });
+
+    expect(result.current.turns.map(turn => [turn.role, turn.text])).toEqual([
+      ['user', 'I goed to the park yesterday.'],
+      ['assistant', 'You went to the park? Lovely!'],
+    ]);
+    expect(result.current.usage.session.outputAudioTokens).toBe(80);
+  });
+
+  it('shows why a call could not start', async () => {
+    server.failBroker({ status: 500, body: 'Upstream session request failed' });
+    const { result } = renderChat();
+
+    await act(() => result.current.startListening());
+
+    expect(result.current).toMatchObject({
+      isConnected: false,
+      isListening: false,
+      sessionId: null,
+      connectionPhase: 'failed',
+      error: 'Token broker refused the session request (500): Upstream session request failed',
+    });
+  });
+
+  it('asks for the microphone before fetching a token', async () => {
+    microphone.permission = 'prompt';
+    microphone.promptAnswer = 'denied';
+    const { result } = renderChat();
+
+    await act(() => result.current.startListening());
+
+    expect(result.current.error).toBe('Microphone permission not granted');
+    expect(result.current.micPermission).toBe('denied');
+    expect(server.tokensIssued).toBe(0);
+  });
+
+  it('shows the reconnect and recovers without losing the session', async () => {
+    const { result } = renderChat();
+    await act(() => result.current.startListening());
+    const { sessionId } = result.current;
+
+    act(() => server.dropConnection());
+    expect(result.current.connectionPhase).toBe('reconnecting');
+
+    await waitFor(() => expect(result.current.connectionPhase).toBe('connected'));
+    expect(result.current).toMatchObject({ isConnected: true, isListening: true, sessionId });
+  });
+
+  it('saves the call with its report on hang-up', async () => {
+    const { result } = renderChat();
+    await act(() => result.current.startListening());
+    const sessionId = result.current.sessionId!;
+    act(() => {
+      server.emit(...learnerTurn('item_user', 'Can we talk about travel?'));
+      server.emit(...tutorReply('resp_1', 'item_tutor', 'Of course! Where did you go last?'));
+    });
+
+    act(() => result.current.disconnect());
+
+    expect(result.current).toMatchObject({ isConnected: false, sessionId: null, connectionPhase: 'closed' });
+    expect(result.current.report?.metrics.learnerTurns).toBe(1);
+    const saved = await sessions.get(sessionId);
+    expect(saved?.endedAt).not.toBeNull();
+    expect(saved?.turns).toHaveLength(2);
+    expect(saved?.report).toEqual(result.current.report);
+  });
+
+  it('saves a call that dropped for good as finished', async () => {
+    const ended: SessionRecord[] = [];
+    const { result } = renderHook(() => useAudioChat({ service, sessionRepository: sessions, onSessionEnded: record => ended.push(record) }));
+    await act(() => result.current.startListening());
+    const sessionId = result.current.sessionId!;
+    act(() => server.emit(...learnerTurn('item_user', 'Can we talk about travel?')));
+
+    server.failSdp({ status: 500, body: 'upstream is down' }, 10);
+    act(() => server.dropConnection());
+    await waitFor(() => expect(result.current.connectionPhase).toBe('failed'));
+
+    const saved = await sessions.get(sessionId);
+    expect(saved?.endedAt).not.toBeNull();
+    expect(saved?.report?.metrics.learnerTurns).toBe(1);
+    expect(ended.map(record => record.id)).toEqual([sessionId]);
+  });
+
+  it('opens a text-only call for a typed message', async () => {
+    const { result } = renderChat();
+
+    await act(() => result.current.sendText('  How do I say "tired" politely?  '));
+
+    expect(result.current).toMatchObject({ isConnected: true, isTextOnly: true, isListening: false });
+    expect(microphone.opened).toHaveLength(0);
+    const [message] = server.receivedOfType('conversation.item.create');
+    expect(message.item).toEqual({
+      type: 'message',
+      role: 'user',
+      content: [{ type: 'input_text', text: 'How do I say "tired" politely?' }],
+    });
+    // No greeting, only the answer to the message
+    expect(server.receivedOfType('response.create')).toHaveLength(1);
+  });
+});
@@ -1,59 +1,292 @@
-import { useState, useCallback, useRef } from 'react';
-import { audioService } from '../services/audioService';
+import { useState, useCallback, useRef, useEffect, useSyncExternalStore } from 'react';
+import { AudioControls, AudioService, audioService, ReplayOptions, SessionOptions } from '../services/audioService';
+import { ConversationStore } from '../services/conversationStore';
+import { ConnectionPhase } from '../services/connectionStateMachine';
+import { TurnDetectionSettings } from '../services/turnDetection';
+import { TutorProfile } from '../services/tutorProfile';
+import { MicrophonePermission } from '../services/microphone';
+import { AudioLevels, SILENT_LEVELS } from '../services/audioLevels';
+import { UsageSnapshot } from '../services/usageMeter';
+import { Scenario, ScenarioProgress } from '../services/scenarios';
+import { computeSessionMetrics, SessionNarrative, SessionReport } from '../services/sessionReport';
+import { SessionRecord, SessionRepository } from '../services/sessionRepository';
+import { EventLogFile } from '../services/eventLog';
+import { ConnectionQuality } from '../services/connectionQuality';
+import { TransportKind } from '../services/realtimeTransport';
+import {
+  DEFAULT_RETENTION_POLICY,
+  RecordingRepository,
+  RecordingRetentionPolicy,
+} from '../services/recordingRepository';
 
-export interface CallState {
+export interface CallState extends AudioControls {
   isConnected: boolean;
   isListening: boolean;
   error: string | null;
   sessionId: string | null;
+  connectionPhase: ConnectionPhase;
+  reconnectAttempt: number;
+  lastFailureReason: string | null;
+  // Rated from media stats while connected over WebRTC; null otherwise
+  connectionQuality: ConnectionQuality | null;
+  turnDetection: TurnDetectionSettings;
+  // Push-to-talk button currently held
+  isTalking: boolean;
+  tutorProfile: TutorProfile;
+  isRecordingEnabled: boolean;
+  // null until the first check
+  micPermission: MicrophonePermission | null;
+  audioLevels: AudioLevels;
+  // The current call has no mic; the learner types instead
+  isTextOnly: boolean;
+  usage: UsageSnapshot;
+  // The current or last role-play; null in free conversation
+  scenario: ScenarioProgress | null;
+  // The tutor is writing up the session before the call closes
+  isEndingSession: boolean;
+  // Report of the call that just ended, until dismissed or a new call starts
+  report: SessionReport | null;
 }
 
-export function useAudioChat() {
-  const [callState, setCallState] = useState<CallState>({
+export interface UseAudioChatOptions {
+  service?: AudioService;
+  // Where finished and in-progress calls are saved; omit to keep nothing
+  sessionRepository?: SessionRepository;
+  // Where call recordings are kept; recording can't be enabled without one
+  recordingRepository?: RecordingRepository;
+  recordingRetention?: RecordingRetentionPolicy;
+  // Called with each call once it has ended and been saved, e.g. to track progress
+  onSessionEnded?: (record: SessionRecord) => void;
+}
+
+// Wait for the transcript to settle before writing it to storage
+const SAVE_DEBOUNCE_MS = 2000;
+
+export function useAudioChat({
+  service = audioService,
+  sessionRepository,
+  recordingRepository,
+  recordingRetention = DEFAULT_RETENTION_POLICY,
+  onSessionEnded,
+}: UseAudioChatOptions = {}) {
+  const [callState, setCallState] = useState<CallState>(() => ({
     isConnected: false,
     isListening: false,
     error: null,
     sessionId: null,
-  });
-  
-  // Use a ref to track permission status
-  const permissionStatus = useRef<PermissionStatus | null>(null);
+    connectionPhase: service.connectionState.phase,
+    reconnectAttempt: service.connectionState.attempt,
+    lastFailureReason: service.connectionState.lastFailureReason,
+    connectionQuality: service.connectionQuality,
+    turnDetection: service.turnDetectionSettings,
+    isTalking: false,
+    tutorProfile: service.currentTutorProfile,
+    isRecordingEnabled: service.isRecordingEnabled,
+    micPermission: service.microphonePermission,
+    audioLevels: SILENT_LEVELS,
+    isTextOnly: service.isTextOnly,
+    usage: service.usageSnapshot,
+    scenario: service.scenarioProgress,
+    isEndingSession: false,
+    report: null,
+    ...service.audioControlState,
+  }));
+
+  // Each hook instance assembles its own transcript from the service's events
+  const [conversation] = useState(() => new ConversationStore());
+  const turns = useSyncExternalStore(conversation.subscribe, conversation.getSnapshot);
+
+  // The call currently being written to session history
+  const activeSession = useRef<{ id: string; startedAt: number } | null>(null);
+  // Recordings are finalized after hang-up, so they are filed under the last call that started
+  const recordingSessionId = useRef<string | null>(null);
+  // Handed from endSession to the save that follows the hang-up
+  const sessionNarrative = useRef<SessionNarrative | null>(null);
+  // Latest callback, so a new one each render doesn't resubscribe to the service
+  const sessionEnded = useRef(onSessionEnded);
+  sessionEnded.current = onSessionEnded;
+
+  // Once the call has ended it is saved with its report, which is returned
+  const persistSession = useCallback((endedAt: number | null, narrative: SessionNarrative | null = null): SessionReport | null => {
+    const active = activeSession.current;
+    const sessionTurns = conversation.getSnapshot();
+    if (!active || sessionTurns.length === 0) return null;
+
+    const report = endedAt === null
+      ? null
+      : { metrics: computeSessionMetrics(sessionTurns, active.startedAt, endedAt), narrative };
+    const record: SessionRecord = {
+      id: active.id,
+      startedAt: active.startedAt,
+      endedAt,
+      tutorProfile: service.currentTutorProfile,
+      turns: sessionTurns,
+      scenario: service.scenarioProgress,
+      report,
+    };
+    sessionRepository?.save(record).catch(error => {
+      console.error('Failed to save session:', error);
+    });
+    if (endedAt !== null) {
+      sessionEnded.current?.(record);
+    }
+    return report;
+  }, [conversation, service, sessionRepository]);
+
+  // Save progress as the transcript grows so a crash doesn't lose the whole session
+  useEffect(() => {
+    if (!callState.sessionId) return;
+    const timer = setTimeout(() => persistSession(null), SAVE_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [turns, callState.sessionId, persistSession]);
+
+  useEffect(() => {
+    const unsubscribeEvents = service.on('server-event', event => conversation.applyServerEvent(event));
+    const unsubscribeToolEffects = service.on('tool-effect', effect => conversation.applyToolEffect(effect));
+    const unsubscribeErrors = service.on('error', message => {
+      setCallState(prev => ({ ...prev, error: message }));
+    });
+    const unsubscribeConnection = service.on('connection-state', snapshot => {
+      // Every way a call ends passes through here, including the service hanging up by itself
+      // and a dropped connection that couldn't be recovered
+      let report: SessionReport | null = null;
+      const hasEnded = snapshot.phase === 'closed' || snapshot.phase === 'failed';
+      if (hasEnded && activeSession.current) {
+        report = persistSession(Date.now(), sessionNarrative.current);
+        activeSession.current = null;
+      }
+      const isActive = snapshot.phase !== 'failed' && snapshot.phase !== 'closed';
+      setCallState(prev => ({
+        ...prev,
+        report: report ?? prev.report,
+        isConnected: snapshot.phase === 'connected',
+        isListening: prev.isListening && isActive,
+        isTalking: prev.isTalking && isActive,
+        sessionId: snapshot.phase === 'closed' ? null : prev.sessionId,
+        connectionPhase: snapshot.phase,
+        reconnectAttempt: snapshot.attempt,
+        lastFailureReason: snapshot.lastFailureReason,
+      }));
+    });
+
+    const unsubscribeRecording = service.on('recording', segments => {
+      const sessionId = recordingSessionId.current;
+      if (!recordingRepository || !sessionId) return;
+
+      recordingRepository.save(sessionId, segments)
+        .then(() => recordingRepository.applyRetention(recordingRetention))
+        .catch(error => {
+          console.error('Failed to save recording:', error);
+        });
+    });
+
+    // Whatever the learner was doing has been cut off; they resume from the mic button
+    const unsubscribeInterruptions = service.on('interruption', reason => {
+      setCallState(prev => ({ ...prev, isListening: false, isTalking: false, error: reason }));
+    });
+
+    const unsubscribePermission = service.on('microphone-permission', permission => {
+      setCallState(prev => ({ ...prev, micPermission: permission }));
+    });
 
-  // Check for microphone permissions
-  const checkPermissions = useCallback(async () => {
+    const unsubscribeLevels = service.on('audio-levels', levels => {
+      setCallState(prev => ({ ...prev, audioLevels: levels }));
+    });
+
+    const unsubscribeQuality = service.on('connection-quality', connectionQuality => {
+      setCallState(prev => ({ ...prev, connectionQuality }));
+    });
+
+    const unsubscribeUsage = service.on('usage', usage => {
+      setCallState(prev => ({ ...prev, usage }));
+    });
+
+    const unsubscribeScenario = service.on('scenario', scenario => {
+      setCallState(prev => ({ ...prev, scenario }));
+    });
+
+    // Mute and volume are owned by the service so they survive reconnects
+    const unsubscribeControls = service.on('audio-controls', controls => {
+      setCallState(prev => ({ ...prev, ...controls }));
+    });
+
+    return () => {
+      unsubscribeEvents();
+      unsubscribeToolEffects();
+      unsubscribeErrors();
+      unsubscribeConnection();
+      unsubscribeControls();
+      unsubscribeRecording();
+      unsubscribeInterruptions();
+      unsubscribePermission();
+      unsubscribeLevels();
+      unsubscribeQuality();
+      unsubscribeUsage();
+      unsubscribeScenario();
+    };
+  }, [service, conversation, persistSession, recordingRepository, recordingRetention]);
+
+  // Check the microphone permission without prompting
+  const checkPermissions = useCallback(async (): Promise<MicrophonePermission> => {
     try {
-      const result = await navigator.permissions.query({ name: 'microphone' as PermissionName });
-      permissionStatus.current = result;
-      
-      return result.state === 'granted';
+      return await service.refreshMicrophonePermission();
     } catch (error) {
       setCallState(prev => ({
         ...prev,
         error: 'Microphone permission check failed'
       }));
-      return false;
+      return 'prompt';
     }
-  }, []);
+  }, [service]);
+
+  // Show the platform prompt where it can still be shown
+  const requestPermission = useCallback(async (): Promise<MicrophonePermission> => {
+    try {
+      return await service.requestMicrophonePermission();
+    } catch (error) {
+      setCallState(prev => ({
+        ...prev,
+        error: error instanceof Error ? error.message : 'Microphone permission request failed'
+      }));
+      return 'prompt';
+    }
+  }, [service]);
 
   // Initialize call session
-  const initializeCall = useCallback(async () => {
+  const initializeCall = useCallback(async (options: SessionOptions = {}) => {
+    const textOnly = options.textOnly ?? false;
     try {
       // Generate a unique session ID
       const sessionId = crypto.randomUUID();
+      const startedAt = Date.now();
       
-      // Check permissions first
-      const hasPermission = await checkPermissions();
-      if (!hasPermission) {
+      // Check permissions first; text-only calls never touch the mic
+      let permission = textOnly ? 'granted' : await checkPermissions();
+      if (permission === 'prompt') {
+        permission = await requestPermission();
+      }
+      if (permission !== 'granted') {
         throw new Error('Microphone permission not granted');
       }
 
+      // Start every call with an empty transcript, once the previous one is saved as finished
+      if (activeSession.current) {
+        persistSession(Date.now(), sessionNarrative.current);
+        activeSession.current = null;
+      }
+      conversation.reset();
+
       // Initialize the audio session
-      await audioService.initializeSession();
+      await service.initializeSession(options);
+      activeSession.current = { id: sessionId, startedAt };
+      recordingSessionId.current = sessionId;
       
       setCallState(prev => ({
         ...prev,
         isConnected: true,
         sessionId,
+        isTextOnly: textOnly,
+        report: null,
         error: null
       }));
 
@@ -67,15 +300,23 @@ export function useAudioChat() {
       }));
       return false;
     }
-  }, [checkPermissions]);
+  }, [checkPermissions, requestPermission, conversation, service, persistSession]);
 
   // Start the call
   const startListening = useCallback(async () => {
     try {
-      const initialized = await initializeCall();
-      if (!initialized) return;
+      // Resume on the running session instead of setting up a new call.
+      // A text-only call has no mic to resume, so speaking starts a new one
+      if (!service.isConnected || service.isTextOnly) {
+        if (service.isTextOnly) {
+          persistSession(Date.now());
+          activeSession.current = null;
+        }
+        const initialized = await initializeCall();
+        if (!initialized) return;
+      }
 
-      audioService.startStreaming();
+      service.startStreaming();
       setCallState(prev => ({
         ...prev,
         isListening: true,
@@ -88,15 +329,55 @@ export function useAudioChat() {
         isListening: false
       }));
     }
-  }, [initializeCall]);
+  }, [initializeCall, persistSession, service]);
+
+  // A role-play always runs in a call of its own, opened by the tutor in character
+  const startScenario = useCallback(async (scenario: Scenario, { textOnly = false }: { textOnly?: boolean } = {}) => {
+    try {
+      persistSession(Date.now());
+      activeSession.current = null;
+      const initialized = await initializeCall({ textOnly, scenario });
+      if (!initialized || textOnly) return;
+
+      service.startStreaming();
+      setCallState(prev => ({ ...prev, isListening: true, error: null }));
+    } catch (error) {
+      setCallState(prev => ({
+        ...prev,
+        error: error instanceof Error ? error.message : 'Failed to start scenario',
+        isListening: false
+      }));
+    }
+  }, [initializeCall, persistSession, service]);
+
+  const finishScenario = useCallback(() => service.finishScenario(), [service]);
+  const leaveScenario = useCallback(() => service.leaveScenario(), [service]);
+
+  // Typed turn; starts a text-only call when none is running
+  const sendText = useCallback(async (text: string) => {
+    try {
+      if (!service.isConnected) {
+        // The typed message opens the conversation instead of the tutor's greeting
+        const initialized = await initializeCall({ textOnly: true, greet: false });
+        if (!initialized) return;
+      }
+      service.sendText(text);
+    } catch (error) {
+      setCallState(prev => ({
+        ...prev,
+        error: error instanceof Error ? error.message : 'Failed to send message'
+      }));
+    }
+  }, [initializeCall, service]);
 
   // Stop the call
   const stopListening = useCallback(() => {
     try {
-      audioService.stopStreaming();
+      service.stopStreaming();
       setCallState(prev => ({
         ...prev,
         isListening: false,
+        isTalking: false,
         error: null
       }));
     } catch (error) {
@@ -105,24 +386,132 @@ export function useAudioChat() {
         error: error instanceof Error ? error.message : 'Failed to stop call'
       }));
     }
-  }, []);
+  }, [service]);
+
+  // Switch between server VAD and push-to-talk without reconnecting
+  const setTurnDetection = useCallback((settings: TurnDetectionSettings) => {
+    service.setTurnDetection(settings);
+    setCallState(prev => ({
+      ...prev,
+      turnDetection: settings,
+      isTalking: false
+    }));
+  }, [service]);
+
+  // Push-to-talk press
+  const startTalking = useCallback(() => {
+    try {
+      service.startTalking();
+      setCallState(prev => ({ ...prev, isTalking: true }));
+    } catch (error) {
+      setCallState(prev => ({
+        ...prev,
+        error: error instanceof Error ? error.message : 'Failed to start talking'
+      }));
+    }
+  }, [service]);
 
-  // Disconnect and cleanup
+  // Push-to-talk release
+  const stopTalking = useCallback(() => {
+    service.stopTalking();
+    setCallState(prev => ({ ...prev, isTalking: false }));
+  }, [service]);
+
+  // Takes effect mid-call through session.update
+  const setTutorProfile = useCallback((profile: TutorProfile) => {
+    service.setTutorProfile(profile);
+    setCallState(prev => ({ ...prev, tutorProfile: profile }));
+  }, [service]);
+
+  const setRecordingEnabled = useCallback((enabled: boolean) => {
+    if (enabled && !recordingRepository) return;
+    service.setRecordingEnabled(enabled);
+    setCallState(prev => ({ ...prev, isRecordingEnabled: enabled }));
+  }, [recordingRepository, service]);
+
+  // Offered when the connection stays poor; errors arrive through the 'error' event.
+  // The new upstream session is given the transcript so the tutor remembers the conversation
+  const switchTransport = useCallback(
+    (kind: TransportKind) => service.switchTransport(kind, conversation.getSnapshot()),
+    [service, conversation],
+  );
+
+  const setMicMuted = useCallback((muted: boolean) => service.setMicMuted(muted), [service]);
+  const setOutputMuted = useCallback((muted: boolean) => service.setOutputMuted(muted), [service]);
+  const setVolume = useCallback((volume: number) => service.setVolume(volume), [service]);
+
+  // Disconnect and cleanup; the call is saved as the service reports it closed
   const disconnect = useCallback(() => {
-    audioService.disconnect();
-    setCallState({
+    service.disconnect();
+    // Connection fields follow the service's 'connection-state' events
+    setCallState(prev => ({
+      ...prev,
       isConnected: false,
       isListening: false,
+      isTalking: false,
       error: null,
       sessionId: null
-    });
+    }));
+  }, [service]);
+
+  // Hang up with a report, asking the tutor for its written summary while the connection is still open
+  const endSession = useCallback(async () => {
+    if (!activeSession.current) return;
+    setCallState(prev => ({ ...prev, isEndingSession: true, isListening: false, isTalking: false }));
+    try {
+      sessionNarrative.current = conversation.getSnapshot().length > 0
+        ? await service.requestSessionNarrative()
+        : null;
+      disconnect();
+    } finally {
+      sessionNarrative.current = null;
+      setCallState(prev => ({ ...prev, isEndingSession: false }));
+    }
+  }, [conversation, disconnect, service]);
+
+  // Play a saved event log into a fresh transcript, without a connection; replays are never saved
+  const replayEventLog = useCallback(async (log: EventLogFile, options?: ReplayOptions) => {
+    // Hang up first, so the running call is saved with its own transcript
+    disconnect();
+    conversation.reset();
+    setCallState(prev => ({ ...prev, isTextOnly: true, report: null }));
+    try {
+      await service.replay(log, options);
+    } catch (error) {
+      setCallState(prev => ({
+        ...prev,
+        error: error instanceof Error ? error.message : 'Failed to replay event log'
+      }));
+    }
+  }, [conversation, disconnect, service]);
+
+  const dismissReport = useCallback(() => {
+    setCallState(prev => ({ ...prev, report: null }));
   }, []);
 
   return {
     ...callState,
+    turns,
     startListening,
     stopListening,
+    sendText,
+    startScenario,
+    finishScenario,
+    leaveScenario,
+    setTurnDetection,
+    startTalking,
+    stopTalking,
+    setMicMuted,
+    setOutputMuted,
+    setVolume,
+    switchTransport,
+    setTutorProfile,
+    setRecordingEnabled,
     disconnect,
-    checkPermissions
+    endSession,
+    replayEventLog,
+    dismissReport,
+    checkPermissions,
+    requestPermission
   };
 }
\ No newline at end of file
@@ -0,0 +1,62 @@
+import { useState, useCallback, useEffect } from 'react';
+import { AudioService, audioService } from '../services/audioService';
+import {
+  AudioDeviceList,
+  AudioDeviceSelection,
+  listAudioDevices,
+  loadDeviceSelection,
+  onDeviceChange,
+  resolveDeviceSelection,
+  saveDeviceSelection,
+  supportsOutputSelection,
+} from '../services/audioDevices';
+
+// Browser device picker: the learner's choice is remembered, the service gets whatever of it is plugged in
+export function useAudioDevices(service: AudioService = audioService) {
+  const [devices, setDevices] = useState<AudioDeviceList | null>(null);
+  const [selection, setSelection] = useState<AudioDeviceSelection>(loadDeviceSelection);
+
+  const refreshDevices = useCallback(async () => {
+    try {
+      setDevices(await listAudioDevices());
+    } catch (error) {
+      console.error('Failed to list audio devices:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    void refreshDevices();
+    const unsubscribeDevices = onDeviceChange(() => void refreshDevices());
+    // Device names only become available once the mic permission is granted
+    const unsubscribePermission = service.on('microphone-permission', () => void refreshDevices());
+    return () => {
+      unsubscribeDevices();
+      unsubscribePermission();
+    };
+  }, [refreshDevices, service]);
+
+  useEffect(() => {
+    if (!devices) return;
+    const resolved = resolveDeviceSelection(selection, devices);
+    const current = service.audioDeviceSelection;
+    if (resolved.inputId !== current.inputId || resolved.outputId !== current.outputId) {
+      void service.setAudioDevices(resolved);
+    }
+  }, [devices, selection, service]);
+
+  const selectDevices = useCallback((changes: Partial<AudioDeviceSelection>) => {
+    setSelection(prev => {
+      const next = { ...prev, ...changes };
+      saveDeviceSelection(next);
+      return next;
+    });
+  }, []);
+
+  return {
+    inputs: devices?.inputs ?? [],
+    outputs: devices?.outputs ?? [],
+    selection,
+    canSelectOutput: supportsOutputSelection(),
+    selectDevices,
+  };
+}
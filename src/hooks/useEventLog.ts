@@ -0,0 +1,21 @@
+import { useEffect, useState } from 'react';
+import { AudioService, audioService } from '../services/audioService';
+import { EventLog } from '../services/eventLog';
+
+export interface UseEventLogOptions {
+  service?: AudioService;
+  // Production builds pass false and record nothing
+  enabled?: boolean;
+}
+
+// Records the service's traffic for the event inspector, whether or not the inspector is open
+export function useEventLog({ service = audioService, enabled = true }: UseEventLogOptions = {}): EventLog {
+  const [log] = useState(() => new EventLog());
+
+  useEffect(() => {
+    if (!enabled) return;
+    return service.on('traffic', traffic => log.record(traffic));
+  }, [service, log, enabled]);
+
+  return log;
+}
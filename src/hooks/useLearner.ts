@@ -0,0 +1,51 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { AudioService, audioService } from '../services/audioService';
+import { LearnerProfile, LearnerProfileStore, localStorageLearnerProfileStore } from '../services/learnerProfile';
+import { localStorageProgressStore, ProgressStore, recordPractice, summarizeProgress } from '../services/learnerProgress';
+import { SessionRecord } from '../services/sessionRepository';
+
+export interface UseLearnerOptions {
+  service?: AudioService;
+  profileStore?: LearnerProfileStore;
+  progressStore?: ProgressStore;
+}
+
+// The learner's profile and progress on this device, kept in the tutor's instructions
+export function useLearner({
+  service = audioService,
+  profileStore = localStorageLearnerProfileStore,
+  progressStore = localStorageProgressStore,
+}: UseLearnerOptions = {}) {
+  const [profile, setProfile] = useState<LearnerProfile>(() => profileStore.load());
+  const [days, setDays] = useState(() => progressStore.load());
+  const progress = useMemo(() => summarizeProgress(days), [days]);
+
+  const updateProfile = useCallback((next: LearnerProfile) => {
+    profileStore.save(next);
+    setProfile(next);
+  }, [profileStore]);
+
+  // Pass to useAudioChat's onSessionEnded
+  const recordSession = useCallback((record: SessionRecord) => {
+    const next = recordPractice(days, record);
+    progressStore.save(next);
+    setDays(next);
+
+    // The tutor's latest estimate replaces the learner's own
+    const level = record.report?.narrative?.estimatedLevel;
+    if (level && level !== profile.estimatedLevel) {
+      updateProfile({ ...profile, estimatedLevel: level });
+    }
+  }, [days, profile, progressStore, updateProfile]);
+
+  useEffect(() => {
+    service.setLearner(profile, progress);
+  }, [service, profile, progress]);
+
+  return {
+    profile,
+    progress,
+    updateProfile,
+    recordSession,
+  };
+}
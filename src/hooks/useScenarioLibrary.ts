@@ -0,0 +1,37 @@
+import { useState, useCallback } from 'react';
+import {
+  BUILT_IN_SCENARIOS,
+  localStorageScenarioStore,
+  mergeScenarios,
+  parseScenarioLibrary,
+  Scenario,
+  ScenarioStore,
+} from '../services/scenarios';
+
+// Built-in scenarios plus the ones a teacher imported on this device
+export function useScenarioLibrary(store: ScenarioStore = localStorageScenarioStore) {
+  const [imported, setImported] = useState<Scenario[]>(() => store.load());
+
+  const updateImported = useCallback((next: Scenario[]) => {
+    store.save(next);
+    setImported(next);
+  }, [store]);
+
+  // Returns how many scenarios were imported; throws if the file is invalid
+  const importScenarios = useCallback((json: string): number => {
+    const scenarios = parseScenarioLibrary(json);
+    updateImported(mergeScenarios(imported, scenarios));
+    return scenarios.length;
+  }, [imported, updateImported]);
+
+  const removeScenario = useCallback((id: string) => {
+    updateImported(imported.filter(scenario => scenario.id !== id));
+  }, [imported, updateImported]);
+
+  return {
+    scenarios: mergeScenarios(BUILT_IN_SCENARIOS, imported),
+    importedIds: new Set(imported.map(scenario => scenario.id)),
+    importScenarios,
+    removeScenario,
+  };
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { JitterBuffer } from './jitterBuffer';
+
+const SAMPLE_RATE = 1000;
+
+// A device with a fixed-size buffer that plays at the sample rate, like a streaming AudioTrack
+class FakeOutputDevice {
+  played: number[] = [];
+  private queued: number[] = [];
+  private clock = 0;
+
+  constructor(private readonly capacity: number) {}
+
+  now = () => this.clock;
+
+  write = (pcm: Int16Array): number => {
+    const taken = Math.min(pcm.length, this.capacity - this.queued.length);
+    this.queued.push(...pcm.subarray(0, taken));
+    return taken;
+  };
+
+  advance(ms: number) {
+    this.clock += ms;
+    this.played.push(...this.queued.splice(0, (ms / 1000) * SAMPLE_RATE));
+  }
+}
+
+function chunk(start: number, length: number): Int16Array {
+  return Int16Array.from({ length }, (_, index) => start + index);
+}
+
+describe('JitterBuffer', () => {
+  it('keeps what the device has no room for and plays everything in order', () => {
+    const device = new FakeOutputDevice(500);
+    const buffer = new JitterBuffer(device.write, { prebufferMs: 100, sampleRate: SAMPLE_RATE }, device.now);
+
+    // Ten seconds of speech arriving within the first second
+    for (let i = 0; i < 100; i++) {
+      buffer.push(chunk(i * 100, 100));
+      if (i % 10 === 9) device.advance(100);
+    }
+    while (device.played.length < 10_000) {
+      device.advance(100);
+      buffer.drain();
+    }
+
+    expect(device.played).toEqual(Array.from({ length: 10_000 }, (_, index) => index));
+  });
+
+  it('drops waiting audio when cleared', () => {
+    const device = new FakeOutputDevice(150);
+    const buffer = new JitterBuffer(device.write, { prebufferMs: 100, sampleRate: SAMPLE_RATE }, device.now);
+
+    buffer.push(chunk(0, 300));
+    buffer.clear();
+    buffer.drain();
+    device.advance(1000);
+
+    expect(device.played).toHaveLength(150);
+  });
+});
@@ -0,0 +1,110 @@
+import { PCM_SAMPLE_RATE } from '../services/pcmAudio';
+
+export interface JitterBufferOptions {
+  // Audio to collect before playback starts (and restarts after an underrun)
+  prebufferMs: number;
+  sampleRate: number;
+}
+
+export const DEFAULT_JITTER_BUFFER: JitterBufferOptions = {
+  prebufferMs: 120,
+  sampleRate: PCM_SAMPLE_RATE,
+};
+
+// Hands PCM to the device and returns how many samples it took; a full device takes fewer than offered
+export type PcmWriter = (pcm: Int16Array) => number;
+
+// Smooths out network jitter in streamed tutor audio: holds chunks back until enough is queued,
+// then hands them to the device, and starts buffering again whenever the device runs dry.
+// Audio arrives faster than it plays, so what the device can't take yet waits until drain() is called.
+export class JitterBuffer {
+  private pending: Int16Array[] = [];
+  private pendingSamples = 0;
+  // Released for playback but not yet accepted by the device, oldest first
+  private backlog: Int16Array[] = [];
+  private isPlaying = false;
+  // When the audio already handed to the device will have finished playing
+  private playedUntil = 0;
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    private readonly write: PcmWriter,
+    private readonly options: JitterBufferOptions = DEFAULT_JITTER_BUFFER,
+    private readonly now: () => number = Date.now,
+  ) {}
+
+  push(pcm: Int16Array): void {
+    if (pcm.length === 0) return;
+
+    if (this.isPlaying && this.now() > this.playedUntil) {
+      // The device ran out before this chunk arrived
+      this.isPlaying = false;
+    }
+
+    if (this.isPlaying) {
+      this.send(pcm);
+      return;
+    }
+
+    this.pending.push(pcm);
+    this.pendingSamples += pcm.length;
+    if (this.durationMs(this.pendingSamples) >= this.options.prebufferMs) {
+      this.flush();
+    } else if (!this.flushTimer) {
+      // Don't hold back the tail of a response that is shorter than the prebuffer
+      this.flushTimer = setTimeout(() => this.flush(), this.options.prebufferMs);
+    }
+  }
+
+  private flush(): void {
+    this.cancelFlushTimer();
+    if (this.pending.length === 0) return;
+
+    this.isPlaying = true;
+    this.pending.forEach(chunk => this.send(chunk));
+    this.pending = [];
+    this.pendingSamples = 0;
+  }
+
+  private cancelFlushTimer(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+  }
+
+  clear(): void {
+    this.cancelFlushTimer();
+    this.pending = [];
+    this.pendingSamples = 0;
+    this.backlog = [];
+    this.isPlaying = false;
+    this.playedUntil = 0;
+  }
+
+  // The device has room again; hand it as much of the backlog as it takes
+  drain(): void {
+    while (this.backlog.length > 0) {
+      const chunk = this.backlog[0];
+      const written = this.write(chunk);
+      if (written < chunk.length) {
+        this.backlog[0] = chunk.subarray(written);
+        return;
+      }
+      this.backlog.shift();
+    }
+  }
+
+  private send(pcm: Int16Array): void {
+    this.playedUntil = Math.max(this.playedUntil, this.now()) + this.durationMs(pcm.length);
+    // Keep the order: nothing overtakes audio that is still waiting for room
+    this.backlog.push(pcm);
+    if (this.backlog.length === 1) {
+      this.drain();
+    }
+  }
+
+  private durationMs(samples: number): number {
+    return (samples / this.options.sampleRate) * 1000;
+  }
+}
@@ -0,0 +1,268 @@
+import {
+  AndroidActivityRequestPermissionsEventData,
+  AndroidApplication,
+  Application,
+  ApplicationSettings,
+  Utils,
+} from '@nativescript/core';
+import { MicrophonePermission } from '../services/microphone';
+import { PCM_SAMPLE_RATE, PcmAudio, PcmAudioInput, PcmAudioOutput } from '../services/pcmAudio';
+import { JitterBuffer } from './jitterBuffer';
+import { AudioInterruption } from './nativeAudio';
+
+// Also declared with <uses-permission> in App_Resources/Android/src/main/AndroidManifest.xml
+const RECORD_AUDIO = android.Manifest.permission.RECORD_AUDIO;
+const PERMISSION_REQUEST_CODE = 4711;
+// Android can't tell "never asked" from "denied for good" without knowing whether we asked before
+const PERMISSION_REQUESTED_KEY = 'microphonePermission.requested';
+// ~100 ms per chunk
+const CHUNK_SAMPLES = PCM_SAMPLE_RATE / 10;
+// A few seconds of 16-bit mono speech in the output track
+const OUTPUT_BUFFER_BYTES = PCM_SAMPLE_RATE * 2 * 4;
+
+// The Android runtime can back an ArrayBuffer with a direct ByteBuffer, so samples reach Java in one bulk copy
+const DirectArrayBuffer = ArrayBuffer as unknown as new (buffer: java.nio.ByteBuffer) => ArrayBuffer;
+
+const interruptionListeners = new Set<(interruption: AudioInterruption) => void>();
+
+function emitInterruption(interruption: AudioInterruption) {
+  interruptionListeners.forEach(listener => listener(interruption));
+}
+
+function context(): android.content.Context {
+  return Utils.android.getApplicationContext();
+}
+
+function audioManager(): android.media.AudioManager {
+  return context().getSystemService(android.content.Context.AUDIO_SERVICE) as android.media.AudioManager;
+}
+
+export function getMicrophonePermission(): MicrophonePermission {
+  const packageManager = context().getPackageManager();
+  if (!packageManager.hasSystemFeature(android.content.pm.PackageManager.FEATURE_MICROPHONE)) {
+    return 'unsupported';
+  }
+  if (context().checkSelfPermission(RECORD_AUDIO) === android.content.pm.PackageManager.PERMISSION_GRANTED) {
+    return 'granted';
+  }
+
+  // After a denial the system shows a rationale hint; once it stops, the prompt won't appear again
+  const activity = Application.android.foregroundActivity;
+  const wasRequested = ApplicationSettings.getBoolean(PERMISSION_REQUESTED_KEY, false);
+  return wasRequested && activity && !activity.shouldShowRequestPermissionRationale(RECORD_AUDIO) ? 'denied' : 'prompt';
+}
+
+export function requestMicrophonePermission(): Promise<MicrophonePermission> {
+  const permission = getMicrophonePermission();
+  if (permission !== 'prompt') return Promise.resolve(permission);
+
+  return new Promise(resolve => {
+    const onResult = (args: AndroidActivityRequestPermissionsEventData) => {
+      if (args.requestCode !== PERMISSION_REQUEST_CODE) return;
+      Application.android.off(AndroidApplication.activityRequestPermissionsEvent, onResult);
+      const granted = args.grantResults.length > 0 && args.grantResults[0] === android.content.pm.PackageManager.PERMISSION_GRANTED;
+      resolve(granted ? 'granted' : 'denied');
+    };
+    Application.android.on(AndroidApplication.activityRequestPermissionsEvent, onResult);
+    ApplicationSettings.setBoolean(PERMISSION_REQUESTED_KEY, true);
+    Application.android.foregroundActivity.requestPermissions([RECORD_AUDIO], PERMISSION_REQUEST_CODE);
+  });
+}
+
+export function onAudioInterruption(listener: (interruption: AudioInterruption) => void): () => void {
+  interruptionListeners.add(listener);
+  return () => {
+    interruptionListeners.delete(listener);
+  };
+}
+
+// Audio focus tells us about phone calls and other apps taking over; "becoming noisy" about unplugged headphones
+class AudioFocus {
+  private request: android.media.AudioFocusRequest | null = null;
+
+  acquire() {
+    if (this.request) return;
+
+    const attributes = new android.media.AudioAttributes.Builder()
+      .setUsage(android.media.AudioAttributes.USAGE_VOICE_COMMUNICATION)
+      .setContentType(android.media.AudioAttributes.CONTENT_TYPE_SPEECH)
+      .build();
+    this.request = new android.media.AudioFocusRequest.Builder(android.media.AudioManager.AUDIOFOCUS_GAIN)
+      .setAudioAttributes(attributes)
+      .setOnAudioFocusChangeListener(new android.media.AudioManager.OnAudioFocusChangeListener({
+        onAudioFocusChange(change: number) {
+          if (change === android.media.AudioManager.AUDIOFOCUS_GAIN) {
+            emitInterruption('resumed');
+          } else if (
+            change === android.media.AudioManager.AUDIOFOCUS_LOSS
+            || change === android.media.AudioManager.AUDIOFOCUS_LOSS_TRANSIENT
+          ) {
+            emitInterruption('interrupted');
+          }
+        },
+      }))
+      .build();
+
+    audioManager().requestAudioFocus(this.request);
+    Application.android.registerBroadcastReceiver(
+      android.media.AudioManager.ACTION_AUDIO_BECOMING_NOISY,
+      () => emitInterruption('output-lost'),
+    );
+  }
+
+  release() {
+    if (!this.request) return;
+    audioManager().abandonAudioFocusRequest(this.request);
+    Application.android.unregisterBroadcastReceiver(android.media.AudioManager.ACTION_AUDIO_BECOMING_NOISY);
+    this.request = null;
+  }
+}
+
+class AndroidPcmInput implements PcmAudioInput {
+  private recorder: android.media.AudioRecord | null = null;
+
+  constructor(private readonly focus: AudioFocus) {}
+
+  async start(onChunk: (pcm: Int16Array) => void): Promise<void> {
+    const minBufferSize = android.media.AudioRecord.getMinBufferSize(
+      PCM_SAMPLE_RATE,
+      android.media.AudioFormat.CHANNEL_IN_MONO,
+      android.media.AudioFormat.ENCODING_PCM_16BIT,
+    );
+    // The voice communication source enables the platform's echo cancellation
+    const recorder = new android.media.AudioRecord(
+      android.media.MediaRecorder.AudioSource.VOICE_COMMUNICATION,
+      PCM_SAMPLE_RATE,
+      android.media.AudioFormat.CHANNEL_IN_MONO,
+      android.media.AudioFormat.ENCODING_PCM_16BIT,
+      Math.max(minBufferSize, CHUNK_SAMPLES * 4),
+    );
+    if (recorder.getState() !== android.media.AudioRecord.STATE_INITIALIZED) {
+      recorder.release();
+      throw new Error('Failed to open the microphone');
+    }
+
+    // Reading without blocking on each periodic notification keeps the UI thread free
+    const frame = Array.create('short', CHUNK_SAMPLES);
+    recorder.setPositionNotificationPeriod(CHUNK_SAMPLES);
+    recorder.setRecordPositionUpdateListener(new android.media.AudioRecord.OnRecordPositionUpdateListener({
+      onMarkerReached() {},
+      onPeriodicNotification(source: android.media.AudioRecord) {
+        const read = source.read(frame, 0, CHUNK_SAMPLES, android.media.AudioRecord.READ_NON_BLOCKING);
+        if (read <= 0) return;
+        const pcm = new Int16Array(read);
+        for (let i = 0; i < read; i++) {
+          pcm[i] = frame[i];
+        }
+        onChunk(pcm);
+      },
+    }));
+
+    this.focus.acquire();
+    recorder.startRecording();
+    this.recorder = recorder;
+  }
+
+  stop(): void {
+    if (this.recorder) {
+      this.recorder.stop();
+      this.recorder.release();
+      this.recorder = null;
+    }
+  }
+}
+
+class AndroidPcmOutput implements PcmAudioOutput {
+  readonly stream = null;
+  private track: android.media.AudioTrack;
+  private buffer = new JitterBuffer(pcm => this.write(pcm));
+  // Staging area shared with Java, reused for every write
+  private bytes = java.nio.ByteBuffer.allocateDirect(OUTPUT_BUFFER_BYTES).order(java.nio.ByteOrder.nativeOrder());
+  private samples = new Int16Array(new DirectArrayBuffer(this.bytes));
+  private muted = false;
+  private volume = 1;
+
+  constructor(private readonly focus: AudioFocus) {
+    const format = new android.media.AudioFormat.Builder()
+      .setSampleRate(PCM_SAMPLE_RATE)
+      .setChannelMask(android.media.AudioFormat.CHANNEL_OUT_MONO)
+      .setEncoding(android.media.AudioFormat.ENCODING_PCM_16BIT)
+      .build();
+    const attributes = new android.media.AudioAttributes.Builder()
+      .setUsage(android.media.AudioAttributes.USAGE_VOICE_COMMUNICATION)
+      .setContentType(android.media.AudioAttributes.CONTENT_TYPE_SPEECH)
+      .build();
+    const minBufferSize = android.media.AudioTrack.getMinBufferSize(
+      PCM_SAMPLE_RATE,
+      android.media.AudioFormat.CHANNEL_OUT_MONO,
+      android.media.AudioFormat.ENCODING_PCM_16BIT,
+    );
+
+    this.track = new android.media.AudioTrack.Builder()
+      .setAudioFormat(format)
+      .setAudioAttributes(attributes)
+      .setTransferMode(android.media.AudioTrack.MODE_STREAM)
+      // Replies arrive faster than they play; what doesn't fit waits in the jitter buffer
+      .setBufferSizeInBytes(Math.max(minBufferSize, OUTPUT_BUFFER_BYTES))
+      .build();
+    // Top the track up as it plays; the callbacks arrive on the main looper, like everything else here
+    this.track.setPositionNotificationPeriod(CHUNK_SAMPLES);
+    this.track.setPlaybackPositionUpdateListener(new android.media.AudioTrack.OnPlaybackPositionUpdateListener({
+      onMarkerReached: () => {},
+      onPeriodicNotification: () => this.buffer.drain(),
+    }));
+    this.track.play();
+  }
+
+  enqueue(pcm: Int16Array): void {
+    this.buffer.push(pcm);
+  }
+
+  // Non-blocking, so only what fits in the track right now is taken
+  private write(pcm: Int16Array): number {
+    this.focus.acquire();
+    const length = Math.min(pcm.length, this.samples.length);
+    this.samples.set(pcm.subarray(0, length));
+    this.bytes.clear();
+    const written = this.track.write(this.bytes, length * 2, android.media.AudioTrack.WRITE_NON_BLOCKING);
+    if (written < 0) {
+      // The track is unusable; drop the chunk rather than retry it forever
+      console.warn(`AudioTrack write failed (${written})`);
+      return pcm.length;
+    }
+    return written / 2;
+  }
+
+  clear(): void {
+    this.buffer.clear();
+    this.track.pause();
+    this.track.flush();
+    this.track.play();
+  }
+
+  setMuted(muted: boolean): void {
+    this.muted = muted;
+    this.applyVolume();
+  }
+
+  setVolume(volume: number): void {
+    this.volume = volume;
+    this.applyVolume();
+  }
+
+  private applyVolume() {
+    this.track.setVolume(this.muted ? 0 : this.volume);
+  }
+
+  close(): void {
+    this.buffer.clear();
+    this.track.stop();
+    this.track.release();
+    this.focus.release();
+  }
+}
+
+export function createNativePcmAudio(): PcmAudio {
+  const focus = new AudioFocus();
+  return { input: new AndroidPcmInput(focus), output: new AndroidPcmOutput(focus) };
+}
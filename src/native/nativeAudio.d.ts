@@ -0,0 +1,20 @@
+import { PcmAudio } from '../services/pcmAudio';
+import { MicrophonePermission } from '../services/microphone';
+
+// Platform audio for the NativeScript app, implemented in nativeAudio.ios.ts and nativeAudio.android.ts
+
+// 'interrupted': another app or a phone call took the audio session
+// 'resumed': the session is ours again
+// 'output-lost': headphones were unplugged, so tutor audio would suddenly play out loud
+export type AudioInterruption = 'interrupted' | 'resumed' | 'output-lost';
+
+// 'denied' only once the system won't show its prompt again
+export function getMicrophonePermission(): MicrophonePermission;
+
+// Shows the system prompt when it still can
+export function requestMicrophonePermission(): Promise<MicrophonePermission>;
+
+// Mic capture and tutor playback sharing one platform audio session
+export function createNativePcmAudio(): PcmAudio;
+
+export function onAudioInterruption(listener: (interruption: AudioInterruption) => void): () => void;
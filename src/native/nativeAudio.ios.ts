@@ -0,0 +1,231 @@
+import {
+  floatToPcm16,
+  PCM_SAMPLE_RATE,
+  PcmAudio,
+  PcmAudioInput,
+  PcmAudioOutput,
+  pcm16ToFloat,
+  resampleLinear,
+} from '../services/pcmAudio';
+import { JitterBuffer } from './jitterBuffer';
+import { MicrophonePermission } from '../services/microphone';
+import { AudioInterruption } from './nativeAudio';
+
+// Native enum values; ambient const enums can't be read under isolatedModules
+const FLOAT32_FORMAT = 1 as AVAudioCommonFormat;
+const INTERRUPTION_BEGAN = 1 as AVAudioSessionInterruptionType;
+const INTERRUPTION_SHOULD_RESUME = 1 as AVAudioSessionInterruptionOptions;
+const ROUTE_OLD_DEVICE_UNAVAILABLE = 2 as AVAudioSessionRouteChangeReason;
+const PERMISSION_GRANTED = 1735552628 as AVAudioSessionRecordPermission;
+const PERMISSION_DENIED = 1684369017 as AVAudioSessionRecordPermission;
+const DEFAULT_TO_SPEAKER = 8 as AVAudioSessionCategoryOptions;
+const ALLOW_BLUETOOTH = 4 as AVAudioSessionCategoryOptions;
+// ~100 ms at the usual 48 kHz hardware rate
+const TAP_BUFFER_SIZE = 4800;
+
+// NativeScript lets native sample pointers be indexed like arrays
+type ChannelData = { [channel: number]: { [sample: number]: number } };
+
+const interruptionListeners = new Set<(interruption: AudioInterruption) => void>();
+// Engines to restart once an interruption ends
+const runningEngines = new Set<AVAudioEngine>();
+let notificationObservers: NSObjectProtocol[] = [];
+
+function emitInterruption(interruption: AudioInterruption) {
+  interruptionListeners.forEach(listener => listener(interruption));
+}
+
+function observeAudioSession() {
+  if (notificationObservers.length > 0) return;
+  const center = NSNotificationCenter.defaultCenter;
+
+  notificationObservers = [
+    center.addObserverForNameObjectQueueUsingBlock(
+      AVAudioSessionInterruptionNotification,
+      null,
+      NSOperationQueue.mainQueue,
+      notification => {
+        const type = notification.userInfo?.objectForKey(AVAudioSessionInterruptionTypeKey) as number;
+        if (type === INTERRUPTION_BEGAN) {
+          emitInterruption('interrupted');
+          return;
+        }
+
+        const options = notification.userInfo?.objectForKey(AVAudioSessionInterruptionOptionKey) as number;
+        // The system stops our engines during an interruption
+        runningEngines.forEach(engine => engine.startAndReturnError());
+        if (options & INTERRUPTION_SHOULD_RESUME) {
+          emitInterruption('resumed');
+        }
+      },
+    ),
+    center.addObserverForNameObjectQueueUsingBlock(
+      AVAudioSessionRouteChangeNotification,
+      null,
+      NSOperationQueue.mainQueue,
+      notification => {
+        const reason = notification.userInfo?.objectForKey(AVAudioSessionRouteChangeReasonKey) as number;
+        if (reason === ROUTE_OLD_DEVICE_UNAVAILABLE) {
+          emitInterruption('output-lost');
+        }
+      },
+    ),
+  ];
+}
+
+function activateAudioSession() {
+  const session = AVAudioSession.sharedInstance();
+  session.setCategoryModeOptionsError(
+    AVAudioSessionCategoryPlayAndRecord,
+    AVAudioSessionModeVoiceChat,
+    DEFAULT_TO_SPEAKER | ALLOW_BLUETOOTH,
+  );
+  session.setActiveError(true);
+  observeAudioSession();
+}
+
+export function getMicrophonePermission(): MicrophonePermission {
+  const session = AVAudioSession.sharedInstance();
+  switch (session.recordPermission) {
+    case PERMISSION_GRANTED:
+      return session.inputAvailable ? 'granted' : 'unsupported';
+    case PERMISSION_DENIED:
+      // iOS only asks once; after that the user has to go to Settings
+      return 'denied';
+    default:
+      return 'prompt';
+  }
+}
+
+// The prompt shows the NSMicrophoneUsageDescription from the app's Info.plist; iOS terminates apps that lack it
+export function requestMicrophonePermission(): Promise<MicrophonePermission> {
+  const permission = getMicrophonePermission();
+  if (permission !== 'prompt') return Promise.resolve(permission);
+
+  return new Promise(resolve => {
+    AVAudioSession.sharedInstance().requestRecordPermission(() => resolve(getMicrophonePermission()));
+  });
+}
+
+export function onAudioInterruption(listener: (interruption: AudioInterruption) => void): () => void {
+  interruptionListeners.add(listener);
+  return () => {
+    interruptionListeners.delete(listener);
+  };
+}
+
+function startEngine(engine: AVAudioEngine) {
+  if (!engine.running) {
+    engine.prepare();
+    engine.startAndReturnError();
+  }
+  runningEngines.add(engine);
+}
+
+class IosPcmInput implements PcmAudioInput {
+  private isTapped = false;
+
+  constructor(private readonly engine: AVAudioEngine) {}
+
+  async start(onChunk: (pcm: Int16Array) => void): Promise<void> {
+    activateAudioSession();
+    const input = this.engine.inputNode;
+    // Echo cancellation, so the mic doesn't pick up the tutor through the speaker
+    input.setVoiceProcessingEnabledError(true);
+    const format = input.outputFormatForBus(0);
+
+    input.installTapOnBusBufferSizeFormatBlock(0, TAP_BUFFER_SIZE, format, buffer => {
+      const channel = (buffer.floatChannelData as unknown as ChannelData)[0];
+      const samples = new Float32Array(buffer.frameLength);
+      for (let i = 0; i < samples.length; i++) {
+        samples[i] = channel[i];
+      }
+      onChunk(floatToPcm16(resampleLinear(samples, format.sampleRate, PCM_SAMPLE_RATE)));
+    });
+    this.isTapped = true;
+    startEngine(this.engine);
+  }
+
+  stop(): void {
+    if (this.isTapped) {
+      this.engine.inputNode.removeTapOnBus(0);
+      this.isTapped = false;
+    }
+  }
+}
+
+class IosPcmOutput implements PcmAudioOutput {
+  readonly stream = null;
+  private player = AVAudioPlayerNode.new();
+  private format = AVAudioFormat.alloc().initWithCommonFormatSampleRateChannelsInterleaved(
+    FLOAT32_FORMAT,
+    PCM_SAMPLE_RATE,
+    1,
+    false,
+  );
+  private buffer = new JitterBuffer(pcm => this.schedule(pcm));
+  private muted = false;
+  private volume = 1;
+
+  constructor(private readonly engine: AVAudioEngine) {
+    // Text-only sessions play the tutor without ever starting the mic
+    activateAudioSession();
+    engine.attachNode(this.player);
+    // The mixer converts from 24 kHz to the hardware rate
+    engine.connectToFormat(this.player, engine.mainMixerNode, this.format);
+  }
+
+  enqueue(pcm: Int16Array): void {
+    this.buffer.push(pcm);
+  }
+
+  // The player node queues everything it is given, so the whole chunk is always taken
+  private schedule(pcm: Int16Array): number {
+    startEngine(this.engine);
+    const buffer = AVAudioPCMBuffer.alloc().initWithPCMFormatFrameCapacity(this.format, pcm.length);
+    buffer.frameLength = pcm.length;
+    const channel = (buffer.floatChannelData as unknown as ChannelData)[0];
+    const samples = pcm16ToFloat(pcm);
+    for (let i = 0; i < samples.length; i++) {
+      channel[i] = samples[i];
+    }
+
+    this.player.scheduleBufferCompletionHandler(buffer, () => {});
+    if (!this.player.playing) {
+      this.player.play();
+    }
+    return pcm.length;
+  }
+
+  clear(): void {
+    this.buffer.clear();
+    // Stopping a player node drops everything it has scheduled
+    this.player.stop();
+  }
+
+  setMuted(muted: boolean): void {
+    this.muted = muted;
+    this.applyVolume();
+  }
+
+  setVolume(volume: number): void {
+    this.volume = volume;
+    this.applyVolume();
+  }
+
+  private applyVolume() {
+    this.player.volume = this.muted ? 0 : this.volume;
+  }
+
+  close(): void {
+    this.clear();
+    this.engine.stop();
+    runningEngines.delete(this.engine);
+    this.engine.detachNode(this.player);
+  }
+}
+
+export function createNativePcmAudio(): PcmAudio {
+  const engine = AVAudioEngine.new();
+  return { input: new IosPcmInput(engine), output: new IosPcmOutput(engine) };
+}
@@ -0,0 +1,56 @@
+import { Application } from '@nativescript/core';
+import { AudioService } from '../services/audioService';
+import { MicrophoneAccess, MicrophonePermission } from '../services/microphone';
+import { createSpeechProvider } from '../services/speechProvider';
+import { SPEECH_PROVIDER } from '../config';
+import {
+  AudioInterruption,
+  createNativePcmAudio,
+  getMicrophonePermission,
+  onAudioInterruption,
+  requestMicrophonePermission,
+} from './nativeAudio';
+import { nativeUsageStore } from './nativeUsageStore';
+
+class NativeMicrophone implements MicrophoneAccess {
+  async queryPermission(): Promise<MicrophonePermission> {
+    return getMicrophonePermission();
+  }
+
+  requestPermission(): Promise<MicrophonePermission> {
+    return requestMicrophonePermission();
+  }
+
+  // The permission can only change in the system settings, so look again whenever the app comes back
+  watchPermission(listener: (permission: MicrophonePermission) => void): () => void {
+    const onResume = () => listener(getMicrophonePermission());
+    Application.on(Application.resumeEvent, onResume);
+    return () => Application.off(Application.resumeEvent, onResume);
+  }
+
+  // The platform audio layer captures the mic itself, inside the transport
+  async open(): Promise<null> {
+    return null;
+  }
+}
+
+export const nativeMicrophone = new NativeMicrophone();
+
+// No WebRTC on the native platforms: PCM over a WebSocket, played and captured by the platform audio layer
+export const nativeAudioService = new AudioService({
+  transport: 'websocket',
+  provider: createSpeechProvider(SPEECH_PROVIDER, () => createNativePcmAudio()),
+  microphone: nativeMicrophone,
+  usageStore: nativeUsageStore,
+});
+
+const INTERRUPTION_MESSAGES: Record<Exclude<AudioInterruption, 'resumed'>, string> = {
+  'interrupted': 'Audio was interrupted by another app or a call. Tap the mic to continue.',
+  'output-lost': 'Audio output was disconnected. Tap the mic to continue.',
+};
+
+onAudioInterruption(interruption => {
+  // Resuming is left to the learner, so the tutor never starts talking into an unexpected room
+  if (interruption === 'resumed') return;
+  nativeAudioService.interruptAudio(INTERRUPTION_MESSAGES[interruption]);
+});
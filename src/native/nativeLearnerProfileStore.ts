@@ -0,0 +1,17 @@
+import { ApplicationSettings } from '@nativescript/core';
+import { EMPTY_LEARNER_PROFILE, LearnerProfileStore, parseLearnerProfile } from '../services/learnerProfile';
+
+const PROFILE_KEY = 'learnerProfile';
+
+export const nativeLearnerProfileStore: LearnerProfileStore = {
+  load() {
+    try {
+      return parseLearnerProfile(ApplicationSettings.getString(PROFILE_KEY, 'null'));
+    } catch {
+      return EMPTY_LEARNER_PROFILE;
+    }
+  },
+  save(profile) {
+    ApplicationSettings.setString(PROFILE_KEY, JSON.stringify(profile));
+  },
+};
@@ -0,0 +1,17 @@
+import { ApplicationSettings } from '@nativescript/core';
+import { parsePracticeDays, ProgressStore } from '../services/learnerProgress';
+
+const PROGRESS_KEY = 'learnerProgress';
+
+export const nativeProgressStore: ProgressStore = {
+  load() {
+    try {
+      return parsePracticeDays(ApplicationSettings.getString(PROGRESS_KEY, '[]'));
+    } catch {
+      return [];
+    }
+  },
+  save(days) {
+    ApplicationSettings.setString(PROGRESS_KEY, JSON.stringify(days));
+  },
+};
@@ -0,0 +1,17 @@
+import { ApplicationSettings } from '@nativescript/core';
+import { parseScenarioLibrary, ScenarioStore, serializeScenarioLibrary } from '../services/scenarios';
+
+const SCENARIOS_KEY = 'importedScenarios';
+
+export const nativeScenarioStore: ScenarioStore = {
+  load() {
+    try {
+      return parseScenarioLibrary(ApplicationSettings.getString(SCENARIOS_KEY, '[]'));
+    } catch {
+      return [];
+    }
+  },
+  save(scenarios) {
+    ApplicationSettings.setString(SCENARIOS_KEY, serializeScenarioLibrary(scenarios));
+  },
+};
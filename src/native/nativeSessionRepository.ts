@@ -0,0 +1,64 @@
+import { ApplicationSettings, knownFolders } from '@nativescript/core';
+import { SessionRecord, SessionRepository, SessionSummary, summarizeSession } from '../services/sessionRepository';
+
+// Summaries live in ApplicationSettings so the history list loads without touching the disk;
+// full transcripts are stored as one JSON file per session.
+const INDEX_KEY = 'sessionHistory.index';
+const SESSIONS_FOLDER = 'sessions';
+
+function readIndex(): SessionSummary[] {
+  try {
+    return JSON.parse(ApplicationSettings.getString(INDEX_KEY, '[]'));
+  } catch {
+    return [];
+  }
+}
+
+function writeIndex(index: SessionSummary[]): void {
+  ApplicationSettings.setString(INDEX_KEY, JSON.stringify(index));
+}
+
+function sessionsFolder() {
+  return knownFolders.documents().getFolder(SESSIONS_FOLDER);
+}
+
+function sessionFile(id: string) {
+  return sessionsFolder().getFile(`${id}.json`);
+}
+
+// NativeScript session history
+export class NativeSessionRepository implements SessionRepository {
+  async save(record: SessionRecord): Promise<void> {
+    await sessionFile(record.id).writeText(JSON.stringify(record));
+
+    const index = readIndex().filter(summary => summary.id !== record.id);
+    index.push(summarizeSession(record));
+    writeIndex(index);
+  }
+
+  async get(id: string): Promise<SessionRecord | null> {
+    if (!sessionsFolder().contains(`${id}.json`)) {
+      return null;
+    }
+
+    try {
+      return JSON.parse(await sessionFile(id).readText());
+    } catch (error) {
+      console.error(`Failed to read session ${id}:`, error);
+      return null;
+    }
+  }
+
+  async list(): Promise<SessionSummary[]> {
+    return readIndex().sort((a, b) => b.startedAt - a.startedAt);
+  }
+
+  async delete(id: string): Promise<void> {
+    if (sessionsFolder().contains(`${id}.json`)) {
+      await sessionFile(id).remove();
+    }
+    writeIndex(readIndex().filter(summary => summary.id !== id));
+  }
+}
+
+export const nativeSessionRepository = new NativeSessionRepository();
@@ -0,0 +1,19 @@
+import { ApplicationSettings } from '@nativescript/core';
+import { DailyUsageStore, EMPTY_USAGE } from '../services/usageMeter';
+
+const USAGE_KEY = 'usageToday';
+
+// Only the current day is kept, like on the web
+export const nativeUsageStore: DailyUsageStore = {
+  load(day) {
+    try {
+      const stored = JSON.parse(ApplicationSettings.getString(USAGE_KEY, 'null'));
+      return stored?.day === day ? { ...EMPTY_USAGE, ...stored.totals } : EMPTY_USAGE;
+    } catch {
+      return EMPTY_USAGE;
+    }
+  },
+  save(day, totals) {
+    ApplicationSettings.setString(USAGE_KEY, JSON.stringify({ day, totals }));
+  },
+};
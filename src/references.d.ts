@@ -0,0 +1 @@
+/// <reference path="../node_modules/@nativescript/types/index.d.ts" />
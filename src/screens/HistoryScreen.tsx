@@ -0,0 +1,185 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  StackLayout,
+  Button,
+  Label,
+  ScrollView,
+  FlexboxLayout,
+  Dialogs,
+  knownFolders
+} from '@nativescript/core';
+import { StyleSheet } from 'react-nativescript';
+import { SessionRecord, SessionRepository, SessionSummary } from '../services/sessionRepository';
+import { EXPORT_FORMATS, ExportFormat, exportFileName, exportTranscript } from '../services/transcriptExport';
+import { SessionReportSection } from './SessionReportSection';
+
+interface HistoryScreenProps {
+  repository: SessionRepository;
+  onClose: () => void;
+}
+
+const EXPORTS_FOLDER = 'exports';
+
+function formatDuration(summary: Pick<SessionSummary, 'startedAt' | 'endedAt'>): string {
+  if (!summary.endedAt) return 'In progress';
+  const minutes = Math.max(1, Math.round((summary.endedAt - summary.startedAt) / 60_000));
+  return `${minutes} min`;
+}
+
+// Write the transcript next to the app's documents so it can be shared from the Files app
+async function saveTranscript(record: SessionRecord, format: ExportFormat) {
+  const file = knownFolders.documents().getFolder(EXPORTS_FOLDER).getFile(exportFileName(record, format));
+  await file.writeText(exportTranscript(record, format));
+  await Dialogs.alert({
+    title: 'Transcript saved',
+    message: file.path,
+    okButtonText: 'OK'
+  });
+}
+
+export function HistoryScreen({ repository, onClose }: HistoryScreenProps) {
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [selected, setSelected] = useState<SessionRecord | null>(null);
+
+  const loadSessions = useCallback(async () => {
+    setSessions(await repository.list());
+  }, [repository]);
+
+  useEffect(() => {
+    loadSessions();
+  }, [loadSessions]);
+
+  const deleteSession = async (id: string) => {
+    await repository.delete(id);
+    setSelected(null);
+    await loadSessions();
+  };
+
+  if (selected) {
+    return (
+      <ScrollView style={styles.container}>
+        <StackLayout>
+          <Button text="‹ Back" onTap={() => setSelected(null)} style={styles.linkButton} />
+          <Label style={styles.title} text={new Date(selected.startedAt).toLocaleString()} textWrap={true} />
+
+          <FlexboxLayout style={styles.exportRow}>
+            {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(format => (
+              <Button
+                key={format}
+                text={EXPORT_FORMATS[format].label}
+                onTap={() => saveTranscript(selected, format)}
+                style={styles.exportButton}
+              />
+            ))}
+          </FlexboxLayout>
+
+          {selected.report && <SessionReportSection report={selected.report} />}
+
+          {selected.turns.filter(turn => turn.text).map(turn => (
+            <Label
+              key={turn.id}
+              text={`${turn.role === 'user' ? 'You' : 'Tutor'}: ${turn.text}`}
+              style={[styles.turn, turn.role === 'user' ? styles.userTurn : styles.tutorTurn]}
+              textWrap={true}
+            />
+          ))}
+
+          <Button text="Delete session" onTap={() => deleteSession(selected.id)} style={styles.deleteButton} />
+        </StackLayout>
+      </ScrollView>
+    );
+  }
+
+  return (
+    <ScrollView style={styles.container}>
+      <StackLayout>
+        <Button text="‹ Back" onTap={onClose} style={styles.linkButton} />
+        <Label style={styles.title} text="Past sessions" />
+        {sessions.length === 0 && (
+          <Label style={styles.empty} text="Your practice sessions will appear here." textWrap={true} />
+        )}
+        {sessions.map(session => (
+          <StackLayout
+            key={session.id}
+            style={styles.sessionRow}
+            onTap={async () => setSelected(await repository.get(session.id))}
+          >
+            <Label style={styles.sessionDate} text={`${new Date(session.startedAt).toLocaleString()} · ${formatDuration(session)}`} />
+            <Label style={styles.sessionPreview} text={session.preview || 'No transcript'} />
+            <Label style={styles.sessionMeta} text={`${session.turnCount} turns`} />
+          </StackLayout>
+        ))}
+      </StackLayout>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#1a1a1a',
+    padding: 16
+  },
+  title: {
+    color: 'white',
+    fontSize: 22,
+    fontWeight: 'bold',
+    marginVertical: 8
+  },
+  empty: {
+    color: 'rgba(255, 255, 255, 0.6)',
+    fontSize: 14
+  },
+  linkButton: {
+    color: 'rgba(255, 255, 255, 0.7)',
+    backgroundColor: 'transparent',
+    horizontalAlignment: 'left'
+  },
+  sessionRow: {
+    padding: 12,
+    marginVertical: 4,
+    borderRadius: 12,
+    backgroundColor: 'rgba(255, 255, 255, 0.05)'
+  },
+  sessionDate: {
+    color: 'white',
+    fontSize: 14,
+    fontWeight: 'bold'
+  },
+  sessionPreview: {
+    color: 'rgba(255, 255, 255, 0.6)',
+    fontSize: 14
+  },
+  sessionMeta: {
+    color: 'rgba(255, 255, 255, 0.4)',
+    fontSize: 12
+  },
+  exportRow: {
+    flexWrap: 'wrap',
+    marginVertical: 8
+  },
+  exportButton: {
+    color: 'white',
+    fontSize: 12,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    borderRadius: 16,
+    margin: 4
+  },
+  turn: {
+    color: 'white',
+    fontSize: 14,
+    padding: 8,
+    marginVertical: 2,
+    borderRadius: 12
+  },
+  userTurn: {
+    backgroundColor: '#4f46e5'
+  },
+  tutorTurn: {
+    backgroundColor: 'rgba(255, 255, 255, 0.1)'
+  },
+  deleteButton: {
+    color: '#f87171',
+    backgroundColor: 'transparent',
+    marginTop: 16
+  }
+});
@@ -1,58 +1,109 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useState, useMemo } from 'react';
 import { useAudioChat } from '../hooks/useAudioChat';
+import { describeConnection } from '../services/connectionStateMachine';
+import { DEFAULT_SERVER_VAD, PUSH_TO_TALK, ServerVadSettings } from '../services/turnDetection';
+import { describeMicrophonePermission } from '../services/microphonePermission';
+import { formatCost, formatTalkTime } from '../services/usageMeter';
 import { 
   StackLayout, 
   Button, 
   Label, 
   FlexboxLayout,
   ScrollView,
-  Page
+  Page,
+  Slider,
+  TextField,
+  TouchGestureEventData,
+  isIOS
 } from '@nativescript/core';
 import { StyleSheet } from 'react-nativescript';
+import { SettingsScreen } from './SettingsScreen';
+import { HistoryScreen } from './HistoryScreen';
+import { ScenarioScreen } from './ScenarioScreen';
+import { ProgressScreen } from './ProgressScreen';
+import { SessionReportSection } from './SessionReportSection';
+import { useScenarioLibrary } from '../hooks/useScenarioLibrary';
+import { useLearner } from '../hooks/useLearner';
+import { nativeLearnerProfileStore } from '../native/nativeLearnerProfileStore';
+import { nativeProgressStore } from '../native/nativeProgressStore';
+import { nativeScenarioStore } from '../native/nativeScenarioStore';
+import { nativeSessionRepository } from '../native/nativeSessionRepository';
+import { nativeAudioService } from '../native/nativeAudioService';
 
 export function MainScreen() {
+  const learner = useLearner({
+    service: nativeAudioService,
+    profileStore: nativeLearnerProfileStore,
+    progressStore: nativeProgressStore,
+  });
   const {
-    isConnected,
     isListening,
     error,
+    connectionPhase,
+    reconnectAttempt,
+    lastFailureReason,
+    turns,
+    turnDetection,
+    isTalking,
+    micMuted,
+    outputMuted,
+    volume,
     disconnect,
+    endSession,
+    isEndingSession,
+    report,
+    dismissReport,
     startListening,
     stopListening,
+    sendText,
+    scenario,
+    startScenario,
+    finishScenario,
+    leaveScenario,
+    setTurnDetection,
+    startTalking,
+    stopTalking,
+    setMicMuted,
+    setOutputMuted,
+    setVolume,
+    tutorProfile,
+    setTutorProfile,
+    micPermission,
+    usage,
     checkPermissions,
-  } = useAudioChat();
+    requestPermission,
+  } = useAudioChat({
+    service: nativeAudioService,
+    sessionRepository: nativeSessionRepository,
+    onSessionEnded: learner.recordSession,
+  });
   
-  const [isMuted, setIsMuted] = useState(false);
-  const [showPermissionRequest, setShowPermissionRequest] = useState(true);
-  const [permissionGranted, setPermissionGranted] = useState(false);
-  const [messages, setMessages] = useState<Array<{ text: string; sender: 'user' | 'ai' }>>([]);
+  // Remember VAD tuning while push-to-talk is active
+  const [vadSettings, setVadSettings] = useState<ServerVadSettings>(DEFAULT_SERVER_VAD);
+  const isPushToTalk = turnDetection.mode === 'push-to-talk';
+  const [showSettings, setShowSettings] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showScenarios, setShowScenarios] = useState(false);
+  const [showProgress, setShowProgress] = useState(false);
+  const scenarioLibrary = useScenarioLibrary(nativeScenarioStore);
+  const permissionGranted = micPermission === 'granted';
+  // Chosen on the permission screen: carry on by typing, without a mic
+  const [textOnly, setTextOnly] = useState(false);
+  const [draftText, setDraftText] = useState('');
+  // Local notices (errors, permission hints) shown alongside the conversation turns
+  const [messages, setMessages] = useState<Array<{ text: string; sender: 'user' | 'ai'; createdAt: number }>>([]);
 
   useEffect(() => {
-    const checkInitialPermission = async () => {
-      try {
-        const hasPermission = await checkPermissions();
-        setPermissionGranted(hasPermission);
-        setShowPermissionRequest(!hasPermission);
-      } catch (error) {
-        setShowPermissionRequest(true);
-        setPermissionGranted(false);
-      }
-    };
-
-    checkInitialPermission();
+    checkPermissions();
     return () => disconnect();
   }, [checkPermissions, disconnect]);
 
+  // Once the system prompt has been refused for good, only the Settings app can change it
   const handlePermissionRequest = async () => {
-    try {
-      const hasPermission = await checkPermissions();
-      setPermissionGranted(hasPermission);
-      setShowPermissionRequest(!hasPermission);
-    } catch (error) {
-      setMessages(prev => [...prev, { 
-        text: 'Microphone access denied. Please enable it in your device settings.', 
-        sender: 'ai' 
-      }]);
-      setPermissionGranted(false);
+    if (micPermission === 'prompt') {
+      await requestPermission();
+    } else {
+      await checkPermissions();
     }
   };
 
@@ -64,78 +115,317 @@ export function MainScreen() {
     }
   };
 
-  const toggleMute = () => {
-    setIsMuted(!isMuted);
+  const updateVadSettings = (changes: Partial<ServerVadSettings>) => {
+    const next = { ...vadSettings, ...changes };
+    setVadSettings(next);
+    setTurnDetection(next);
+  };
+
+  const handleTalkTouch = (args: TouchGestureEventData) => {
+    if (args.action === 'down') {
+      startTalking();
+    } else if (args.action === 'up' || args.action === 'cancel') {
+      stopTalking();
+    }
+  };
+
+  const toggleOutputMute = () => {
+    setOutputMuted(!outputMuted);
+  };
+
+  const toggleMicMute = () => {
+    setMicMuted(!micMuted);
   };
 
   useEffect(() => {
     if (error) {
-      setMessages(prev => [...prev, { text: `Error: ${error}`, sender: 'ai' }]);
+      setMessages(prev => [...prev, { text: `Error: ${error}`, sender: 'ai', createdAt: Date.now() }]);
     }
   }, [error]);
 
-  if (showPermissionRequest) {
+  const chatItems = useMemo(() => [
+    ...turns.map(turn => ({
+      key: turn.id,
+      text: turn.text || (turn.status === 'failed' ? '(transcription unavailable)' : '…'),
+      sender: turn.role === 'user' ? 'user' as const : 'ai' as const,
+      pending: turn.status === 'in-progress',
+      interrupted: turn.interrupted,
+      createdAt: turn.startedAt,
+      corrections: turn.corrections,
+      vocabulary: turn.vocabulary,
+    })),
+    ...messages.map((message, index) => ({
+      ...message,
+      key: `notice-${index}`,
+      pending: false,
+      interrupted: false,
+      corrections: [],
+      vocabulary: [],
+    })),
+  ].sort((a, b) => a.createdAt - b.createdAt), [turns, messages]);
+
+  const handleSendText = () => {
+    if (!draftText.trim()) return;
+    sendText(draftText);
+    setDraftText('');
+  };
+
+  if (!permissionGranted && !textOnly) {
+    const guidance = describeMicrophonePermission(micPermission ?? 'prompt', isIOS ? 'ios' : 'android');
     return (
       <Page>
         <FlexboxLayout style={styles.container}>
-          <Label style={styles.title} text="Microphone Access Required" />
+          <Label style={styles.title} text={guidance.title} />
           <Label 
             style={styles.description} 
-            text="To use the AI Language Tutor, we need access to your microphone. This allows you to have voice conversations with your AI tutor."
+            text={guidance.description}
             textWrap={true}
           />
-          <Button 
-            text="Allow Microphone Access" 
-            onTap={handlePermissionRequest}
-            style={styles.primaryButton}
+          {guidance.actionLabel && (
+            <Button 
+              text={guidance.actionLabel} 
+              onTap={handlePermissionRequest}
+              style={styles.primaryButton}
+            />
+          )}
+          <Button
+            text="Continue with text only"
+            onTap={() => setTextOnly(true)}
+            style={styles.linkButton}
           />
         </FlexboxLayout>
       </Page>
     );
   }
 
+  if (showHistory) {
+    return (
+      <Page>
+        <HistoryScreen repository={nativeSessionRepository} onClose={() => setShowHistory(false)} />
+      </Page>
+    );
+  }
+
+  if (showProgress) {
+    return (
+      <Page>
+        <ProgressScreen
+          profile={learner.profile}
+          progress={learner.progress}
+          onSaveProfile={learner.updateProfile}
+          onClose={() => setShowProgress(false)}
+        />
+      </Page>
+    );
+  }
+
+  if (report) {
+    return (
+      <Page>
+        <ScrollView style={styles.container}>
+          <StackLayout>
+            <Button text="‹ Back" onTap={dismissReport} style={styles.backButton} />
+            <Label style={styles.title} text="Session report" />
+            <SessionReportSection report={report} />
+          </StackLayout>
+        </ScrollView>
+      </Page>
+    );
+  }
+
+  if (showScenarios) {
+    return (
+      <Page>
+        <ScenarioScreen
+          scenarios={scenarioLibrary.scenarios}
+          importedIds={scenarioLibrary.importedIds}
+          onStart={selected => {
+            setShowScenarios(false);
+            void startScenario(selected, { textOnly: !permissionGranted });
+          }}
+          onImport={scenarioLibrary.importScenarios}
+          onRemove={scenarioLibrary.removeScenario}
+          onClose={() => setShowScenarios(false)}
+        />
+      </Page>
+    );
+  }
+
+  if (showSettings) {
+    return (
+      <Page>
+        <SettingsScreen
+          profile={tutorProfile}
+          isInCall={connectionPhase === 'connected'}
+          onSave={setTutorProfile}
+          onClose={() => setShowSettings(false)}
+        />
+      </Page>
+    );
+  }
+
   return (
     <Page>
       <StackLayout style={styles.container}>
         {/* Header */}
         <FlexboxLayout style={styles.header}>
           <Label 
-            style={[styles.statusDot, isConnected && styles.statusDotActive]} 
+            style={[
+              styles.statusDot,
+              connectionPhase === 'connected' && styles.statusDotActive,
+              (connectionPhase === 'acquiring-mic' || connectionPhase === 'negotiating') && styles.statusDotPending,
+              connectionPhase === 'reconnecting' && styles.statusDotReconnecting,
+              connectionPhase === 'failed' && styles.statusDotFailed
+            ]} 
           />
           <Label 
             style={styles.statusText} 
-            text={isConnected ? 'Connected' : 'Ready to connect'}
+            text={describeConnection({
+              phase: connectionPhase,
+              attempt: reconnectAttempt,
+              lastFailureReason
+            })}
+            textWrap={true}
           />
           <Label style={styles.title} text="AI Language Tutor" />
+          <Button text="🕘" onTap={() => setShowHistory(true)} style={styles.settingsButton} />
+          <Button text="📈" onTap={() => setShowProgress(true)} style={styles.settingsButton} />
+          <Button text="🎭" onTap={() => setShowScenarios(true)} style={styles.settingsButton} />
+          <Button text="⚙️" onTap={() => setShowSettings(true)} style={styles.settingsButton} />
         </FlexboxLayout>
+        <Label
+          style={styles.usageText}
+          text={`${connectionPhase === 'connected'
+            ? `This session ${formatTalkTime(usage.session.talkTimeMs)} · ${formatCost(usage.session.costUsd)} · `
+            : ''}Today ${formatTalkTime(usage.today.talkTimeMs)} · ${formatCost(usage.today.costUsd)}`}
+        />
+        {usage.budget.level !== 'ok' && (
+          <Label
+            style={[styles.usageText, usage.budget.level === 'exceeded' ? styles.budgetExceeded : styles.budgetWarning]}
+            text={usage.budget.reason}
+            textWrap={true}
+          />
+        )}
+
+        {/* Role-play goals */}
+        {scenario && (
+          <StackLayout style={styles.scenarioPanel}>
+            <FlexboxLayout style={styles.scenarioHeader}>
+              <Label style={styles.scenarioTitle} text={scenario.scenario.title} />
+              {!scenario.result && <Button text="Finish" onTap={finishScenario} style={styles.scenarioButton} />}
+              <Button text="✕" onTap={leaveScenario} style={styles.scenarioButton} />
+            </FlexboxLayout>
+            {scenario.scenario.goals.map(goal => (
+              <Label
+                key={goal.id}
+                style={scenario.completedGoals[goal.id] !== undefined ? styles.goalDone : styles.goal}
+                text={`${scenario.completedGoals[goal.id] !== undefined ? '✅' : '⬜️'} ${goal.description}`}
+                textWrap={true}
+              />
+            ))}
+            {scenario.result && (
+              <StackLayout style={[styles.feedbackCard, scenario.result.passed ? styles.vocabularyCard : styles.correctionCard]}>
+                <Label
+                  style={styles.feedbackHeading}
+                  text={scenario.result.passed ? '🏁 Scenario passed' : '🏁 Not passed yet'}
+                />
+                <Label style={styles.feedbackDetail} text={scenario.result.summary} textWrap={true} />
+              </StackLayout>
+            )}
+          </StackLayout>
+        )}
 
         {/* Messages */}
         <ScrollView style={styles.messagesContainer}>
           <StackLayout>
-            {messages.map((message, index) => (
-              <FlexboxLayout 
-                key={index}
-                style={[
-                  styles.messageWrapper,
-                  message.sender === 'user' ? styles.userMessage : styles.aiMessage
-                ]}
-              >
-                <Label 
-                  text={message.text}
-                  style={styles.messageText}
-                  textWrap={true}
-                />
-              </FlexboxLayout>
+            {chatItems.map((message) => (
+              <StackLayout key={message.key}>
+                <FlexboxLayout 
+                  style={[
+                    styles.messageWrapper,
+                    message.sender === 'user' ? styles.userMessage : styles.aiMessage,
+                    message.pending && styles.pendingMessage
+                  ]}
+                >
+                  <Label 
+                    text={message.interrupted ? `${message.text} (interrupted)` : message.text}
+                    style={styles.messageText}
+                    textWrap={true}
+                  />
+                </FlexboxLayout>
+                {message.corrections.map((correction, index) => (
+                  <StackLayout
+                    key={`correction-${index}`}
+                    style={[styles.feedbackCard, styles.correctionCard, message.sender === 'user' ? styles.userMessage : styles.aiMessage]}
+                  >
+                    <Label style={styles.feedbackHeading} text={`✏️ ${correction.category}`} />
+                    <Label style={styles.feedbackStruck} text={correction.original} textWrap={true} />
+                    <Label style={styles.feedbackMain} text={correction.corrected} textWrap={true} />
+                    <Label style={styles.feedbackDetail} text={correction.explanation} textWrap={true} />
+                  </StackLayout>
+                ))}
+                {message.vocabulary.map((item, index) => (
+                  <StackLayout
+                    key={`word-${index}`}
+                    style={[styles.feedbackCard, styles.vocabularyCard, message.sender === 'user' ? styles.userMessage : styles.aiMessage]}
+                  >
+                    <Label style={styles.feedbackHeading} text="📘 New word" />
+                    <Label style={styles.feedbackMain} text={item.word} textWrap={true} />
+                    <Label style={styles.feedbackDetail} text={item.definition} textWrap={true} />
+                    <Label style={styles.feedbackDetail} text={`“${item.example}”`} textWrap={true} />
+                  </StackLayout>
+                ))}
+              </StackLayout>
             ))}
           </StackLayout>
         </ScrollView>
 
+        {/* Typed turns */}
+        <FlexboxLayout style={styles.composer}>
+          <TextField
+            text={draftText}
+            hint={permissionGranted ? 'Type instead of speaking…' : 'Type your message…'}
+            returnKeyType="send"
+            onTextChange={(args: { value: string }) => setDraftText(args.value)}
+            onReturnPress={handleSendText}
+            style={styles.composerInput}
+          />
+          <Button text="Send" onTap={handleSendText} style={styles.sendButton} />
+        </FlexboxLayout>
+
+        {/* Turn detection */}
+        <StackLayout style={styles.turnPanel}>
+          <Button
+            text={isPushToTalk ? 'Mode: Push to talk' : 'Mode: Hands-free'}
+            onTap={() => setTurnDetection(isPushToTalk ? vadSettings : PUSH_TO_TALK)}
+            style={styles.modeButton}
+          />
+          {!isPushToTalk && (
+            <StackLayout>
+              <Label style={styles.sliderLabel} text={`Speech threshold (${vadSettings.threshold.toFixed(2)})`} />
+              <Slider
+                minValue={0.1}
+                maxValue={0.9}
+                value={vadSettings.threshold}
+                onValueChange={(args: { value: number }) => updateVadSettings({ threshold: args.value })}
+              />
+              <Label style={styles.sliderLabel} text={`Pause before reply (${vadSettings.silenceDurationMs} ms)`} />
+              <Slider
+                minValue={200}
+                maxValue={2000}
+                value={vadSettings.silenceDurationMs}
+                onValueChange={(args: { value: number }) => updateVadSettings({ silenceDurationMs: Math.round(args.value / 100) * 100 })}
+              />
+            </StackLayout>
+          )}
+        </StackLayout>
+
         {/* Controls */}
         <FlexboxLayout style={styles.controls}>
           <Button 
-            text={isMuted ? "🔇" : "🔊"}
-            onTap={toggleMute}
-            style={[styles.controlButton, isMuted && styles.mutedButton]}
+            text={outputMuted ? "🔇" : "🔊"}
+            onTap={toggleOutputMute}
+            style={[styles.controlButton, outputMuted && styles.mutedButton]}
             isEnabled={permissionGranted}
           />
           <Button 
@@ -144,13 +434,43 @@ export function MainScreen() {
             style={[styles.mainButton, isListening && styles.activeButton]}
             isEnabled={permissionGranted}
           />
-          <Button 
-            text={isListening ? "🎤❌" : "🎤"}
-            onTap={toggleMicrophone}
-            style={[styles.controlButton, isListening && styles.activeButton]}
-            isEnabled={permissionGranted}
-          />
+          {isPushToTalk ? (
+            <Button 
+              text="🎤"
+              onTouch={handleTalkTouch}
+              style={[styles.controlButton, isTalking && styles.talkingButton]}
+              isEnabled={permissionGranted && isListening}
+            />
+          ) : (
+            <Button 
+              text={micMuted ? "🎤❌" : "🎤"}
+              onTap={toggleMicMute}
+              style={[styles.controlButton, micMuted && styles.mutedButton]}
+              isEnabled={permissionGranted}
+            />
+          )}
         </FlexboxLayout>
+
+        {(connectionPhase === 'connected' || isEndingSession) && (
+          <Button
+            text={isEndingSession ? 'Preparing your report…' : 'End session and see report'}
+            onTap={() => void endSession()}
+            isEnabled={!isEndingSession}
+            style={styles.linkButton}
+          />
+        )}
+
+        {/* Tutor volume */}
+        <StackLayout style={styles.turnPanel}>
+          <Label style={styles.sliderLabel} text={`Tutor volume (${Math.round(volume * 100)}%)`} />
+          <Slider
+            minValue={0}
+            maxValue={1}
+            value={volume}
+            isEnabled={!outputMuted}
+            onValueChange={(args: { value: number }) => setVolume(args.value)}
+          />
+        </StackLayout>
       </StackLayout>
     </Page>
   );
@@ -179,10 +499,63 @@ const styles = StyleSheet.create({
   statusDotActive: {
     backgroundColor: '#22c55e'
   },
+  statusDotPending: {
+    backgroundColor: '#facc15'
+  },
+  statusDotReconnecting: {
+    backgroundColor: '#f97316'
+  },
+  statusDotFailed: {
+    backgroundColor: '#ef4444'
+  },
+  settingsButton: {
+    backgroundColor: 'transparent',
+    fontSize: 18,
+    marginLeft: 8
+  },
   statusText: {
     color: 'rgba(255, 255, 255, 0.8)',
     fontSize: 14
   },
+  scenarioPanel: {
+    padding: 8,
+    borderRadius: 12,
+    backgroundColor: 'rgba(255, 255, 255, 0.05)'
+  },
+  scenarioHeader: {
+    alignItems: 'center'
+  },
+  scenarioTitle: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: 'bold',
+    flexGrow: 1
+  },
+  scenarioButton: {
+    color: 'rgba(255, 255, 255, 0.8)',
+    backgroundColor: 'transparent',
+    fontSize: 12
+  },
+  goal: {
+    color: 'rgba(255, 255, 255, 0.9)',
+    fontSize: 14
+  },
+  goalDone: {
+    color: 'rgba(255, 255, 255, 0.5)',
+    fontSize: 14,
+    textDecoration: 'line-through'
+  },
+  usageText: {
+    color: 'rgba(255, 255, 255, 0.5)',
+    fontSize: 12,
+    textAlign: 'center'
+  },
+  budgetWarning: {
+    color: '#fcd34d'
+  },
+  budgetExceeded: {
+    color: '#fca5a5'
+  },
   title: {
     color: 'white',
     fontSize: 24,
@@ -213,6 +586,42 @@ const styles = StyleSheet.create({
     alignSelf: 'flex-start',
     backgroundColor: 'rgba(255, 255, 255, 0.1)'
   },
+  feedbackCard: {
+    maxWidth: '80%',
+    marginVertical: 2,
+    padding: 8,
+    borderRadius: 12,
+    borderWidth: 1
+  },
+  correctionCard: {
+    backgroundColor: 'rgba(245, 158, 11, 0.1)',
+    borderColor: 'rgba(251, 191, 36, 0.3)'
+  },
+  vocabularyCard: {
+    backgroundColor: 'rgba(16, 185, 129, 0.1)',
+    borderColor: 'rgba(52, 211, 153, 0.3)'
+  },
+  feedbackHeading: {
+    color: '#fcd34d',
+    fontSize: 11
+  },
+  feedbackStruck: {
+    color: 'rgba(255, 255, 255, 0.6)',
+    fontSize: 14,
+    textDecoration: 'line-through'
+  },
+  feedbackMain: {
+    color: 'white',
+    fontSize: 14,
+    fontWeight: 'bold'
+  },
+  feedbackDetail: {
+    color: 'rgba(255, 255, 255, 0.7)',
+    fontSize: 12
+  },
+  pendingMessage: {
+    opacity: 0.7
+  },
   messageText: {
     color: 'white',
     fontSize: 16
@@ -241,6 +650,24 @@ const styles = StyleSheet.create({
   activeButton: {
     backgroundColor: '#ef4444'
   },
+  talkingButton: {
+    backgroundColor: '#22c55e'
+  },
+  turnPanel: {
+    padding: 8,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)'
+  },
+  modeButton: {
+    color: 'white',
+    fontSize: 14,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    borderRadius: 16
+  },
+  sliderLabel: {
+    color: 'rgba(255, 255, 255, 0.7)',
+    fontSize: 12,
+    marginTop: 4
+  },
   mutedButton: {
     backgroundColor: 'rgba(239, 68, 68, 0.2)'
   },
@@ -251,5 +678,35 @@ const styles = StyleSheet.create({
     borderRadius: 24,
     fontSize: 16,
     fontWeight: 'bold'
+  },
+  backButton: {
+    color: 'rgba(255, 255, 255, 0.7)',
+    backgroundColor: 'transparent',
+    horizontalAlignment: 'left'
+  },
+  linkButton: {
+    backgroundColor: 'transparent',
+    color: 'rgba(255, 255, 255, 0.7)',
+    fontSize: 14,
+    marginTop: 12
+  },
+  composer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 8
+  },
+  composerInput: {
+    flexGrow: 1,
+    color: 'white',
+    fontSize: 16,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    padding: 8,
+    borderRadius: 16
+  },
+  sendButton: {
+    backgroundColor: '#4f46e5',
+    color: 'white',
+    borderRadius: 16,
+    marginLeft: 8
   }
 });
\ No newline at end of file
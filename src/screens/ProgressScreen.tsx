@@ -0,0 +1,193 @@
+import React, { useState } from 'react';
+import {
+  StackLayout,
+  Button,
+  Label,
+  ListPicker,
+  ScrollView,
+  TextField,
+  TextView
+} from '@nativescript/core';
+import { StyleSheet } from 'react-nativescript';
+import { LearnerProfile } from '../services/learnerProfile';
+import { ProgressSummary, TrendDirection } from '../services/learnerProgress';
+import { formatMinutes } from '../services/sessionReport';
+import { CEFR_LEVELS, CefrLevel } from '../services/tutorProfile';
+
+interface ProgressScreenProps {
+  profile: LearnerProfile;
+  progress: ProgressSummary;
+  onSaveProfile: (profile: LearnerProfile) => void;
+  onClose: () => void;
+}
+
+// "Not sure" first, then the CEFR levels
+const LEVEL_CHOICES: Array<CefrLevel | null> = [null, ...(Object.keys(CEFR_LEVELS) as CefrLevel[])];
+
+// Fewer mistakes is the good direction
+const TREND_LABELS: Record<TrendDirection, string> = {
+  down: '↓ improving',
+  up: '↑ more often lately',
+  steady: '→ steady',
+};
+
+export function ProgressScreen({ profile, progress, onSaveProfile, onClose }: ProgressScreenProps) {
+  const [draft, setDraft] = useState(() => ({ ...profile, goals: profile.goals.join('\n') }));
+
+  const handleSave = () => {
+    onSaveProfile({
+      name: draft.name.trim(),
+      nativeLanguage: draft.nativeLanguage.trim(),
+      goals: draft.goals.split('\n').map(goal => goal.trim()).filter(Boolean),
+      estimatedLevel: draft.estimatedLevel,
+    });
+    onClose();
+  };
+
+  const stats = [
+    `Daily streak: ${progress.streakDays === 1 ? '1 day' : `${progress.streakDays} days`}`,
+    `Practised this week: ${formatMinutes(progress.practiceMsThisWeek)}`,
+    `Sessions this week: ${progress.sessionsThisWeek}`,
+    `Sessions per week: ${Math.round(progress.sessionsPerWeek * 10) / 10}`,
+    `Total practice: ${formatMinutes(progress.totalPracticeMs)}`,
+    `Total sessions: ${progress.totalSessions}`,
+  ];
+
+  return (
+    <ScrollView style={styles.container}>
+      <StackLayout>
+        <Button text="‹ Back" onTap={onClose} style={styles.linkButton} />
+        <Label style={styles.title} text="Your progress" />
+        {stats.map(stat => <Label key={stat} style={styles.stat} text={stat} />)}
+
+        <Label style={styles.sectionTitle} text="Mistakes over the last two weeks" />
+        {progress.errorTrends.length === 0 && (
+          <Label style={styles.muted} text="Corrections from your sessions will show up here." textWrap={true} />
+        )}
+        {progress.errorTrends.map(trend => (
+          <Label
+            key={trend.category}
+            style={[styles.trend, trend.direction === 'down' && styles.trendImproving]}
+            text={`${trend.category}: ${Math.round(trend.recentPerSession * 10) / 10} per session, ${TREND_LABELS[trend.direction]}`}
+            textWrap={true}
+          />
+        ))}
+
+        <Label style={styles.sectionTitle} text="About you" />
+        <Label style={styles.muted} text="The tutor uses this to make conversations more personal." textWrap={true} />
+
+        <Label style={styles.label} text="Name" />
+        <TextField
+          text={draft.name}
+          hint="What should the tutor call you?"
+          onTextChange={(args: { value: string }) => setDraft(prev => ({ ...prev, name: args.value }))}
+          style={styles.input}
+        />
+
+        <Label style={styles.label} text="Native language" />
+        <TextField
+          text={draft.nativeLanguage}
+          hint="e.g. Kazakh"
+          onTextChange={(args: { value: string }) => setDraft(prev => ({ ...prev, nativeLanguage: args.value }))}
+          style={styles.input}
+        />
+
+        <Label style={styles.label} text="Goals, one per line" />
+        <TextView
+          text={draft.goals}
+          hint="e.g. Pass a job interview"
+          onTextChange={(args: { value: string }) => setDraft(prev => ({ ...prev, goals: args.value }))}
+          style={styles.goalsInput}
+        />
+
+        <Label style={styles.label} text="Estimated level (updated by the tutor after each session)" textWrap={true} />
+        <ListPicker
+          items={LEVEL_CHOICES.map(level => (level ? `${level} · ${CEFR_LEVELS[level]}` : 'Not sure'))}
+          selectedIndex={LEVEL_CHOICES.indexOf(draft.estimatedLevel)}
+          onSelectedIndexChange={(args: { value: number }) => setDraft(prev => ({ ...prev, estimatedLevel: LEVEL_CHOICES[args.value] }))}
+          style={styles.picker}
+        />
+
+        <Button text="Save" onTap={handleSave} style={styles.primaryButton} />
+      </StackLayout>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#1a1a1a',
+    padding: 16
+  },
+  title: {
+    color: 'white',
+    fontSize: 22,
+    fontWeight: 'bold',
+    marginVertical: 8
+  },
+  sectionTitle: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: 'bold',
+    marginTop: 16,
+    marginBottom: 4
+  },
+  stat: {
+    color: 'white',
+    fontSize: 14,
+    marginVertical: 2
+  },
+  trend: {
+    color: 'rgba(255, 255, 255, 0.8)',
+    fontSize: 14,
+    padding: 8,
+    marginVertical: 2,
+    borderRadius: 12,
+    backgroundColor: 'rgba(255, 255, 255, 0.05)'
+  },
+  trendImproving: {
+    color: '#86efac'
+  },
+  muted: {
+    color: 'rgba(255, 255, 255, 0.6)',
+    fontSize: 14
+  },
+  label: {
+    color: 'rgba(255, 255, 255, 0.7)',
+    fontSize: 14,
+    marginTop: 12
+  },
+  input: {
+    color: 'white',
+    fontSize: 16,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    padding: 8,
+    borderRadius: 8
+  },
+  goalsInput: {
+    color: 'white',
+    fontSize: 16,
+    height: 96,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    padding: 8,
+    borderRadius: 8
+  },
+  picker: {
+    height: 120,
+    color: 'white'
+  },
+  linkButton: {
+    color: 'rgba(255, 255, 255, 0.7)',
+    backgroundColor: 'transparent',
+    horizontalAlignment: 'left'
+  },
+  primaryButton: {
+    backgroundColor: '#4f46e5',
+    color: 'white',
+    padding: 12,
+    borderRadius: 24,
+    fontSize: 16,
+    fontWeight: 'bold',
+    marginTop: 16
+  }
+});
@@ -0,0 +1,152 @@
+import React, { useState } from 'react';
+import {
+  StackLayout,
+  Button,
+  Label,
+  ScrollView,
+  FlexboxLayout,
+  TextView
+} from '@nativescript/core';
+import { StyleSheet } from 'react-nativescript';
+import { Scenario } from '../services/scenarios';
+
+interface ScenarioScreenProps {
+  scenarios: Scenario[];
+  // Teacher imports can be removed again; built-ins can't
+  importedIds: Set<string>;
+  onStart: (scenario: Scenario) => void;
+  onImport: (json: string) => number;
+  onRemove: (id: string) => void;
+  onClose: () => void;
+}
+
+export function ScenarioScreen({ scenarios, importedIds, onStart, onImport, onRemove, onClose }: ScenarioScreenProps) {
+  // Teachers paste a scenario library; there is no file picker on the native side
+  const [draftJson, setDraftJson] = useState('');
+  const [notice, setNotice] = useState<{ text: string; isError: boolean } | null>(null);
+
+  const handleImport = () => {
+    try {
+      const count = onImport(draftJson);
+      setDraftJson('');
+      setNotice({ text: `Imported ${count} scenario${count === 1 ? '' : 's'}.`, isError: false });
+    } catch (error) {
+      setNotice({ text: error instanceof Error ? error.message : 'Failed to import scenarios', isError: true });
+    }
+  };
+
+  return (
+    <ScrollView style={styles.container}>
+      <StackLayout>
+        <Button text="‹ Back" onTap={onClose} style={styles.linkButton} />
+        <Label style={styles.title} text="Role-play scenarios" />
+
+        {scenarios.map(scenario => (
+          <StackLayout key={scenario.id} style={styles.scenarioRow}>
+            <Label
+              style={styles.scenarioTitle}
+              text={scenario.level ? `${scenario.title} · ${scenario.level}` : scenario.title}
+            />
+            <Label style={styles.scenarioSetting} text={scenario.setting} textWrap={true} />
+            <Label
+              style={styles.scenarioMeta}
+              text={`You are ${scenario.learnerRole.toLowerCase()} · ${scenario.goals.length} goals`}
+              textWrap={true}
+            />
+            <FlexboxLayout style={styles.actionRow}>
+              <Button text="Start" onTap={() => onStart(scenario)} style={styles.startButton} />
+              {importedIds.has(scenario.id) && (
+                <Button text="Remove" onTap={() => onRemove(scenario.id)} style={styles.removeButton} />
+              )}
+            </FlexboxLayout>
+          </StackLayout>
+        ))}
+
+        <Label style={styles.sectionTitle} text="Import scenarios" />
+        <TextView
+          text={draftJson}
+          hint='Paste a scenario library, e.g. { "version": 1, "scenarios": [...] }'
+          onTextChange={(args: { value: string }) => setDraftJson(args.value)}
+          style={styles.jsonInput}
+        />
+        <Button text="Import" onTap={handleImport} isEnabled={!!draftJson.trim()} style={styles.startButton} />
+        {notice && (
+          <Label style={notice.isError ? styles.errorText : styles.successText} text={notice.text} textWrap={true} />
+        )}
+      </StackLayout>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#1a1a1a',
+    padding: 16
+  },
+  title: {
+    color: 'white',
+    fontSize: 22,
+    fontWeight: 'bold',
+    marginVertical: 8
+  },
+  sectionTitle: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: 'bold',
+    marginTop: 16
+  },
+  linkButton: {
+    color: 'rgba(255, 255, 255, 0.7)',
+    backgroundColor: 'transparent',
+    horizontalAlignment: 'left'
+  },
+  scenarioRow: {
+    padding: 12,
+    marginVertical: 4,
+    borderRadius: 12,
+    backgroundColor: 'rgba(255, 255, 255, 0.05)'
+  },
+  scenarioTitle: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: 'bold'
+  },
+  scenarioSetting: {
+    color: 'rgba(255, 255, 255, 0.6)',
+    fontSize: 14
+  },
+  scenarioMeta: {
+    color: 'rgba(255, 255, 255, 0.4)',
+    fontSize: 12
+  },
+  actionRow: {
+    marginTop: 8
+  },
+  startButton: {
+    color: 'white',
+    backgroundColor: '#4f46e5',
+    borderRadius: 16,
+    marginRight: 8
+  },
+  removeButton: {
+    color: '#f87171',
+    backgroundColor: 'transparent'
+  },
+  jsonInput: {
+    color: 'white',
+    fontSize: 12,
+    height: 160,
+    marginVertical: 8,
+    padding: 8,
+    borderRadius: 12,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)'
+  },
+  errorText: {
+    color: '#f87171',
+    fontSize: 14
+  },
+  successText: {
+    color: '#6ee7b7',
+    fontSize: 14
+  }
+});
@@ -0,0 +1,94 @@
+import React from 'react';
+import { StackLayout, Label } from '@nativescript/core';
+import { StyleSheet } from 'react-nativescript';
+import { formatMinutes, SessionReport } from '../services/sessionReport';
+import { CEFR_LEVELS } from '../services/tutorProfile';
+
+interface SessionReportSectionProps {
+  report: SessionReport;
+}
+
+export function SessionReportSection({ report }: SessionReportSectionProps) {
+  const { metrics, narrative } = report;
+  const stats = [
+    `Session length: ${formatMinutes(metrics.durationMs)}`,
+    `Your share of talk time: ${metrics.learnerTalkRatio === null ? '–' : `${Math.round(metrics.learnerTalkRatio * 100)}%`}`,
+    `Words per minute: ${metrics.wordsPerMinute ?? '–'}`,
+    `Different words used: ${metrics.uniqueWords}`,
+    `Words per turn: ${metrics.averageUtteranceWords}`,
+    `Corrections: ${metrics.correctionCount}`,
+  ];
+
+  return (
+    <StackLayout style={styles.container}>
+      {narrative ? (
+        <StackLayout>
+          <Label style={styles.summary} text={narrative.summary} textWrap={true} />
+          {narrative.nextSteps.map((step, index) => (
+            <Label key={index} style={styles.item} text={`• ${step}`} textWrap={true} />
+          ))}
+          {narrative.estimatedLevel && (
+            <Label style={styles.muted} text={`Estimated level: ${narrative.estimatedLevel} · ${CEFR_LEVELS[narrative.estimatedLevel]}`} />
+          )}
+        </StackLayout>
+      ) : (
+        <Label style={styles.muted} text="The tutor's written summary isn't available for this session." textWrap={true} />
+      )}
+
+      <Label style={styles.heading} text="Numbers" />
+      {stats.map(stat => <Label key={stat} style={styles.item} text={stat} />)}
+
+      {metrics.recurringErrors.length > 0 && <Label style={styles.heading} text="Recurring mistakes" />}
+      {metrics.recurringErrors.map(pattern => (
+        <StackLayout key={pattern.category} style={styles.card}>
+          <Label style={styles.cardHeading} text={`✏️ ${pattern.category} · ${pattern.count}×`} />
+          {pattern.examples.map((example, index) => (
+            <Label key={index} style={styles.item} text={`${example.original} → ${example.corrected}`} textWrap={true} />
+          ))}
+        </StackLayout>
+      ))}
+
+      {metrics.newWords.length > 0 && <Label style={styles.heading} text="New words" />}
+      {metrics.newWords.map(item => (
+        <Label key={item.word} style={styles.item} text={`📘 ${item.word} – ${item.definition}`} textWrap={true} />
+      ))}
+    </StackLayout>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginVertical: 8
+  },
+  summary: {
+    color: 'white',
+    fontSize: 15,
+    marginBottom: 4
+  },
+  heading: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: 'bold',
+    marginTop: 12,
+    marginBottom: 4
+  },
+  item: {
+    color: 'rgba(255, 255, 255, 0.8)',
+    fontSize: 14
+  },
+  muted: {
+    color: 'rgba(255, 255, 255, 0.5)',
+    fontSize: 14
+  },
+  card: {
+    padding: 8,
+    marginVertical: 4,
+    borderRadius: 12,
+    backgroundColor: 'rgba(245, 158, 11, 0.1)'
+  },
+  cardHeading: {
+    color: '#fcd34d',
+    fontSize: 12,
+    fontWeight: 'bold'
+  }
+});
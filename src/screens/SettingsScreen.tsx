@@ -0,0 +1,156 @@
+import React, { useState } from 'react';
+import {
+  StackLayout,
+  Button,
+  Label,
+  ListPicker,
+  ScrollView,
+  Switch,
+  TextField
+} from '@nativescript/core';
+import { StyleSheet } from 'react-nativescript';
+import {
+  CEFR_LEVELS,
+  CefrLevel,
+  CORRECTION_STYLES,
+  CorrectionStyle,
+  SPEAKING_RATES,
+  SpeakingRate,
+  TUTOR_VOICES,
+  TutorProfile
+} from '../services/tutorProfile';
+
+interface SettingsScreenProps {
+  profile: TutorProfile;
+  isInCall: boolean;
+  onSave: (profile: TutorProfile) => void;
+  onClose: () => void;
+}
+
+const LEVELS = Object.keys(CEFR_LEVELS) as CefrLevel[];
+const RATES = Object.keys(SPEAKING_RATES) as SpeakingRate[];
+const CORRECTIONS = Object.keys(CORRECTION_STYLES) as CorrectionStyle[];
+
+export function SettingsScreen({ profile, isInCall, onSave, onClose }: SettingsScreenProps) {
+  const [draft, setDraft] = useState<TutorProfile>(profile);
+
+  const update = (changes: Partial<TutorProfile>) => {
+    setDraft(prev => ({ ...prev, ...changes }));
+  };
+
+  const handleSave = () => {
+    onSave(draft);
+    onClose();
+  };
+
+  return (
+    <ScrollView style={styles.container}>
+      <StackLayout>
+        <Label style={styles.title} text="Tutor settings" />
+
+        <Label style={styles.label} text="Your level" />
+        <ListPicker
+          items={LEVELS.map(level => `${level} · ${CEFR_LEVELS[level]}`)}
+          selectedIndex={LEVELS.indexOf(draft.level)}
+          onSelectedIndexChange={(args: { value: number }) => update({ level: LEVELS[args.value] })}
+          style={styles.picker}
+        />
+
+        <Label style={styles.label} text="Conversation topic" />
+        <TextField
+          text={draft.topic}
+          hint="Anything — or e.g. travel, football"
+          onTextChange={(args: { value: string }) => update({ topic: args.value })}
+          style={styles.input}
+        />
+
+        <Label style={styles.label} text="Voice" />
+        <ListPicker
+          items={[...TUTOR_VOICES]}
+          selectedIndex={TUTOR_VOICES.indexOf(draft.voice)}
+          onSelectedIndexChange={(args: { value: number }) => update({ voice: TUTOR_VOICES[args.value] })}
+          style={styles.picker}
+        />
+        {isInCall && draft.voice !== profile.voice && (
+          <Label style={styles.hint} text="The new voice is used from your next call." textWrap={true} />
+        )}
+
+        <Label style={styles.label} text="Speaking rate" />
+        <ListPicker
+          items={RATES.map(rate => SPEAKING_RATES[rate])}
+          selectedIndex={RATES.indexOf(draft.speakingRate)}
+          onSelectedIndexChange={(args: { value: number }) => update({ speakingRate: RATES[args.value] })}
+          style={styles.picker}
+        />
+
+        <Label style={styles.label} text="Corrections" />
+        <ListPicker
+          items={CORRECTIONS.map(style => CORRECTION_STYLES[style])}
+          selectedIndex={CORRECTIONS.indexOf(draft.correctionStyle)}
+          onSelectedIndexChange={(args: { value: number }) => update({ correctionStyle: CORRECTIONS[args.value] })}
+          style={styles.picker}
+        />
+
+        <Label style={styles.label} text="Stop the tutor when I start speaking" textWrap={true} />
+        <Switch
+          checked={draft.allowInterruptions}
+          onCheckedChange={(args: { value: boolean }) => update({ allowInterruptions: args.value })}
+          style={styles.switch}
+        />
+
+        <Button text="Save" onTap={handleSave} style={styles.primaryButton} />
+        <Button text="Cancel" onTap={onClose} style={styles.secondaryButton} />
+      </StackLayout>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#1a1a1a',
+    padding: 16
+  },
+  title: {
+    color: 'white',
+    fontSize: 24,
+    fontWeight: 'bold',
+    marginBottom: 8
+  },
+  label: {
+    color: 'rgba(255, 255, 255, 0.7)',
+    fontSize: 14,
+    marginTop: 12
+  },
+  hint: {
+    color: '#fde047',
+    fontSize: 12
+  },
+  picker: {
+    height: 120,
+    color: 'white'
+  },
+  switch: {
+    horizontalAlignment: 'left'
+  },
+  input: {
+    color: 'white',
+    fontSize: 16,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    padding: 8,
+    borderRadius: 8
+  },
+  primaryButton: {
+    backgroundColor: '#4f46e5',
+    color: 'white',
+    padding: 12,
+    borderRadius: 24,
+    fontSize: 16,
+    fontWeight: 'bold',
+    marginTop: 16
+  },
+  secondaryButton: {
+    color: 'rgba(255, 255, 255, 0.7)',
+    backgroundColor: 'transparent',
+    marginTop: 8
+  }
+});
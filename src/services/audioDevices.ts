@@ -0,0 +1,83 @@
+// Chosen devices by id; null means the system default
+export interface AudioDeviceSelection {
+  inputId: string | null;
+  outputId: string | null;
+}
+
+export const DEFAULT_DEVICE_SELECTION: AudioDeviceSelection = {
+  inputId: null,
+  outputId: null,
+};
+
+export interface AudioDevice {
+  id: string;
+  label: string;
+}
+
+export interface AudioDeviceList {
+  inputs: AudioDevice[];
+  outputs: AudioDevice[];
+}
+
+const STORAGE_KEY = 'audioDevices';
+
+// Firefox and Safari can't route media elements to another speaker yet
+export function supportsOutputSelection(): boolean {
+  return typeof HTMLMediaElement !== 'undefined' && 'setSinkId' in HTMLMediaElement.prototype;
+}
+
+function toAudioDevices(devices: MediaDeviceInfo[], kind: MediaDeviceKind): AudioDevice[] {
+  return devices
+    // The 'default' and 'communications' entries are aliases of real devices
+    .filter(device => device.kind === kind && device.deviceId && device.deviceId !== 'default' && device.deviceId !== 'communications')
+    .map((device, index) => ({
+      id: device.deviceId,
+      // Labels stay empty until the mic permission has been granted
+      label: device.label || `${kind === 'audioinput' ? 'Microphone' : 'Speaker'} ${index + 1}`,
+    }));
+}
+
+export async function listAudioDevices(): Promise<AudioDeviceList> {
+  if (!navigator.mediaDevices?.enumerateDevices) {
+    return { inputs: [], outputs: [] };
+  }
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return {
+    inputs: toAudioDevices(devices, 'audioinput'),
+    outputs: supportsOutputSelection() ? toAudioDevices(devices, 'audiooutput') : [],
+  };
+}
+
+// Fired when headsets and USB mics are plugged in or out
+export function onDeviceChange(listener: () => void): () => void {
+  if (!navigator.mediaDevices) return () => {};
+  navigator.mediaDevices.addEventListener('devicechange', listener);
+  return () => navigator.mediaDevices.removeEventListener('devicechange', listener);
+}
+
+// Remembered devices that aren't connected right now fall back to the default,
+// and are picked up again when they come back
+export function resolveDeviceSelection(preferred: AudioDeviceSelection, devices: AudioDeviceList): AudioDeviceSelection {
+  const isPresent = (list: AudioDevice[], id: string | null) => id !== null && list.some(device => device.id === id);
+  return {
+    inputId: isPresent(devices.inputs, preferred.inputId) ? preferred.inputId : null,
+    outputId: isPresent(devices.outputs, preferred.outputId) ? preferred.outputId : null,
+  };
+}
+
+export function loadDeviceSelection(): AudioDeviceSelection {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? { ...DEFAULT_DEVICE_SELECTION, ...JSON.parse(stored) } : DEFAULT_DEVICE_SELECTION;
+  } catch {
+    return DEFAULT_DEVICE_SELECTION;
+  }
+}
+
+export function saveDeviceSelection(selection: AudioDeviceSelection): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(selection));
+  } catch (error) {
+    console.warn('Failed to save audio devices:', error);
+  }
+}
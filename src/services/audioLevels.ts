@@ -0,0 +1,164 @@
+export type AudioSide = 'learner' | 'tutor';
+
+export interface SideLevel {
+  // Loudness mapped to 0..1 for display
+  level: number;
+  isSpeaking: boolean;
+}
+
+export interface AudioLevels {
+  learner: SideLevel;
+  tutor: SideLevel;
+  // The server's voice activity detection currently hears the learner
+  serverDetectsSpeech: boolean;
+  // The mic has been live for a while without picking up any signal at all
+  micSeemsSilent: boolean;
+}
+
+export const SILENT_LEVELS: AudioLevels = {
+  learner: { level: 0, isSpeaking: false },
+  tutor: { level: 0, isSpeaking: false },
+  serverDetectsSpeech: false,
+  micSeemsSilent: false,
+};
+
+// Sampling rate of the meters, which also caps how often levels are emitted
+const SAMPLE_INTERVAL_MS = 100;
+// Display range; anything below the floor counts as no signal at all
+const MIN_DB = -70;
+const MAX_DB = -10;
+const SPEAKING_LEVEL = 0.45;
+// Keeps the indicator from flickering between words
+const SPEAKING_HANGOVER_MS = 400;
+export const SILENT_MIC_WARNING_MS = 6000;
+// Levels are rounded so tiny changes don't cause re-renders
+const LEVEL_STEP = 0.05;
+
+interface Meter {
+  source: MediaStreamAudioSourceNode;
+  analyser: AnalyserNode;
+  samples: Float32Array;
+  speakingUntil: number;
+}
+
+function measureLevel(samples: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) {
+    sum += samples[i] * samples[i];
+  }
+  const rms = Math.sqrt(sum / samples.length);
+  const db = rms > 0 ? 20 * Math.log10(rms) : -Infinity;
+  const level = Math.min(1, Math.max(0, (db - MIN_DB) / (MAX_DB - MIN_DB)));
+  return Math.round(level / LEVEL_STEP) * LEVEL_STEP;
+}
+
+function sameLevels(a: AudioLevels, b: AudioLevels): boolean {
+  return a.learner.level === b.learner.level
+    && a.learner.isSpeaking === b.learner.isSpeaking
+    && a.tutor.level === b.tutor.level
+    && a.tutor.isSpeaking === b.tutor.isSpeaking
+    && a.serverDetectsSpeech === b.serverDetectsSpeech
+    && a.micSeemsSilent === b.micSeemsSilent;
+}
+
+// Analyses the learner's mic and the tutor's playback with Web Audio; a no-op where there is no AudioContext
+export class AudioLevelMeter {
+  private context: AudioContext | null = null;
+  private meters: Partial<Record<AudioSide, Meter>> = {};
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private levels: AudioLevels = SILENT_LEVELS;
+  private serverDetectsSpeech = false;
+  // When the mic went live, or last picked up any signal while live
+  private lastInputSignalAt: number | null = null;
+
+  constructor(
+    private readonly onChange: (levels: AudioLevels) => void,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  setStream(side: AudioSide, stream: MediaStream | null): void {
+    const previous = this.meters[side];
+    if (previous) {
+      previous.source.disconnect();
+      delete this.meters[side];
+    }
+    if (!stream || stream.getAudioTracks().length === 0 || typeof AudioContext === 'undefined') {
+      this.update();
+      return;
+    }
+
+    this.context ??= new AudioContext();
+    const source = this.context.createMediaStreamSource(stream);
+    const analyser = this.context.createAnalyser();
+    analyser.fftSize = 1024;
+    source.connect(analyser);
+    this.meters[side] = { source, analyser, samples: new Float32Array(analyser.fftSize), speakingUntil: 0 };
+
+    this.timer ??= setInterval(() => this.update(), SAMPLE_INTERVAL_MS);
+  }
+
+  // Whether the mic is expected to carry the learner's voice right now (streaming, unmuted, talk held)
+  setInputLive(live: boolean): void {
+    if (!live) {
+      this.lastInputSignalAt = null;
+    } else if (this.lastInputSignalAt === null) {
+      this.lastInputSignalAt = this.now();
+    }
+  }
+
+  setServerDetectsSpeech(detected: boolean): void {
+    this.serverDetectsSpeech = detected;
+    this.update();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    Object.values(this.meters).forEach(meter => meter.source.disconnect());
+    this.meters = {};
+    void this.context?.close();
+    this.context = null;
+    this.serverDetectsSpeech = false;
+    this.lastInputSignalAt = null;
+    this.update();
+  }
+
+  private measure(side: AudioSide, now: number): SideLevel {
+    const meter = this.meters[side];
+    if (!meter) return { level: 0, isSpeaking: false };
+
+    meter.analyser.getFloatTimeDomainData(meter.samples);
+    const level = measureLevel(meter.samples);
+    if (level >= SPEAKING_LEVEL) {
+      meter.speakingUntil = now + SPEAKING_HANGOVER_MS;
+    }
+    return { level, isSpeaking: now < meter.speakingUntil };
+  }
+
+  private update() {
+    const now = this.now();
+    const learner = this.measure('learner', now);
+    const tutor = this.measure('tutor', now);
+
+    if (this.lastInputSignalAt !== null && learner.level > 0) {
+      this.lastInputSignalAt = now;
+    }
+    // Only a mic we can actually measure can be reported as silent
+    const micSeemsSilent = !!this.meters.learner
+      && this.lastInputSignalAt !== null
+      && now - this.lastInputSignalAt >= SILENT_MIC_WARNING_MS;
+
+    const levels: AudioLevels = {
+      learner,
+      tutor,
+      serverDetectsSpeech: this.serverDetectsSpeech,
+      micSeemsSilent,
+    };
+    if (!sameLevels(levels, this.levels)) {
+      this.levels = levels;
+      this.onChange(levels);
+    }
+  }
+}
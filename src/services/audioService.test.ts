@@ -0,0 +1,352 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AudioService } from './audioService';
+import { ConnectionPhase } from './connectionStateMachine';
+import { ConversationStore } from './conversationStore';
+import { ConnectionQuality, QUALITY_POLL_INTERVAL_MS, SUSTAINED_POOR_MS } from './connectionQuality';
+import { EMPTY_LEARNER_PROFILE } from './learnerProfile';
+import { RealtimeDiagnostic } from './realtimeEvents';
+import { TUTOR_TOOL_INSTRUCTIONS, TutorToolEffect } from './tutorTools';
+import { FakeMicrophone } from '../test/fakeMedia';
+import { FAKE_MODEL, FakeRealtimeServer } from '../test/fakeRealtimeServer';
+import { learnerTurn, toolCallReply, tutorReply } from '../test/cannedConversations';
+import { createTestService } from '../test/testService';
+
+describe('AudioService', () => {
+  let server: FakeRealtimeServer;
+  let microphone: FakeMicrophone;
+  let service: AudioService;
+  let phases: ConnectionPhase[];
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    server = new FakeRealtimeServer();
+    microphone = new FakeMicrophone();
+    service = createTestService(server, { microphone });
+    phases = [];
+    service.on('connection-state', snapshot => phases.push(snapshot.phase));
+  });
+
+  afterEach(() => {
+    service.disconnect();
+  });
+
+  describe('session setup', () => {
+    it('connects over WebRTC with a broker token and configures the session', async () => {
+      await service.initializeSession();
+
+      expect(server.tokensIssued).toBe(1);
+      expect(server.sdpOffers).toEqual(['v=0 fake-offer']);
+      expect(service.isConnected).toBe(true);
+      expect(phases).toEqual(['acquiring-mic', 'negotiating', 'connected']);
+
+      const [update] = server.receivedOfType('session.update');
+      expect(update.session.instructions).toContain(TUTOR_TOOL_INSTRUCTIONS);
+      expect(update.session.tools?.map(tool => tool.name)).toEqual(['report_correction', 'introduce_word']);
+      // The tutor opens the conversation
+      expect(server.receivedOfType('response.create')).toHaveLength(1);
+    });
+
+    it('leaves the first word to the learner when asked not to greet', async () => {
+      await service.initializeSession({ greet: false });
+
+      expect(server.receivedOfType('session.update')).toHaveLength(1);
+      expect(server.receivedOfType('response.create')).toHaveLength(0);
+    });
+
+    it('tells a running session about the learner', async () => {
+      await service.initializeSession();
+      service.setLearner({ ...EMPTY_LEARNER_PROFILE, name: 'Aru' }, null);
+
+      const updates = server.receivedOfType('session.update');
+      expect(updates).toHaveLength(2);
+      expect(updates[1].session.instructions).toContain('The learner\'s name is Aru.');
+      expect(updates[1].session.instructions).toContain(TUTOR_TOOL_INSTRUCTIONS);
+    });
+
+    it('fetches a new single-use token for each call on the local pipeline', async () => {
+      server.singleUseTokens = true;
+      service = createTestService(server, { speechProvider: 'local' });
+
+      await service.initializeSession();
+      service.disconnect();
+      await service.initializeSession();
+
+      expect(service.isConnected).toBe(true);
+      expect(server.tokensIssued).toBe(2);
+    });
+
+    it('passes the token to a WebSocket as a subprotocol', async () => {
+      service = createTestService(server, { transport: 'websocket' });
+      await service.initializeSession();
+
+      expect(server.socketUrls).toEqual([`wss://realtime.test/v1/realtime?model=${encodeURIComponent(FAKE_MODEL)}`]);
+      expect(server.sdpOffers).toHaveLength(0);
+      expect(service.isConnected).toBe(true);
+    });
+
+    it('never opens the microphone for a text-only session', async () => {
+      await service.initializeSession({ textOnly: true, greet: false });
+
+      expect(service.isTextOnly).toBe(true);
+      expect(microphone.opened).toHaveLength(0);
+      expect(service.isConnected).toBe(true);
+    });
+
+    it('starts metering the session with the model\'s prices', async () => {
+      await service.initializeSession();
+      server.emit(...tutorReply('resp_1', 'item_1', 'Hello! What would you like to talk about?'));
+
+      const { session } = service.usageSnapshot;
+      expect(session.outputAudioTokens).toBe(80);
+      expect(session.costUsd).toBeGreaterThan(0);
+    });
+  });
+
+  describe('failures and retries', () => {
+    it('fails with the broker\'s reason when it can\'t mint a token', async () => {
+      server.failBroker({ status: 502, body: 'OPENAI_API_KEY is not configured on the token broker' });
+
+      await expect(service.initializeSession()).rejects.toThrow(
+        'Token broker refused the session request (502): OPENAI_API_KEY is not configured on the token broker'
+      );
+      expect(service.connectionState.phase).toBe('failed');
+      expect(microphone.opened).toHaveLength(0);
+    });
+
+    it('explains an unreachable broker', async () => {
+      server.failBroker('unreachable');
+
+      await expect(service.initializeSession()).rejects.toThrow(/Token broker is unreachable/);
+    });
+
+    it('fails without a microphone and releases nothing it didn\'t open', async () => {
+      microphone.permission = 'denied';
+
+      await expect(service.initializeSession()).rejects.toThrow('Failed to access microphone: Permission denied');
+      expect(service.connectionState.phase).toBe('failed');
+      expect(server.sdpOffers).toHaveLength(0);
+    });
+
+    it('falls back to a WebSocket when WebRTC is blocked in auto mode', async () => {
+      // Pretend to be a browser, so auto mode tries WebRTC first
+      vi.stubGlobal('RTCPeerConnection', class {});
+      vi.stubGlobal('document', {});
+      vi.stubGlobal('navigator', { mediaDevices: {} });
+      service = createTestService(server, { transport: 'auto' });
+      server.failSdp({ status: 500, body: 'ICE failed' });
+
+      await service.initializeSession();
+
+      expect(server.sdpOffers).toHaveLength(1);
+      expect(server.socketUrls).toHaveLength(1);
+      // The first token may have been used up by the failed attempt
+      expect(server.tokensIssued).toBe(2);
+      expect(service.isConnected).toBe(true);
+    });
+
+    it('asks for a new token after the Realtime API rejected the last one', async () => {
+      server.failSdp({ status: 401, body: 'token expired' });
+
+      await expect(service.initializeSession()).rejects.toThrow('Session token was rejected or has expired');
+      await service.initializeSession();
+
+      expect(server.tokensIssued).toBe(2);
+      expect(service.isConnected).toBe(true);
+    });
+
+    it('recovers a dropped call with an ICE restart, keeping the session', async () => {
+      await service.initializeSession();
+      server.dropConnection();
+
+      await vi.waitFor(() => expect(service.connectionState.phase).toBe('connected'));
+      expect(phases.slice(-2)).toEqual(['reconnecting', 'connected']);
+      expect(server.sdpOffers).toEqual(['v=0 fake-offer', 'v=0 fake-offer ice-restart']);
+      expect(server.tokensIssued).toBe(1);
+    });
+
+    it('starts a new upstream session when the ICE restart fails', async () => {
+      await service.initializeSession();
+      server.failSdp({ status: 500, body: 'restart refused' });
+      server.dropConnection();
+
+      await vi.waitFor(() => expect(server.tokensIssued).toBe(2));
+      await vi.waitFor(() => expect(service.connectionState.phase).toBe('connected'));
+      // A new upstream session is configured from scratch, but the learner isn't greeted twice
+      expect(server.receivedOfType('session.update')).toHaveLength(2);
+      expect(server.receivedOfType('response.create')).toHaveLength(1);
+    });
+
+    it('gives up after the last attempt and says why', async () => {
+      const errors: string[] = [];
+      service.on('error', message => errors.push(message));
+      await service.initializeSession();
+      server.failSdp({ status: 500, body: 'upstream is down' }, 10);
+      server.dropConnection();
+
+      await vi.waitFor(() => expect(service.connectionState.phase).toBe('failed'));
+      expect(service.connectionState.attempt).toBe(3);
+      expect(errors).toEqual(['Connection failed after 3 attempts: Failed to establish WebRTC connection: {"error":"upstream is down"}']);
+    });
+  });
+
+  describe('connection quality', () => {
+    const POOR_NETWORK = [
+      { id: 'in', type: 'inbound-rtp', kind: 'audio', packetsReceived: 500, packetsLost: 0, jitter: 0.09 },
+      { id: 'pair', type: 'candidate-pair', state: 'succeeded', nominated: true, currentRoundTripTime: 0.8 },
+    ];
+
+    beforeEach(() => {
+      // Only the stats polling runs on fake time; the fake server keeps answering on real timeouts
+      vi.useFakeTimers({ toFake: ['setInterval', 'clearInterval', 'Date'] });
+      // Built again so its clocks read the fake time
+      service = createTestService(server, { microphone });
+      service.on('connection-state', snapshot => phases.push(snapshot.phase));
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('rates WebRTC calls from their stats and flags a network that stays poor', async () => {
+      const reported: Array<ConnectionQuality | null> = [];
+      service.on('connection-quality', quality => reported.push(quality));
+      await service.initializeSession();
+      server.mediaStats = POOR_NETWORK;
+
+      await vi.advanceTimersByTimeAsync(QUALITY_POLL_INTERVAL_MS);
+      expect(service.connectionQuality).toMatchObject({ rating: 'poor', persistentlyPoor: false });
+      expect(service.connectionQuality?.stats).toMatchObject({ roundTripTimeMs: 800, jitterMs: 90 });
+
+      await vi.advanceTimersByTimeAsync(SUSTAINED_POOR_MS);
+      expect(service.connectionQuality?.persistentlyPoor).toBe(true);
+      expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('Connection quality has been poor'));
+
+      service.disconnect();
+      expect(reported[reported.length - 1]).toBeNull();
+    });
+
+    it('isn\'t rated over a WebSocket, which has no media stats', async () => {
+      service = createTestService(server, { transport: 'websocket' });
+      await service.initializeSession();
+
+      await vi.advanceTimersByTimeAsync(QUALITY_POLL_INTERVAL_MS * 2);
+      expect(service.connectionQuality).toBeNull();
+    });
+
+    it('moves a struggling call over to a WebSocket', async () => {
+      await service.initializeSession();
+      server.mediaStats = POOR_NETWORK;
+      await vi.advanceTimersByTimeAsync(QUALITY_POLL_INTERVAL_MS);
+
+      const conversation = new ConversationStore();
+      service.on('server-event', event => conversation.applyServerEvent(event));
+      server.emit(...learnerTurn('item_user', 'I goed to the park.'));
+      server.emit(...tutorReply('resp_1', 'item_tutor', 'You went to the park? Lovely!'));
+
+      await service.switchTransport('websocket', conversation.getSnapshot());
+
+      expect(service.connectionState.phase).toBe('connected');
+      // The new upstream session hears the conversation so far
+      expect(server.receivedOfType('conversation.item.create').map(event => event.item)).toEqual([
+        { id: 'item_user', type: 'message', role: 'user', content: [{ type: 'input_text', text: 'I goed to the park.' }] },
+        { id: 'item_tutor', type: 'message', role: 'assistant', content: [{ type: 'text', text: 'You went to the park? Lovely!' }] },
+      ]);
+      expect(phases.slice(-2)).toEqual(['reconnecting', 'connected']);
+      expect(server.socketUrls).toHaveLength(1);
+      expect(server.tokensIssued).toBe(2);
+      expect(service.connectionQuality).toBeNull();
+      // Still the same conversation for the learner: no second greeting
+      expect(server.receivedOfType('response.create')).toHaveLength(1);
+    });
+  });
+
+  describe('event handling', () => {
+    beforeEach(async () => {
+      await service.initializeSession();
+    });
+
+    it('passes a canned conversation through in order', async () => {
+      const types: string[] = [];
+      service.on('server-event', event => types.push(event.type));
+
+      server.emit(...learnerTurn('item_user', 'I goed to the park yesterday.'));
+      server.emit(...tutorReply('resp_1', 'item_tutor', 'Oh, you went to the park? What did you do there?'));
+
+      expect(types[0]).toBe('input_audio_buffer.speech_started');
+      expect(types).toContain('conversation.item.input_audio_transcription.completed');
+      expect(types[types.length - 1]).toBe('response.done');
+    });
+
+    it('answers tool calls and lets the tutor carry on', async () => {
+      const effects: TutorToolEffect[] = [];
+      service.on('tool-effect', effect => effects.push(effect));
+
+      server.emit(...toolCallReply('resp_1', 'item_call', 'call_1', 'report_correction', {
+        original: 'I goed',
+        corrected: 'I went',
+        category: 'grammar',
+        explanation: '"Go" has an irregular past tense.',
+      }));
+
+      expect(effects).toEqual([{
+        kind: 'correction',
+        correction: { original: 'I goed', corrected: 'I went', category: 'grammar', explanation: '"Go" has an irregular past tense.' },
+      }]);
+      const [output] = server.receivedOfType('conversation.item.create');
+      expect(output.item).toEqual({ type: 'function_call_output', call_id: 'call_1', output: '{"ok":true}' });
+      // The greeting plus the follow-up once the call was answered
+      expect(server.receivedOfType('response.create')).toHaveLength(2);
+    });
+
+    it('tells the model when a tool call is malformed', async () => {
+      const effects: TutorToolEffect[] = [];
+      service.on('tool-effect', effect => effects.push(effect));
+
+      server.emit(...toolCallReply('resp_1', 'item_call', 'call_1', 'introduce_word', { word: 'stroll' }));
+
+      expect(effects).toEqual([]);
+      const [output] = server.receivedOfType('conversation.item.create');
+      expect(JSON.parse(output.item.type === 'function_call_output' ? output.item.output : '')).toEqual({
+        ok: false,
+        error: 'Missing "definition"',
+      });
+    });
+
+    it('cancels the tutor when the learner starts speaking over it', async () => {
+      server.emit(tutorReply('resp_1', 'item_tutor', 'Let me tell you a long story.')[0]);
+      server.emit(learnerTurn('item_user', 'Sorry, can I ask something?')[0]);
+
+      expect(server.receivedOfType('response.cancel')).toEqual([{ type: 'response.cancel', response_id: 'resp_1' }]);
+    });
+
+    it('reports malformed events without dropping the call', async () => {
+      const diagnostics: RealtimeDiagnostic[] = [];
+      service.on('diagnostic', diagnostic => diagnostics.push(diagnostic));
+
+      server.emitRaw('{not json');
+      server.emitRaw(JSON.stringify({ type: 'response.done' }));
+
+      expect(diagnostics.map(diagnostic => diagnostic.kind)).toEqual(['malformed-json', 'invalid-event']);
+      expect(service.isConnected).toBe(true);
+    });
+
+    it('surfaces server errors', async () => {
+      const errors: string[] = [];
+      service.on('error', message => errors.push(message));
+
+      server.emit({ type: 'error', error: { type: 'invalid_request_error', message: 'Unknown parameter' } });
+
+      expect(errors).toEqual(['Unknown parameter']);
+    });
+
+    it('closes cleanly and stops the microphone on hang-up', async () => {
+      service.disconnect();
+
+      expect(service.connectionState.phase).toBe('closed');
+      expect(microphone.lastStream?.tracks.every(track => track.readyState === 'ended')).toBe(true);
+      expect(server.isConnected).toBe(false);
+    });
+  });
+});
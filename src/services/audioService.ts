@@ -1,256 +1,1149 @@
-import { OPENAI_API_KEY } from '../config';
+import { SessionToken } from './tokenService';
+import { REALTIME_TRANSPORT, SPEECH_PROVIDER, USAGE_BUDGET } from '../config';
+import {
+  ClientEvent,
+  parseServerEvent,
+  RealtimeDiagnostic,
+  ResponseConfig,
+  ServerEvent,
+  SessionConfig,
+} from './realtimeEvents';
+import { TypedEventEmitter } from './eventEmitter';
+import {
+  BackoffOptions,
+  computeBackoffDelay,
+  ConnectionSnapshot,
+  ConnectionStateMachine,
+  DEFAULT_BACKOFF,
+} from './connectionStateMachine';
+import {
+  DEFAULT_SERVER_VAD,
+  MIN_PUSH_TO_TALK_MS,
+  toSessionTurnDetection,
+  TurnDetectionSettings,
+} from './turnDetection';
+import { DEFAULT_TUTOR_PROFILE, toSessionConfig, TutorProfile } from './tutorProfile';
+import { compileLearnerInstructions, LearnerProfile } from './learnerProfile';
+import { ProgressSummary } from './learnerProgress';
+import { ConversationTurn, turnsToItems } from './conversationStore';
+import { handleTutorToolCall, SCENARIO_TOOLS, TUTOR_TOOL_INSTRUCTIONS, TUTOR_TOOLS, TutorToolEffect } from './tutorTools';
+import { RecordingSegment, SessionRecorder } from './sessionRecorder';
+import {
+  RealtimeTransport,
+  TokenRejectedError,
+  TransportKind,
+  TransportPreference,
+  TransportTimeouts,
+} from './realtimeTransport';
+import { createSpeechProvider, SpeechProvider } from './speechProvider';
+import { browserMicrophone, MicrophoneAccess, MicrophonePermission } from './microphone';
+import { MicrophonePermissionManager } from './microphonePermission';
+import { AudioDeviceSelection, DEFAULT_DEVICE_SELECTION } from './audioDevices';
+import { AudioLevelMeter, AudioLevels } from './audioLevels';
+import { TutorPlayback } from './tutorPlayback';
+import {
+  DailyUsageStore,
+  localStorageUsageStore,
+  PricingTable,
+  UsageBudget,
+  UsageMeter,
+  UsageSnapshot,
+} from './usageMeter';
+import {
+  assessScenarioLocally,
+  compileScenarioInstructions,
+  completeScenarioGoal,
+  Scenario,
+  ScenarioProgress,
+  startScenarioProgress,
+} from './scenarios';
+import { parseSessionNarrative, responseText, SESSION_NARRATIVE_INSTRUCTIONS, SessionNarrative } from './sessionReport';
+import { EventLogFile, EventTraffic } from './eventLog';
+import { ConnectionQuality, ConnectionQualityMonitor, describeConnectionStats } from './connectionQuality';
+import { ReplayTransport } from './replayTransport';
 
 interface AudioSession {
-  peerConnection: RTCPeerConnection | null;
-  dataChannel: RTCDataChannel | null;
+  transport: RealtimeTransport | null;
   stream: MediaStream | null;
-  audioElement: HTMLAudioElement | null;
+  // Tutor audio as a stream, where the transport provides one
+  remoteStream: MediaStream | null;
   isInitialized: boolean;
-  retryCount: number;
-  maxRetries: number;
 }
 
-class AudioService {
+export interface ReconnectPolicy extends BackoffOptions, TransportTimeouts {
+  maxAttempts: number;
+}
+
+export const DEFAULT_RECONNECT_POLICY: ReconnectPolicy = {
+  ...DEFAULT_BACKOFF,
+  maxAttempts: 4,
+  disconnectGraceMs: 4_000,
+  connectTimeoutMs: 15_000,
+};
+
+export interface AudioControls {
+  // Learner's mic: the track stays negotiated but carries silence
+  micMuted: boolean;
+  // Tutor playback
+  outputMuted: boolean;
+  // Tutor playback volume, 0..1
+  volume: number;
+}
+
+export interface AudioServiceEvents {
+  'server-event': ServerEvent;
+  'diagnostic': RealtimeDiagnostic;
+  'error': string;
+  'connection-state': ConnectionSnapshot;
+  'audio-controls': AudioControls;
+  'tool-effect': TutorToolEffect;
+  // Everything recorded during a call, emitted once the recording has been finalized
+  'recording': RecordingSegment[];
+  // The platform took the audio away (a phone call, unplugged headphones); streaming has been paused
+  'interruption': string;
+  'microphone-permission': MicrophonePermission;
+  'audio-devices': AudioDeviceSelection;
+  // Throttled mic and tutor levels, only emitted when they change
+  'audio-levels': AudioLevels;
+  // Token usage, estimated cost and talk time, after every response and while the clock runs
+  'usage': UsageSnapshot;
+  // The running role-play, its goals ticked off as the tutor reports them; null in free conversation
+  'scenario': ScenarioProgress | null;
+  // Every event sent or received, raw, for the developer inspector
+  'traffic': EventTraffic;
+  // Rated media stats while connected over a transport that has them; null otherwise
+  'connection-quality': ConnectionQuality | null;
+}
+
+export interface AudioServiceOptions {
+  transport?: TransportPreference;
+  provider?: SpeechProvider;
+  microphone?: MicrophoneAccess;
+  usageStore?: DailyUsageStore;
+  reconnectPolicy?: ReconnectPolicy;
+}
+
+export interface ReplayOptions {
+  // Multiplies the recorded pace; Infinity delivers everything at once
+  speed?: number;
+}
+
+export interface SessionOptions {
+  textOnly?: boolean;
+  greet?: boolean;
+  // Run the call as this role-play instead of a free conversation
+  scenario?: Scenario | null;
+}
+
+// How long the tutor may take to finish its answer once the budget runs out
+const BUDGET_HANG_UP_GRACE_MS = 15_000;
+
+// Marks the out-of-band response that writes the end-of-session narrative
+const NARRATIVE_PURPOSE = 'session-narrative';
+// Hanging up shouldn't wait on the model for longer than this
+const NARRATIVE_TIMEOUT_MS = 20_000;
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+export class AudioService {
+  private events = new TypedEventEmitter<AudioServiceEvents>();
+  private connection = new ConnectionStateMachine(snapshot => {
+    // Don't record the silence (or a stale remote stream) while the connection is being rebuilt
+    this.recorder?.setPaused('learner', 'reconnecting', snapshot.phase === 'reconnecting');
+    this.recorder?.setPaused('tutor', 'reconnecting', snapshot.phase === 'reconnecting');
+    this.usage.setClockRunning(snapshot.phase === 'connected' && !this.replaying);
+    this.qualityMonitor.watch(snapshot.phase === 'connected' ? this.session.transport : null);
+    this.events.emit('connection-state', snapshot);
+  });
+  private readonly reconnectPolicy: ReconnectPolicy;
+  private isReconnecting = false;
+  private hasGreeted = false;
+  // Typed turns only: no mic is opened and nothing is captured
+  private textOnly = false;
+  // The call is a saved event log being played back: nothing is metered
+  private replaying = false;
+  private readonly transportPreference: TransportPreference;
+  private readonly provider: SpeechProvider;
+  private readonly microphone: MicrophoneAccess;
+  private readonly permissions: MicrophonePermissionManager;
+  // The transport that last connected; reconnects stay on it
+  private transportKind: TransportKind;
+
+  // Input settings outlive individual sessions and are re-applied after every reconnect
+  private turnDetection: TurnDetectionSettings = DEFAULT_SERVER_VAD;
+  private isStreaming = false;
+  private talkStartedAt: number | null = null;
+  private audioControls: AudioControls = {
+    micMuted: false,
+    outputMuted: false,
+    volume: 1,
+  };
+  private audioDevices: AudioDeviceSelection = DEFAULT_DEVICE_SELECTION;
+  private activeResponseId: string | null = null;
+  private tutorPlayback = new TutorPlayback();
+  private tutorProfile: TutorProfile = DEFAULT_TUTOR_PROFILE;
+  // Who the tutor is talking to, compiled from the learner profile and past progress
+  private learnerInstructions = '';
+  // Kept after the call ends so the summary can still be shown
+  private scenario: ScenarioProgress | null = null;
+  // Set once the tutor has produced a response in the current upstream session
+  private tutorHasSpoken = false;
+  // Function names by call id, announced before their arguments complete
+  private functionCallNames = new Map<string, string>();
+  // Responses that ended in tool calls and need a follow-up response
+  private responsesAwaitingFollowUp = new Set<string>();
+  // Opt-in local recording of both sides of the call
+  private recordingEnabled = false;
+  private recorder: SessionRecorder | null = null;
+  private levelMeter = new AudioLevelMeter(levels => this.events.emit('audio-levels', levels));
+  private qualityMonitor = new ConnectionQualityMonitor(quality => this.handleConnectionQuality(quality));
+  // Each stretch of persistently poor quality is logged once
+  private poorQualityLogged = false;
+  private readonly usage: UsageMeter;
+  // The narrative being written while the learner hangs up
+  private pendingNarrative: { responseId: string | null; finish: (narrative: SessionNarrative | null) => void } | null = null;
+  // Pending hang-up after the budget ran out
+  private budgetHangUp: ReturnType<typeof setTimeout> | null = null;
+
   private session: AudioSession = {
-    peerConnection: null,
-    dataChannel: null,
+    transport: null,
     stream: null,
-    audioElement: null,
+    remoteStream: null,
     isInitialized: false,
-    retryCount: 0,
-    maxRetries: 3
   };
 
-  private async setupMediaStream(): Promise<MediaStream> {
-    try {
-      return await navigator.mediaDevices.getUserMedia({
-        audio: {
-          echoCancellation: true,
-          noiseSuppression: true,
-          autoGainControl: true,
-        }
+  constructor({
+    transport = REALTIME_TRANSPORT,
+    provider = createSpeechProvider(SPEECH_PROVIDER),
+    microphone = browserMicrophone,
+    usageStore = localStorageUsageStore,
+    reconnectPolicy = DEFAULT_RECONNECT_POLICY,
+  }: AudioServiceOptions = {}) {
+    this.reconnectPolicy = reconnectPolicy;
+    this.transportPreference = transport;
+    this.provider = provider;
+    this.microphone = microphone;
+    this.permissions = new MicrophonePermissionManager(microphone, permission => {
+      this.events.emit('microphone-permission', permission);
+      // Revoked mid-call: the mic now delivers nothing, so pause rather than send silence
+      if (permission !== 'granted') {
+        this.interruptAudio('Microphone access was turned off');
+      }
+    });
+    this.transportKind = provider.selectTransport(transport);
+    this.usage = new UsageMeter(usageStore, snapshot => this.handleUsage(snapshot));
+    this.usage.setBudget(USAGE_BUDGET);
+  }
+
+  get connectionState(): ConnectionSnapshot {
+    return this.connection.snapshot;
+  }
+
+  get isConnected(): boolean {
+    return this.connection.phase === 'connected' && this.session.isInitialized;
+  }
+
+  get turnDetectionSettings(): TurnDetectionSettings {
+    return this.turnDetection;
+  }
+
+  get audioControlState(): AudioControls {
+    return this.audioControls;
+  }
+
+  get currentTutorProfile(): TutorProfile {
+    return this.tutorProfile;
+  }
+
+  get isRecordingEnabled(): boolean {
+    return this.recordingEnabled;
+  }
+
+  get usageSnapshot(): UsageSnapshot {
+    return this.usage.snapshot;
+  }
+
+  get connectionQuality(): ConnectionQuality | null {
+    return this.qualityMonitor.quality;
+  }
+
+  private handleConnectionQuality(quality: ConnectionQuality | null) {
+    if (quality?.persistentlyPoor && !this.poorQualityLogged) {
+      // Enough for support to tell a bad network from a bug
+      console.warn(`Connection quality has been poor for a while over ${this.transportKind}: ${describeConnectionStats(quality.stats)}`);
+    }
+    this.poorQualityLogged = quality?.persistentlyPoor ?? false;
+    this.events.emit('connection-quality', quality);
+  }
+
+  setUsageBudget(budget: UsageBudget): void {
+    this.usage.setBudget(budget);
+  }
+
+  // Replaces the published prices, e.g. for a negotiated rate; null goes back to them
+  setUsagePricing(pricing: PricingTable | null): void {
+    this.usage.setPricing(pricing);
+  }
+
+  private handleUsage(snapshot: UsageSnapshot) {
+    this.events.emit('usage', snapshot);
+    if (snapshot.budget.level === 'exceeded' && this.session.transport && !this.budgetHangUp) {
+      this.hangUpForBudget(snapshot.budget.reason);
+    }
+  }
+
+  // Stop taking turns, let the tutor finish the sentence it is on, then end the call
+  private hangUpForBudget(reason: string) {
+    this.stopStreaming();
+    this.events.emit('error', `${reason}, so the call has ended.`);
+    this.budgetHangUp = setTimeout(() => this.disconnect(), this.activeResponseId ? BUDGET_HANG_UP_GRACE_MS : 0);
+  }
+
+  // null until the first check
+  get microphonePermission(): MicrophonePermission | null {
+    return this.permissions.permission;
+  }
+
+  refreshMicrophonePermission(): Promise<MicrophonePermission> {
+    return this.permissions.refresh();
+  }
+
+  requestMicrophonePermission(): Promise<MicrophonePermission> {
+    return this.permissions.request();
+  }
+
+  private async setupMediaStream(): Promise<MediaStream | null> {
+    const stream = await this.microphone.open(this.audioDevices.inputId);
+    stream?.getAudioTracks().forEach(track => {
+      track.addEventListener('ended', () => {
+        void this.handleMicrophoneEnded();
       });
+    });
+    return stream;
+  }
+
+  // The mic was unplugged, or access revoked (browsers without permission change events just end the track)
+  private async handleMicrophoneEnded() {
+    const permission = await this.permissions.refresh();
+    // A chosen device that disappears is replaced through setAudioDevices once the device list updates
+    if (permission !== 'granted' || this.audioDevices.inputId !== null) return;
+
+    try {
+      await this.switchMicrophone();
     } catch (error) {
-      throw new Error(`Failed to access microphone: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      this.events.emit('error', error instanceof Error ? error.message : 'Failed to switch microphone');
     }
   }
 
-  private async createPeerConnection(): Promise<RTCPeerConnection> {
-    const peerConnection = new RTCPeerConnection({
-      iceServers: [
-        { urls: 'stun:stun.l.google.com:19302' }
-      ]
-    });
+  get audioDeviceSelection(): AudioDeviceSelection {
+    return this.audioDevices;
+  }
 
-    // Handle connection state changes
-    peerConnection.onconnectionstatechange = () => {
-      if (peerConnection.connectionState === 'failed') {
-        this.handleConnectionFailure();
+  // Takes effect mid-call: the new mic is swapped in under the running session and tutor audio rerouted
+  async setAudioDevices(selection: AudioDeviceSelection): Promise<void> {
+    const previous = this.audioDevices;
+    this.audioDevices = selection;
+    this.events.emit('audio-devices', selection);
+
+    try {
+      if (selection.inputId !== previous.inputId) {
+        await this.switchMicrophone();
       }
-    };
+      if (selection.outputId !== previous.outputId) {
+        await this.session.transport?.setOutputDevice(selection.outputId);
+      }
+    } catch (error) {
+      this.events.emit('error', error instanceof Error ? error.message : 'Failed to switch audio device');
+    }
+  }
+
+  // Open the selected mic and hand it to the transport in place of the current one
+  private async switchMicrophone(): Promise<void> {
+    const previous = this.session.stream;
+    // Nothing to swap outside a call, or where the platform captures audio itself
+    if (!previous || !this.session.transport) return;
 
-    return peerConnection;
+    const stream = await this.setupMediaStream();
+    if (!stream) return;
+    // The call may have ended while the mic was opening
+    if (this.session.stream !== previous || !this.session.transport) {
+      stream.getTracks().forEach(track => track.stop());
+      return;
+    }
+
+    try {
+      await this.session.transport.replaceInputStream(stream);
+    } catch (error) {
+      stream.getTracks().forEach(track => track.stop());
+      throw error;
+    }
+    this.session.stream = stream;
+    previous.getTracks().forEach(track => track.stop());
+    this.recorder?.setStream('learner', stream);
+    this.levelMeter.setStream('learner', stream);
+    this.applyMicState();
   }
 
-  private async handleConnectionFailure() {
-    if (this.session.retryCount < this.session.maxRetries) {
-      this.session.retryCount++;
-      console.log(`Retrying connection (attempt ${this.session.retryCount})`);
-      await this.initializeSession();
-    } else {
+  // Never throws: failures end in the 'failed' state and an 'error' event
+  private async handleConnectionFailure(reason: string) {
+    if (this.isReconnecting || this.connection.phase !== 'connected') {
+      return;
+    }
+    this.isReconnecting = true;
+    this.session.isInitialized = false;
+
+    let lastReason = reason;
+    let attempt = 0;
+    try {
+      while (attempt < this.reconnectPolicy.maxAttempts) {
+        attempt++;
+        const delay = computeBackoffDelay(attempt, this.reconnectPolicy);
+        this.connection.transition('reconnecting', {
+          attempt,
+          lastFailureReason: lastReason,
+          nextRetryAt: Date.now() + delay,
+        });
+        console.log(`Retrying connection in ${delay}ms (attempt ${attempt})`);
+        await sleep(delay);
+
+        // The user may have hung up while we were waiting
+        if (!this.connection.is('reconnecting')) return;
+
+        try {
+          // Try the cheap path first: keep the session if the transport can recover in place
+          if (attempt === 1 && this.session.transport?.restart) {
+            const token = await this.provider.getSession();
+            await this.withTokenCheck(this.session.transport.restart(token));
+          } else {
+            await this.renegotiate();
+          }
+          if (!this.connection.is('reconnecting')) return;
+
+          this.session.isInitialized = true;
+          this.connection.transition('connected');
+          return;
+        } catch (error) {
+          if (!this.connection.is('reconnecting')) return;
+          lastReason = error instanceof Error ? error.message : 'Reconnection failed';
+        }
+      }
+
       this.cleanupSession();
-      throw new Error('Connection failed after maximum retry attempts');
+      this.connection.transition('failed', { attempt, lastFailureReason: lastReason });
+      this.events.emit('error', `Connection failed after ${attempt} attempts: ${lastReason}`);
+    } finally {
+      this.isReconnecting = false;
     }
   }
 
-  async initializeSession(): Promise<void> {
+  // Move a running call onto another transport, e.g. off WebRTC on a network that keeps breaking up media.
+  // The conversation carries on in a new upstream session, which is given the transcript so far
+  async switchTransport(kind: TransportKind, history: ConversationTurn[] = []): Promise<void> {
+    if (!this.isConnected || this.isReconnecting || kind === this.transportKind) return;
+    this.isReconnecting = true;
+    this.session.isInitialized = false;
+    this.transportKind = kind;
+    this.connection.transition('reconnecting', { attempt: 1, lastFailureReason: null });
+
     try {
+      await this.renegotiate();
+      if (!this.connection.is('reconnecting')) return;
+      turnsToItems(history).forEach(item => this.sendEvent({ type: 'conversation.item.create', item }));
+      this.session.isInitialized = true;
+      this.connection.transition('connected');
+    } catch (error) {
+      if (!this.connection.is('reconnecting')) return;
+      const reason = error instanceof Error ? error.message : 'Failed to connect';
       this.cleanupSession();
+      this.connection.transition('failed', { lastFailureReason: reason });
+      this.events.emit('error', `Couldn't switch to ${kind}: ${reason}`);
+    } finally {
+      this.isReconnecting = false;
+    }
+  }
 
-      if (!OPENAI_API_KEY) {
-        throw new Error('OpenAI API key is not configured');
-      }
+  // Build a brand new connection (and upstream session) around the existing mic stream
+  private async renegotiate() {
+    this.closeTransport();
 
-      // Set up media stream
+    // The previous token may have expired or been consumed, always retry with a fresh one
+    this.provider.invalidateSession();
+    const token = await this.provider.getSession();
+
+    const micLost = !this.session.stream || this.session.stream.getAudioTracks().every(track => track.readyState === 'ended');
+    if (!this.textOnly && micLost) {
       this.session.stream = await this.setupMediaStream();
-      
-      // Create and configure peer connection
-      this.session.peerConnection = await this.createPeerConnection();
-
-      // Add tracks to peer connection
-      if (this.session.stream && this.session.peerConnection) {
-        this.session.stream.getTracks().forEach(track => {
-          this.session.peerConnection?.addTrack(track, this.session.stream!);
-        });
-      }
+      this.recorder?.setStream('learner', this.session.stream);
+      this.levelMeter.setStream('learner', this.session.stream);
+      this.applyMicState();
+    }
+    await this.connectTransport(token, this.transportKind);
+  }
 
-      // Set up audio element
-      const audioElement = document.createElement('audio');
-      audioElement.autoplay = true;
-      this.session.audioElement = audioElement;
+  // Without greet the learner opens the conversation, e.g. with a typed message
+  async initializeSession({ textOnly = false, greet = true, scenario = null }: SessionOptions = {}): Promise<void> {
+    try {
+      // Tear down whatever call was running before starting a new one
+      this.disconnect();
+      this.hasGreeted = !greet;
+      this.textOnly = textOnly;
+      this.updateScenario(scenario ? startScenarioProgress(scenario) : null);
 
-      // Handle incoming tracks
-      if (this.session.peerConnection) {
-        this.session.peerConnection.ontrack = (event) => {
-          if (this.session.audioElement) {
-            this.session.audioElement.srcObject = event.streams[0];
-          }
-        };
+      const dailyBudget = this.usage.dailyBudget;
+      if (dailyBudget.level === 'exceeded') {
+        throw new Error(`${dailyBudget.reason}. Try again tomorrow.`);
       }
+      this.connection.transition('acquiring-mic', { lastFailureReason: null });
 
-      // Create and set up data channel
-      if (this.session.peerConnection) {
-        const dataChannel = this.session.peerConnection.createDataChannel('oai-events');
-        this.session.dataChannel = dataChannel;
-        
-        this.setupDataChannelHandlers(dataChannel);
+      // Fetch a short-lived session token from the provider before touching the mic
+      const token = await this.provider.getSession();
+      this.usage.startSession(this.provider.pricing(token.model));
+
+      // Set up media stream, muted until streaming starts
+      this.session.stream = textOnly ? null : await this.setupMediaStream();
+      if (this.recordingEnabled) {
+        this.startRecording();
       }
+      this.levelMeter.setStream('learner', this.session.stream);
+      this.applyMicState();
 
-      // Create and send offer
-      await this.createAndSendOffer();
+      this.connection.transition('negotiating');
+      await this.connectWithFallback(token);
 
-      console.log('WebRTC connection established successfully');
+      console.log(`${this.provider.label} connection established over ${this.transportKind}`);
       this.session.isInitialized = true;
-      this.session.retryCount = 0;
+      if (this.connection.phase === 'negotiating') {
+        this.connection.transition('connected');
+      }
 
     } catch (error) {
       this.cleanupSession();
+      if (this.connection.phase !== 'closed') {
+        this.connection.transition('failed', {
+          lastFailureReason: error instanceof Error ? error.message : 'Failed to connect',
+        });
+      }
       throw error;
     }
   }
 
-  private setupDataChannelHandlers(dataChannel: RTCDataChannel) {
-    dataChannel.addEventListener('message', this.handleDataChannelMessage.bind(this));
-    dataChannel.addEventListener('open', () => {
-      console.log('Data channel opened');
-      this.sendEvent({
-        type: 'response.create',
-        response: {
-          modalities: ['audio', 'text'],
-          instructions: 'You are a friendly English tutor helping students practice their speaking skills.'
-        }
-      });
-    });
-    
-    dataChannel.addEventListener('close', () => {
-      console.log('Data channel closed');
-      this.session.isInitialized = false;
+  // In auto mode a blocked WebRTC connection (e.g. on a school network) falls back to a WebSocket
+  private async connectWithFallback(token: SessionToken) {
+    const kind = this.provider.selectTransport(this.transportPreference);
+    try {
+      await this.connectTransport(token, kind);
+    } catch (error) {
+      if (this.transportPreference !== 'auto' || kind !== 'webrtc' || !this.connection.is('negotiating')) {
+        throw error;
+      }
+      console.warn('WebRTC connection failed, falling back to WebSocket:', error);
+      this.closeTransport();
+      this.provider.invalidateSession();
+      await this.connectTransport(await this.provider.getSession(), 'websocket');
+    }
+  }
+
+  // Create a transport of the given kind and connect it with the current mic stream
+  private async connectTransport(token: SessionToken, kind: TransportKind) {
+    const transport = this.provider.createTransport(kind, this.reconnectPolicy);
+    this.transportKind = kind;
+    this.attachTransport(transport);
+    await this.withTokenCheck(transport.connect(token, this.session.stream, !this.textOnly));
+  }
+
+  // A token the Realtime API turned down must not be handed out again
+  private async withTokenCheck(connecting: Promise<void>) {
+    try {
+      await connecting;
+    } catch (error) {
+      if (error instanceof TokenRejectedError) {
+        this.provider.invalidateSession();
+      }
+      throw error;
+    }
+  }
+
+  private attachTransport(transport: RealtimeTransport) {
+    this.session.transport = transport;
+    transport.on('open', () => this.handleTransportOpen());
+    transport.on('message', data => this.handleTransportMessage(data));
+    transport.on('connection-lost', reason => {
+      void this.handleConnectionFailure(reason);
     });
-    
-    dataChannel.addEventListener('error', (error) => {
-      console.error('Data channel error:', error);
-      this.session.isInitialized = false;
+    transport.on('remote-stream', stream => {
+      this.session.remoteStream = stream;
+      this.recorder?.setStream('tutor', stream);
+      this.levelMeter.setStream('tutor', stream);
     });
+
+    this.applyOutputState();
+    this.applyMicState();
+    // Remembered by the transport until it has somewhere to play audio
+    void transport.setOutputDevice(this.audioDevices.outputId);
+  }
+
+  // Feed the server side of a saved event log through the service, as if it came from a live call, to
+  // reproduce what the UI did. Resolves once the last event has been handled; the call stays up until hung up
+  async replay(log: EventLogFile, { speed = 1 }: ReplayOptions = {}): Promise<void> {
+    this.disconnect();
+    this.replaying = true;
+    this.hasGreeted = true;
+    this.textOnly = true;
+    this.updateScenario(null);
+    this.connection.transition('acquiring-mic', { lastFailureReason: null });
+    this.connection.transition('negotiating');
+
+    const transport = new ReplayTransport(log.entries, speed);
+    this.attachTransport(transport);
+    await transport.connect();
+    this.session.isInitialized = true;
+    this.connection.transition('connected');
+    await transport.finished;
+  }
+
+  get isReplaying(): boolean {
+    return this.replaying;
+  }
+
+  private handleTransportOpen() {
+    this.tutorHasSpoken = false;
+    this.updateSession(this.buildSessionConfig());
+
+    // A reconnect starts a new upstream session, but the learner was already greeted
+    if (this.hasGreeted) return;
+    this.hasGreeted = true;
+    this.createResponse({ modalities: ['audio', 'text'] });
   }
 
-  private async createAndSendOffer() {
-    if (!this.session.peerConnection) {
-      throw new Error('Peer connection not initialized');
+  private handleTransportMessage(data: string): void {
+    this.events.emit('traffic', { direction: 'server', at: Date.now(), data });
+    const parsed = parseServerEvent(data);
+    if (!parsed.ok) {
+      this.reportDiagnostic(parsed.diagnostic);
+      return;
     }
 
-    const offer = await this.session.peerConnection.createOffer();
-    await this.session.peerConnection.setLocalDescription(offer);
+    try {
+      this.handleServerEvent(parsed.event);
+    } catch (error) {
+      console.error('Error handling server event:', error);
+    }
+  }
+
+  private handleServerEvent(event: ServerEvent): void {
+    if (event.type === 'response.done' && event.response.usage && !this.replaying) {
+      this.usage.recordResponse(event.response.usage);
+    }
+    // Kept out of the transcript: the narrative isn't part of the conversation
+    if (this.handleNarrativeEvent(event)) return;
 
-    const baseUrl = 'https://api.openai.com/v1/realtime';
-    const model = 'gpt-4o-realtime-preview-2024-12-17';
-    
-    const sdpResponse = await fetch(`${baseUrl}?model=${model}`, {
-      method: 'POST',
-      body: offer.sdp,
-      headers: {
-        'Authorization': `Bearer ${OPENAI_API_KEY}`,
-        'Content-Type': 'application/sdp'
+    if (event.type === 'response.created') {
+      this.activeResponseId = event.response.id;
+      this.tutorHasSpoken = true;
+    } else if (event.type === 'response.done' && event.response.id === this.activeResponseId) {
+      this.activeResponseId = null;
+    }
+
+    this.events.emit('server-event', event);
+
+    switch (event.type) {
+      case 'error':
+        this.events.emit('error', event.error.message);
+        break;
+      case 'response.audio.delta':
+        this.tutorPlayback.audioReceived(event.item_id, event.content_index, event.delta);
+        this.session.transport?.receiveAudio(event.delta);
+        break;
+      case 'response.audio_transcript.delta':
+        if (!this.session.transport?.playsAudioLocally) {
+          this.tutorPlayback.transcriptReceived(event.item_id, event.content_index);
+        }
+        break;
+      case 'output_audio_buffer.stopped':
+        this.tutorPlayback.playbackStopped();
+        break;
+      case 'input_audio_buffer.speech_started':
+        this.levelMeter.setServerDetectsSpeech(true);
+        if (this.tutorProfile.allowInterruptions) {
+          this.interruptTutor();
+        }
+        break;
+      case 'input_audio_buffer.speech_stopped':
+        this.levelMeter.setServerDetectsSpeech(false);
+        break;
+      case 'response.output_item.added':
+        if (event.item.type === 'function_call') {
+          this.functionCallNames.set(event.item.call_id, event.item.name);
+        }
+        break;
+      case 'response.function_call_arguments.done':
+        this.handleFunctionCall(event.response_id, event.call_id, event.name, event.arguments);
+        break;
+      case 'response.done':
+        if (this.budgetHangUp) {
+          // The tutor has finished speaking its last answer
+          clearTimeout(this.budgetHangUp);
+          this.budgetHangUp = setTimeout(() => this.disconnect(), 0);
+          break;
+        }
+        // Let the tutor carry on speaking once its tool calls have been answered
+        if (this.responsesAwaitingFollowUp.delete(event.response.id) && event.response.status === 'completed') {
+          this.createResponse();
+        }
+        break;
+      case 'rate_limits.updated':
+        if (!this.replaying) {
+          this.usage.recordRateLimits(event.rate_limits);
+        }
+        break;
+    }
+  }
+
+  private handleNarrativeEvent(event: ServerEvent): boolean {
+    const pending = this.pendingNarrative;
+    if (!pending) return false;
+
+    if (event.type === 'response.created' && event.response.metadata?.purpose === NARRATIVE_PURPOSE) {
+      pending.responseId = event.response.id;
+      return true;
+    }
+    const responseId = 'response_id' in event ? event.response_id
+      : event.type === 'response.done' ? event.response.id
+        : null;
+    if (!pending.responseId || responseId !== pending.responseId) return false;
+
+    if (event.type === 'response.done') {
+      pending.finish(event.response.status === 'completed' ? parseSessionNarrative(responseText(event.response)) : null);
+    }
+    return true;
+  }
+
+  // Stop the conversation and have the tutor write up the session, before hanging up.
+  // Resolves to null when there is no call, the model fails or takes too long
+  requestSessionNarrative(): Promise<SessionNarrative | null> {
+    if (!this.isConnected || this.pendingNarrative) return Promise.resolve(null);
+
+    this.stopStreaming();
+    this.interruptTutor();
+    return new Promise(resolve => {
+      const finish = (narrative: SessionNarrative | null) => {
+        clearTimeout(timer);
+        this.pendingNarrative = null;
+        resolve(narrative);
+      };
+      const timer = setTimeout(() => finish(null), NARRATIVE_TIMEOUT_MS);
+      this.pendingNarrative = { responseId: null, finish };
+
+      const sent = this.createResponse({
+        conversation: 'none',
+        modalities: ['text'],
+        instructions: SESSION_NARRATIVE_INSTRUCTIONS,
+        tools: [],
+        metadata: { purpose: NARRATIVE_PURPOSE },
+      });
+      if (!sent) finish(null);
+    });
+  }
+
+  private handleFunctionCall(responseId: string, callId: string, name: string | undefined, rawArguments: string): void {
+    const toolName = name ?? this.functionCallNames.get(callId) ?? '';
+    this.functionCallNames.delete(callId);
+
+    const result = handleTutorToolCall(toolName, rawArguments, this.scenario?.scenario ?? null);
+    if (!result.effect) {
+      console.warn(`Tool call ${toolName} was rejected:`, result.output);
+    }
+
+    this.sendEvent({
+      type: 'conversation.item.create',
+      item: {
+        type: 'function_call_output',
+        call_id: callId,
+        output: JSON.stringify(result.output),
       },
     });
+    this.responsesAwaitingFollowUp.add(responseId);
+
+    if (result.effect) {
+      this.applyScenarioEffect(result.effect);
+      this.events.emit('tool-effect', result.effect);
+    }
+  }
+
+  private applyScenarioEffect(effect: TutorToolEffect): void {
+    if (!this.scenario || this.scenario.result) return;
+    if (effect.kind === 'scenario-goal') {
+      this.updateScenario(completeScenarioGoal(this.scenario, effect.goalId, effect.evidence));
+    } else if (effect.kind === 'scenario-finished') {
+      this.updateScenario({ ...this.scenario, result: { passed: effect.passed, summary: effect.summary } });
+    }
+  }
+
+  private updateScenario(scenario: ScenarioProgress | null): void {
+    if (scenario === this.scenario) return;
+    this.scenario = scenario;
+    this.events.emit('scenario', scenario);
+  }
 
-    if (!sdpResponse.ok) {
-      const errorText = await sdpResponse.text();
-      throw new Error(`Failed to establish WebRTC connection: ${errorText}`);
+  get scenarioProgress(): ScenarioProgress | null {
+    return this.scenario;
+  }
+
+  // Ask the tutor to assess the role-play now; without a call, the checklist decides
+  finishScenario(): void {
+    if (!this.scenario || this.scenario.result) return;
+    if (!this.isConnected) {
+      this.updateScenario({ ...this.scenario, result: assessScenarioLocally(this.scenario) });
+      return;
+    }
+    this.interruptTutor();
+    this.createResponse({ tool_choice: { type: 'function', name: 'finish_scenario' } });
+  }
+
+  // Back to free conversation; a running call carries on without the role-play
+  leaveScenario(): void {
+    if (!this.scenario) return;
+    this.updateScenario(null);
+    if (this.session.transport?.isOpen) {
+      this.updateSession(this.buildSessionConfig());
+    }
+  }
+
+  private reportDiagnostic(diagnostic: RealtimeDiagnostic): void {
+    console.warn(`Realtime protocol diagnostic (${diagnostic.kind}): ${diagnostic.message}`);
+    this.events.emit('diagnostic', diagnostic);
+  }
+
+  // Subscribe to events from this service instance; returns an unsubscribe function
+  on<K extends keyof AudioServiceEvents>(event: K, listener: (payload: AudioServiceEvents[K]) => void): () => void {
+    return this.events.on(event, listener);
+  }
+
+  private sendEvent(event: ClientEvent): boolean {
+    if (!this.session.transport) {
+      console.warn(`Not connected, can't send ${event.type}`);
+      return false;
+    }
+    const sent = this.session.transport.send(event);
+    if (sent) {
+      this.events.emit('traffic', { direction: 'client', at: Date.now(), data: JSON.stringify(event) });
+    }
+    return sent;
+  }
+
+  updateSession(session: Partial<SessionConfig>): boolean {
+    return this.sendEvent({ type: 'session.update', session });
+  }
+
+  createResponse(response?: ResponseConfig): boolean {
+    return this.sendEvent({ type: 'response.create', response });
+  }
+
+  cancelResponse(responseId?: string): boolean {
+    return this.sendEvent({ type: 'response.cancel', response_id: responseId });
+  }
+
+  // Stop the tutor mid-sentence: cancel what is still being generated, drop what is queued for playback
+  // and cut the answer down to what the learner actually heard, so the model doesn't assume the rest was said
+  private interruptTutor(): void {
+    if (this.activeResponseId) {
+      this.cancelResponse(this.activeResponseId);
     }
+    const heard = this.tutorPlayback.heard();
+    this.tutorPlayback.reset();
+    if (!heard) return;
 
-    const answer = {
-      type: 'answer' as RTCSdpType,
-      sdp: await sdpResponse.text()
+    this.session.transport?.clearPlayback();
+    this.sendEvent({
+      type: 'conversation.item.truncate',
+      item_id: heard.itemId,
+      content_index: heard.contentIndex,
+      audio_end_ms: heard.audioEndMs,
+    });
+  }
+
+  // Everything the client configures on each new upstream session
+  private buildSessionConfig(): Partial<SessionConfig> {
+    const tutorConfig = toSessionConfig(this.tutorProfile, { includeVoice: !this.tutorHasSpoken });
+    const instructions = [tutorConfig.instructions];
+    if (this.learnerInstructions) {
+      instructions.push(this.learnerInstructions);
+    }
+    instructions.push(TUTOR_TOOL_INSTRUCTIONS);
+    if (this.scenario) {
+      instructions.push(compileScenarioInstructions(this.scenario.scenario));
+    }
+    return {
+      ...tutorConfig,
+      instructions: instructions.join('\n'),
+      tools: this.scenario ? [...TUTOR_TOOLS, ...SCENARIO_TOOLS] : TUTOR_TOOLS,
+      tool_choice: 'auto',
+      turn_detection: toSessionTurnDetection(this.turnDetection),
     };
-    
-    await this.session.peerConnection.setRemoteDescription(answer);
   }
 
-  private handleDataChannelMessage(event: MessageEvent): void {
-    try {
-      const data = JSON.parse(event.data);
-      switch (data.type) {
-        case 'text':
-          window.dispatchEvent(new CustomEvent('ai-message', { detail: data.text }));
-          break;
-        case 'transcription':
-          window.dispatchEvent(new CustomEvent('transcription', { detail: data.text }));
-          break;
-        case 'error':
-          window.dispatchEvent(new CustomEvent('call-error', { detail: data.error }));
-          break;
-        default:
-          console.log('Received event:', data);
-      }
-    } catch (error) {
-      console.error('Error handling data channel message:', error);
+  // Recompile the tutor instructions; applies immediately when a call is running
+  setTutorProfile(profile: TutorProfile): void {
+    this.tutorProfile = profile;
+
+    if (this.session.transport?.isOpen) {
+      this.updateSession(this.buildSessionConfig());
+    }
+  }
+
+  // Tell the tutor about the learner; like the tutor profile, applies immediately when a call is running
+  setLearner(profile: LearnerProfile, progress: ProgressSummary | null): void {
+    const instructions = compileLearnerInstructions(profile, progress);
+    if (instructions === this.learnerInstructions) return;
+    this.learnerInstructions = instructions;
+
+    if (this.session.transport?.isOpen) {
+      this.updateSession(this.buildSessionConfig());
+    }
+  }
+
+  // Switch turn detection mid-session; only the session config changes, the peer connection stays up
+  setTurnDetection(settings: TurnDetectionSettings): void {
+    this.turnDetection = settings;
+    this.talkStartedAt = null;
+
+    if (this.session.transport?.isOpen) {
+      // Drop any half-captured audio so it isn't committed under the new mode
+      this.sendEvent({ type: 'input_audio_buffer.clear' });
+      this.updateSession({ turn_detection: toSessionTurnDetection(settings) });
+    }
+    this.applyMicState();
+  }
+
+  // Push-to-talk: open the mic while the button is held
+  startTalking(): void {
+    if (this.turnDetection.mode !== 'push-to-talk') {
+      throw new Error('Push-to-talk is not enabled');
+    }
+    if (!this.isConnected) {
+      throw new Error('Session not initialized');
+    }
+    if (this.budgetHangUp) {
+      throw new Error('The call is ending');
+    }
+
+    // Pressing talk is a deliberate interruption, whatever the profile says about barge-in
+    this.interruptTutor();
+    this.sendEvent({ type: 'input_audio_buffer.clear' });
+    this.talkStartedAt = Date.now();
+    this.applyMicState();
+  }
+
+  // Push-to-talk: close the mic and hand the captured turn to the model
+  stopTalking(): void {
+    if (this.talkStartedAt === null) return;
+
+    const heldFor = Date.now() - this.talkStartedAt;
+    this.talkStartedAt = null;
+    this.applyMicState();
+
+    if (heldFor < MIN_PUSH_TO_TALK_MS || this.audioControls.micMuted) {
+      this.sendEvent({ type: 'input_audio_buffer.clear' });
+      return;
+    }
+
+    this.sendEvent({ type: 'input_audio_buffer.commit' });
+    this.createResponse();
+  }
+
+  setMicMuted(muted: boolean): void {
+    this.updateAudioControls({ micMuted: muted });
+    // Toggling track.enabled sends silence without renegotiating
+    this.applyMicState();
+  }
+
+  setOutputMuted(muted: boolean): void {
+    this.updateAudioControls({ outputMuted: muted });
+    this.applyOutputState();
+  }
+
+  setVolume(volume: number): void {
+    this.updateAudioControls({ volume: Math.min(1, Math.max(0, volume)) });
+    this.applyOutputState();
+  }
+
+  private updateAudioControls(changes: Partial<AudioControls>): void {
+    this.audioControls = { ...this.audioControls, ...changes };
+    this.events.emit('audio-controls', this.audioControls);
+  }
+
+  private applyOutputState(): void {
+    this.session.transport?.setOutput(this.audioControls.outputMuted, this.audioControls.volume);
+  }
+
+  // The mic track only carries audio when streaming and unmuted, and in push-to-talk only while held
+  private get micCarriesAudio(): boolean {
+    return this.isStreaming
+      && !this.audioControls.micMuted
+      && (this.turnDetection.mode === 'server-vad' || this.talkStartedAt !== null);
+  }
+
+  private applyMicState(): void {
+    const enabled = this.micCarriesAudio;
+
+    this.session.stream?.getAudioTracks().forEach(track => {
+      track.enabled = enabled;
+    });
+    this.session.transport?.setInputEnabled(enabled);
+    this.levelMeter.setInputLive(enabled);
+    // Only what the tutor could hear is recorded
+    this.recorder?.setPaused('learner', 'mic-off', !enabled);
+  }
+
+  // Can be switched mid-call; turning it off finalizes what was recorded so far
+  setRecordingEnabled(enabled: boolean): void {
+    this.recordingEnabled = enabled;
+    if (enabled && !this.recorder && this.session.stream) {
+      this.startRecording();
+    } else if (!enabled) {
+      this.finishRecording();
     }
   }
 
-  private sendEvent(event: any): void {
-    if (this.session.dataChannel?.readyState === 'open') {
-      this.session.dataChannel.send(JSON.stringify(event));
-    } else {
-      console.warn('Data channel not ready to send events');
+  private startRecording(): void {
+    if (!SessionRecorder.isSupported()) {
+      console.warn('Recording is not supported on this platform');
+      return;
     }
+    const recorder = new SessionRecorder();
+    recorder.setStream('learner', this.session.stream);
+    recorder.setStream('tutor', this.session.remoteStream);
+    recorder.setPaused('learner', 'mic-off', !this.micCarriesAudio);
+    recorder.setPaused('learner', 'reconnecting', this.connection.is('reconnecting'));
+    recorder.setPaused('tutor', 'reconnecting', this.connection.is('reconnecting'));
+    recorder.start();
+    this.recorder = recorder;
+  }
+
+  private finishRecording(): void {
+    const recorder = this.recorder;
+    if (!recorder) return;
+    this.recorder = null;
+
+    recorder.stop()
+      .then(segments => {
+        if (segments.length > 0) {
+          this.events.emit('recording', segments);
+        }
+      })
+      .catch(error => {
+        console.error('Failed to finalize recording:', error);
+      });
   }
 
   startStreaming(): void {
     if (!this.session.isInitialized) {
       throw new Error('Session not initialized');
     }
-    if (!this.session.stream || !this.session.peerConnection) {
-      throw new Error('Audio stream or peer connection not available');
+    if (this.budgetHangUp) {
+      throw new Error('The call is ending');
     }
+    if (!this.session.transport) {
+      throw new Error('Connection not available');
+    }
+    this.isStreaming = true;
+    this.applyMicState();
     console.log('Audio streaming active');
   }
 
+  get isTextOnly(): boolean {
+    return this.textOnly;
+  }
+
+  // A typed learner turn, answered like a spoken one; works in voice calls too
+  sendText(text: string): void {
+    const trimmed = text.trim();
+    if (!trimmed) return;
+    if (!this.isConnected) {
+      throw new Error('Session not initialized');
+    }
+    if (this.budgetHangUp) {
+      throw new Error('The call is ending');
+    }
+
+    this.interruptTutor();
+    this.sendEvent({
+      type: 'conversation.item.create',
+      item: {
+        type: 'message',
+        role: 'user',
+        content: [{ type: 'input_text', text: trimmed }],
+      },
+    });
+    this.createResponse();
+  }
+
+  // Pause outgoing audio without releasing the mic or the connection
   stopStreaming(): void {
+    this.isStreaming = false;
+    this.talkStartedAt = null;
+    this.applyMicState();
+  }
+
+  // Stop both directions until the learner resumes; the connection itself stays up
+  interruptAudio(reason: string): void {
+    if (!this.session.transport) return;
+
+    this.interruptTutor();
+    this.stopStreaming();
+    this.events.emit('interruption', reason);
+  }
+
+  private releaseMediaStream(): void {
     if (this.session.stream) {
       this.session.stream.getTracks().forEach(track => track.stop());
       this.session.stream = null;
     }
-    this.session.isInitialized = false;
   }
 
-  private cleanupSession(): void {
-    this.stopStreaming();
-    
-    if (this.session.dataChannel) {
-      this.session.dataChannel.close();
-    }
-
-    if (this.session.peerConnection) {
-      this.session.peerConnection.close();
+  private closeTransport(): void {
+    this.pendingNarrative?.finish(null);
+    this.activeResponseId = null;
+    this.tutorPlayback.reset();
+    this.functionCallNames.clear();
+    this.responsesAwaitingFollowUp.clear();
+    if (this.session.transport) {
+      this.session.transport.close();
+      this.session.transport = null;
     }
+    this.session.remoteStream = null;
+  }
 
-    if (this.session.audioElement) {
-      this.session.audioElement.srcObject = null;
-    }
+  private cleanupSession(): void {
+    // Stop recording before the tracks it records from are released
+    this.finishRecording();
+    this.levelMeter.stop();
+    this.stopStreaming();
+    this.releaseMediaStream();
+    this.closeTransport();
+    this.replaying = false;
 
     this.session = {
-      peerConnection: null,
-      dataChannel: null,
+      transport: null,
       stream: null,
-      audioElement: null,
+      remoteStream: null,
       isInitialized: false,
-      retryCount: 0,
-      maxRetries: 3
     };
   }
 
   disconnect(): void {
+    if (this.budgetHangUp) {
+      clearTimeout(this.budgetHangUp);
+      this.budgetHangUp = null;
+    }
+    // Hanging up mid-scenario still ends it with a summary
+    if (this.session.transport && this.scenario && !this.scenario.result) {
+      this.updateScenario({ ...this.scenario, result: assessScenarioLocally(this.scenario) });
+    }
     this.cleanupSession();
+    if (this.connection.phase !== 'closed' && this.connection.phase !== 'idle') {
+      this.connection.transition('closed');
+    }
   }
 }
 
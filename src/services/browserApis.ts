@@ -0,0 +1,15 @@
+// The browser APIs a call depends on, in one place so tests can swap them for fakes and run without a network
+export interface BrowserApis {
+  fetch(input: string, init?: RequestInit): Promise<Response>;
+  createPeerConnection(configuration: RTCConfiguration): RTCPeerConnection;
+  createAudioElement(): HTMLAudioElement;
+  createWebSocket(url: string, protocols: string[]): WebSocket;
+}
+
+export const browserApis: BrowserApis = {
+  // Wrapped, since fetch throws when it's called as a method of another object
+  fetch: (input, init) => fetch(input, init),
+  createPeerConnection: configuration => new RTCPeerConnection(configuration),
+  createAudioElement: () => document.createElement('audio'),
+  createWebSocket: (url, protocols) => new WebSocket(url, protocols),
+};
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { rateConnection, readConnectionStats } from './connectionQuality';
+
+function statsReport(...stats: Array<{ id: string; type: string } & Record<string, unknown>>): RTCStatsReport {
+  return new Map(stats.map(stat => [stat.id, stat])) as unknown as RTCStatsReport;
+}
+
+describe('readConnectionStats', () => {
+  it('reads round trip, jitter and level, and loss since the last sample', () => {
+    const first = readConnectionStats(statsReport(
+      { id: 'in', type: 'inbound-rtp', kind: 'audio', packetsReceived: 1000, packetsLost: 10, jitter: 0.012, audioLevel: 0.4 },
+      { id: 'pair', type: 'candidate-pair', state: 'succeeded', nominated: true, currentRoundTripTime: 0.085 },
+    ), null);
+    expect(first.stats).toEqual({ roundTripTimeMs: 85, jitterMs: 12, packetLoss: null, audioLevel: 0.4 });
+
+    const second = readConnectionStats(statsReport(
+      { id: 'in', type: 'inbound-rtp', kind: 'audio', packetsReceived: 1090, packetsLost: 20, jitter: 0.012 },
+    ), first.counters);
+    expect(second.stats.packetLoss).toBeCloseTo(0.1);
+  });
+
+  it('counts loss on the way up, and falls back to the RTCP round trip', () => {
+    const { stats } = readConnectionStats(statsReport(
+      { id: 'remote', type: 'remote-inbound-rtp', kind: 'audio', fractionLost: 0.05, roundTripTime: 0.4 },
+    ), null);
+
+    expect(stats).toEqual({ roundTripTimeMs: 400, jitterMs: null, packetLoss: 0.05, audioLevel: null });
+  });
+});
+
+describe('rateConnection', () => {
+  it('lets the worst metric decide', () => {
+    const base = { roundTripTimeMs: 80, jitterMs: 10, packetLoss: 0, audioLevel: null };
+
+    expect(rateConnection(base)).toBe('good');
+    expect(rateConnection({ ...base, jitterMs: 40 })).toBe('fair');
+    expect(rateConnection({ ...base, jitterMs: 40, packetLoss: 0.12 })).toBe('poor');
+    expect(rateConnection({ roundTripTimeMs: null, jitterMs: null, packetLoss: null, audioLevel: null })).toBe('good');
+  });
+});
@@ -0,0 +1,197 @@
+export type QualityRating = 'good' | 'fair' | 'poor';
+
+export interface ConnectionStats {
+  // null until the transport has measured it
+  roundTripTimeMs: number | null;
+  jitterMs: number | null;
+  // Share of tutor audio packets lost since the last sample, or lost upstream, whichever is worse; 0..1
+  packetLoss: number | null;
+  // Level of the tutor audio as received, 0..1
+  audioLevel: number | null;
+}
+
+export interface ConnectionQuality {
+  rating: QualityRating;
+  stats: ConnectionStats;
+  // Poor without a break for SUSTAINED_POOR_MS: time to do something about it
+  persistentlyPoor: boolean;
+}
+
+// Where the ratings change; the worst metric decides
+export const QUALITY_THRESHOLDS: Record<'roundTripTimeMs' | 'jitterMs' | 'packetLoss', { fair: number; poor: number }> = {
+  roundTripTimeMs: { fair: 300, poor: 700 },
+  jitterMs: { fair: 30, poor: 75 },
+  packetLoss: { fair: 0.02, poor: 0.08 },
+};
+
+export const QUALITY_POLL_INTERVAL_MS = 2_000;
+// A single bad sample is a blip; this long is a bad network
+export const SUSTAINED_POOR_MS = 10_000;
+
+// Anything that can report WebRTC stats; transports without them aren't monitored
+export interface StatsSource {
+  getStats?(): Promise<RTCStatsReport>;
+}
+
+// Cumulative packet counters, to turn into loss over the last interval
+interface PacketCounters {
+  received: number;
+  lost: number;
+}
+
+type StatsRecord = Record<string, unknown>;
+
+function numberField(stat: StatsRecord, key: string): number | null {
+  const value = stat[key];
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+function isAudio(stat: StatsRecord): boolean {
+  return stat.kind === 'audio' || stat.mediaType === 'audio';
+}
+
+export function readConnectionStats(
+  report: RTCStatsReport,
+  previous: PacketCounters | null
+): { stats: ConnectionStats; counters: PacketCounters | null } {
+  let inbound: StatsRecord | null = null;
+  let remoteInbound: StatsRecord | null = null;
+  let candidatePairRtt: number | null = null;
+
+  for (const value of report.values()) {
+    const stat = value as StatsRecord;
+    if (stat.type === 'inbound-rtp' && isAudio(stat)) {
+      inbound = stat;
+    } else if (stat.type === 'remote-inbound-rtp' && isAudio(stat)) {
+      remoteInbound = stat;
+    } else if (stat.type === 'candidate-pair' && stat.state === 'succeeded' && stat.nominated) {
+      const rtt = numberField(stat, 'currentRoundTripTime');
+      if (rtt !== null) candidatePairRtt = rtt;
+    }
+  }
+
+  const received = inbound ? numberField(inbound, 'packetsReceived') : null;
+  const lost = inbound ? numberField(inbound, 'packetsLost') : null;
+  const counters = received !== null && lost !== null ? { received, lost } : null;
+
+  let downstreamLoss: number | null = null;
+  if (counters && previous) {
+    const receivedSince = counters.received - previous.received;
+    const lostSince = Math.max(0, counters.lost - previous.lost);
+    downstreamLoss = receivedSince + lostSince > 0 ? lostSince / (receivedSince + lostSince) : 0;
+  }
+  const upstreamLoss = remoteInbound ? numberField(remoteInbound, 'fractionLost') : null;
+  const packetLoss = downstreamLoss === null && upstreamLoss === null
+    ? null
+    : Math.max(downstreamLoss ?? 0, upstreamLoss ?? 0);
+
+  const rtt = candidatePairRtt ?? (remoteInbound ? numberField(remoteInbound, 'roundTripTime') : null);
+  const jitter = inbound ? numberField(inbound, 'jitter') : null;
+
+  return {
+    stats: {
+      roundTripTimeMs: rtt === null ? null : Math.round(rtt * 1000),
+      jitterMs: jitter === null ? null : Math.round(jitter * 1000),
+      packetLoss,
+      audioLevel: inbound ? numberField(inbound, 'audioLevel') : null,
+    },
+    counters,
+  };
+}
+
+function rateMetric(value: number | null, { fair, poor }: { fair: number; poor: number }): QualityRating {
+  if (value === null || value < fair) return 'good';
+  return value < poor ? 'fair' : 'poor';
+}
+
+const RATING_ORDER: QualityRating[] = ['good', 'fair', 'poor'];
+
+export function rateConnection(stats: ConnectionStats): QualityRating {
+  const ratings = [
+    rateMetric(stats.roundTripTimeMs, QUALITY_THRESHOLDS.roundTripTimeMs),
+    rateMetric(stats.jitterMs, QUALITY_THRESHOLDS.jitterMs),
+    rateMetric(stats.packetLoss, QUALITY_THRESHOLDS.packetLoss),
+  ];
+  return RATING_ORDER[Math.max(...ratings.map(rating => RATING_ORDER.indexOf(rating)))];
+}
+
+// One line per metric, for tooltips and support logs
+export function describeConnectionStats(stats: ConnectionStats): string {
+  const parts: string[] = [];
+  if (stats.roundTripTimeMs !== null) parts.push(`round trip ${stats.roundTripTimeMs} ms`);
+  if (stats.jitterMs !== null) parts.push(`jitter ${stats.jitterMs} ms`);
+  if (stats.packetLoss !== null) parts.push(`packet loss ${(stats.packetLoss * 100).toFixed(1)}%`);
+  return parts.length > 0 ? parts.join(', ') : 'No measurements yet';
+}
+
+// Polls a transport's stats while a call is up and rates them; reports null when there is nothing to rate
+export class ConnectionQualityMonitor {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private source: StatsSource | null = null;
+  private counters: PacketCounters | null = null;
+  private poorSince: number | null = null;
+  private current: ConnectionQuality | null = null;
+
+  constructor(
+    private readonly onChange: (quality: ConnectionQuality | null) => void,
+    private readonly now: () => number = Date.now,
+    private readonly intervalMs = QUALITY_POLL_INTERVAL_MS
+  ) {}
+
+  get quality(): ConnectionQuality | null {
+    return this.current;
+  }
+
+  // Follow another transport, or none; the history of the previous one is dropped
+  watch(source: StatsSource | null): void {
+    if (source === this.source) return;
+    this.stop();
+    if (!source?.getStats) return;
+
+    this.source = source;
+    this.timer = setInterval(() => {
+      void this.sample(source);
+    }, this.intervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.source = null;
+    this.counters = null;
+    this.poorSince = null;
+    this.update(null);
+  }
+
+  private async sample(source: StatsSource): Promise<void> {
+    if (!source.getStats) return;
+    let report: RTCStatsReport;
+    try {
+      report = await source.getStats();
+    } catch (error) {
+      console.warn('Failed to read connection stats:', error);
+      return;
+    }
+    // The call may have ended or moved on while the stats were being collected
+    if (source !== this.source) return;
+
+    const { stats, counters } = readConnectionStats(report, this.counters);
+    this.counters = counters;
+    const rating = rateConnection(stats);
+    const now = this.now();
+    this.poorSince = rating === 'poor' ? this.poorSince ?? now : null;
+    this.update({
+      rating,
+      stats,
+      persistentlyPoor: this.poorSince !== null && now - this.poorSince >= SUSTAINED_POOR_MS,
+    });
+  }
+
+  private update(quality: ConnectionQuality | null): void {
+    if (quality === null && this.current === null) return;
+    this.current = quality;
+    this.onChange(quality);
+  }
+}
@@ -0,0 +1,117 @@
+export type ConnectionPhase =
+  | 'idle'
+  | 'acquiring-mic'
+  | 'negotiating'
+  | 'connected'
+  | 'reconnecting'
+  | 'failed'
+  | 'closed';
+
+export interface ConnectionSnapshot {
+  phase: ConnectionPhase;
+  // Reconnection attempt currently in progress (0 when not reconnecting)
+  attempt: number;
+  lastFailureReason: string | null;
+  // When the next reconnection attempt is scheduled, if any
+  nextRetryAt: number | null;
+}
+
+export interface BackoffOptions {
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // Fraction of the delay that is randomized, 0..1
+  jitter: number;
+}
+
+export const DEFAULT_BACKOFF: BackoffOptions = {
+  baseDelayMs: 500,
+  maxDelayMs: 10_000,
+  jitter: 0.3,
+};
+
+const TRANSITIONS: Record<ConnectionPhase, ConnectionPhase[]> = {
+  'idle': ['acquiring-mic', 'closed'],
+  'acquiring-mic': ['negotiating', 'failed', 'closed'],
+  'negotiating': ['connected', 'reconnecting', 'failed', 'closed'],
+  'connected': ['reconnecting', 'failed', 'closed'],
+  // Reconnection renegotiates in place, or an ICE restart brings us straight back
+  'reconnecting': ['reconnecting', 'connected', 'failed', 'closed'],
+  'failed': ['acquiring-mic', 'closed'],
+  'closed': ['acquiring-mic', 'idle'],
+};
+
+// Exponential backoff: base * 2^(attempt - 1), capped, with +/- jitter around the result
+export function computeBackoffDelay(
+  attempt: number,
+  options: BackoffOptions = DEFAULT_BACKOFF,
+  random: () => number = Math.random
+): number {
+  const exponential = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** Math.max(0, attempt - 1));
+  const spread = exponential * options.jitter;
+  return Math.round(exponential - spread + random() * spread * 2);
+}
+
+export function canTransition(from: ConnectionPhase, to: ConnectionPhase): boolean {
+  return TRANSITIONS[from].includes(to);
+}
+
+// Human-readable status line for the header
+export function describeConnection(snapshot: Pick<ConnectionSnapshot, 'phase' | 'attempt' | 'lastFailureReason'>): string {
+  switch (snapshot.phase) {
+    case 'idle':
+    case 'closed':
+      return 'Ready to connect';
+    case 'acquiring-mic':
+      return 'Starting microphone…';
+    case 'negotiating':
+      return 'Connecting…';
+    case 'connected':
+      return 'Connected';
+    case 'reconnecting':
+      return `Reconnecting (attempt ${snapshot.attempt})…`;
+    case 'failed':
+      return snapshot.lastFailureReason ? `Connection failed: ${snapshot.lastFailureReason}` : 'Connection failed';
+  }
+}
+
+export class ConnectionStateMachine {
+  private state: ConnectionSnapshot = {
+    phase: 'idle',
+    attempt: 0,
+    lastFailureReason: null,
+    nextRetryAt: null,
+  };
+
+  constructor(private readonly onChange: (snapshot: ConnectionSnapshot) => void) {}
+
+  get snapshot(): ConnectionSnapshot {
+    return this.state;
+  }
+
+  get phase(): ConnectionPhase {
+    return this.state.phase;
+  }
+
+  // Method form of a phase check, so TypeScript doesn't narrow it across awaits
+  is(phase: ConnectionPhase): boolean {
+    return this.state.phase === phase;
+  }
+
+  transition(phase: ConnectionPhase, changes: Partial<Omit<ConnectionSnapshot, 'phase'>> = {}): boolean {
+    if (!canTransition(this.state.phase, phase)) {
+      console.warn(`Ignoring invalid connection transition ${this.state.phase} -> ${phase}`);
+      return false;
+    }
+
+    this.state = {
+      ...this.state,
+      // Attempts only count while reconnecting; a fresh connection starts from zero
+      attempt: phase === 'reconnecting' ? this.state.attempt : 0,
+      nextRetryAt: null,
+      ...changes,
+      phase,
+    };
+    this.onChange(this.state);
+    return true;
+  }
+}
@@ -0,0 +1,297 @@
+import { ContentPart, ConversationItem, NewConversationItem, ServerEvent } from './realtimeEvents';
+import { Correction, TutorToolEffect, VocabularyItem } from './tutorTools';
+import { pcm16DurationMs } from './pcmAudio';
+
+export type TurnRole = 'user' | 'assistant';
+export type TurnStatus = 'in-progress' | 'final' | 'failed';
+
+export interface ConversationTurn {
+  // Conversation item id assigned by the Realtime API
+  id: string;
+  role: TurnRole;
+  text: string;
+  status: TurnStatus;
+  source: 'audio' | 'text';
+  startedAt: number;
+  updatedAt: number;
+  // Structured feedback reported by the tutor through tool calls
+  corrections: Correction[];
+  vocabulary: VocabularyItem[];
+  // The learner spoke over the tutor and cut this turn short
+  interrupted: boolean;
+  // How long the turn was spoken for; null for typed turns or where the timing is unknown
+  audioMs: number | null;
+}
+
+function textFromContent(content: ContentPart[]): { text: string; source: ConversationTurn['source'] } {
+  let text = '';
+  let source: ConversationTurn['source'] = 'audio';
+  for (const part of content) {
+    if (part.type === 'input_text' || part.type === 'text') {
+      text += part.text;
+      source = 'text';
+    } else if (part.transcript) {
+      text += part.transcript;
+    }
+  }
+  return { text, source };
+}
+
+// The finished turns as conversation items, to carry a conversation over into a new upstream session.
+// They keep their ids, so a store that already has the turns doesn't add them again
+export function turnsToItems(turns: ConversationTurn[]): NewConversationItem[] {
+  return turns
+    .filter(turn => turn.status === 'final' && turn.text.trim())
+    .map(turn => ({
+      id: turn.id,
+      type: 'message',
+      role: turn.role,
+      content: [turn.role === 'user' ? { type: 'input_text', text: turn.text } : { type: 'text', text: turn.text }],
+    }));
+}
+
+// Assembles streaming Realtime events into an ordered list of conversation turns.
+// Works as an external store for React's useSyncExternalStore.
+export class ConversationStore {
+  private turns = new Map<string, ConversationTurn>();
+  private order: string[] = [];
+  private snapshot: ConversationTurn[] = [];
+  private listeners = new Set<() => void>();
+  // When the server VAD heard the learner start speaking, by the item id it will create
+  private speechStartedAt = new Map<string, number>();
+  // Speech timing from the server VAD, by item id, until the item itself arrives
+  private speechAudioStartMs = new Map<string, number>();
+  private pendingAudioMs = new Map<string, number>();
+  // Tutor audio streamed as media is only timed by its playback, which is reported per response
+  private responseAudioItems = new Map<string, string>();
+  private playbackStartedAt = new Map<string, number>();
+
+  constructor(private readonly now: () => number = Date.now) {}
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getSnapshot = (): ConversationTurn[] => this.snapshot;
+
+  getTurn(itemId: string): ConversationTurn | undefined {
+    return this.turns.get(itemId);
+  }
+
+  reset(): void {
+    this.turns.clear();
+    this.order = [];
+    this.speechStartedAt.clear();
+    this.speechAudioStartMs.clear();
+    this.pendingAudioMs.clear();
+    this.responseAudioItems.clear();
+    this.playbackStartedAt.clear();
+    this.commit();
+  }
+
+  applyServerEvent(event: ServerEvent): void {
+    switch (event.type) {
+      case 'input_audio_buffer.speech_started':
+        this.speechStartedAt.set(event.item_id, this.now());
+        this.speechAudioStartMs.set(event.item_id, event.audio_start_ms);
+        break;
+      case 'input_audio_buffer.speech_stopped': {
+        const startMs = this.speechAudioStartMs.get(event.item_id);
+        this.speechAudioStartMs.delete(event.item_id);
+        if (startMs !== undefined) {
+          this.setAudioMs(event.item_id, event.audio_end_ms - startMs);
+        }
+        break;
+      }
+      case 'response.audio.delta':
+        this.addAudio(event.item_id, pcm16DurationMs(event.delta));
+        break;
+      case 'response.output_item.added':
+        if (event.item.type === 'message') {
+          this.responseAudioItems.set(event.response_id, event.item.id);
+        }
+        break;
+      case 'output_audio_buffer.started':
+        this.playbackStartedAt.set(event.response_id, this.now());
+        break;
+      case 'output_audio_buffer.stopped':
+      case 'output_audio_buffer.cleared': {
+        const startedAt = this.playbackStartedAt.get(event.response_id);
+        const itemId = this.responseAudioItems.get(event.response_id);
+        this.playbackStartedAt.delete(event.response_id);
+        this.responseAudioItems.delete(event.response_id);
+        if (startedAt !== undefined && itemId && this.turns.get(itemId)?.audioMs === null) {
+          this.setAudioMs(itemId, this.now() - startedAt);
+        }
+        break;
+      }
+      case 'conversation.item.created':
+        this.addItem(event.item, event.previous_item_id);
+        break;
+      case 'conversation.item.input_audio_transcription.delta':
+        this.appendText(event.item_id, 'user', event.delta);
+        break;
+      case 'conversation.item.input_audio_transcription.completed':
+        this.finalizeText(event.item_id, 'user', event.transcript);
+        break;
+      case 'conversation.item.input_audio_transcription.failed':
+        this.updateTurn(event.item_id, { status: 'failed' });
+        break;
+      case 'response.text.delta':
+      case 'response.audio_transcript.delta':
+        this.appendText(event.item_id, 'assistant', event.delta);
+        break;
+      case 'response.text.done':
+        this.finalizeText(event.item_id, 'assistant', event.text);
+        break;
+      case 'response.audio_transcript.done':
+        this.finalizeText(event.item_id, 'assistant', event.transcript);
+        break;
+      case 'response.output_item.done':
+        if (event.item.type === 'message' && this.turns.get(event.item.id)?.status === 'in-progress') {
+          this.updateTurn(event.item.id, { status: 'final' });
+        }
+        break;
+      case 'conversation.item.truncated':
+        // Only what the learner heard counts as spoken
+        this.updateTurn(event.item_id, { interrupted: true, audioMs: event.audio_end_ms });
+        break;
+      case 'conversation.item.deleted':
+        this.removeTurn(event.item_id);
+        break;
+    }
+  }
+
+  // Corrections belong to the learner's latest utterance; new words to whatever was said last
+  applyToolEffect(effect: TutorToolEffect): void {
+    if (effect.kind === 'correction') {
+      const turn = this.latestTurn('user');
+      if (!turn) return;
+      this.updateTurn(turn.id, { corrections: [...turn.corrections, effect.correction] });
+    } else if (effect.kind === 'vocabulary') {
+      const turn = this.latestTurn();
+      if (!turn) return;
+      this.updateTurn(turn.id, { vocabulary: [...turn.vocabulary, effect.vocabulary] });
+    }
+  }
+
+  private latestTurn(role?: TurnRole): ConversationTurn | undefined {
+    for (let i = this.order.length - 1; i >= 0; i--) {
+      const turn = this.turns.get(this.order[i])!;
+      if (!role || turn.role === role) return turn;
+    }
+    return undefined;
+  }
+
+  private addItem(item: ConversationItem, previousItemId: string | null): void {
+    if (item.type !== 'message' || item.role === 'system' || this.turns.has(item.id)) {
+      return;
+    }
+
+    const { text, source } = textFromContent(item.content);
+    const timestamp = this.now();
+    // Spoken input is only announced once the learner stops talking
+    const startedAt = this.speechStartedAt.get(item.id) ?? timestamp;
+    this.speechStartedAt.delete(item.id);
+    this.turns.set(item.id, {
+      id: item.id,
+      role: item.role,
+      text,
+      // Typed input is complete on arrival, audio waits for its transcript
+      status: source === 'text' ? 'final' : 'in-progress',
+      source,
+      startedAt,
+      updatedAt: timestamp,
+      corrections: [],
+      vocabulary: [],
+      interrupted: false,
+      audioMs: this.takePendingAudioMs(item.id),
+    });
+
+    const previousIndex = previousItemId ? this.order.indexOf(previousItemId) : -1;
+    if (previousIndex >= 0) {
+      this.order.splice(previousIndex + 1, 0, item.id);
+    } else {
+      this.order.push(item.id);
+    }
+    this.commit();
+  }
+
+  // Deltas can arrive before the item itself has been announced
+  private ensureTurn(itemId: string, role: TurnRole): ConversationTurn {
+    const existing = this.turns.get(itemId);
+    if (existing) return existing;
+
+    const timestamp = this.now();
+    const turn: ConversationTurn = {
+      id: itemId,
+      role,
+      text: '',
+      status: 'in-progress',
+      source: 'audio',
+      startedAt: timestamp,
+      updatedAt: timestamp,
+      corrections: [],
+      vocabulary: [],
+      interrupted: false,
+      audioMs: this.takePendingAudioMs(itemId),
+    };
+    this.turns.set(itemId, turn);
+    this.order.push(itemId);
+    return turn;
+  }
+
+  private takePendingAudioMs(itemId: string): number | null {
+    const audioMs = this.pendingAudioMs.get(itemId) ?? null;
+    this.pendingAudioMs.delete(itemId);
+    return audioMs;
+  }
+
+  // The learner's item is only created once they stop speaking
+  private setAudioMs(itemId: string, audioMs: number): void {
+    if (this.turns.has(itemId)) {
+      this.updateTurn(itemId, { audioMs });
+    } else {
+      this.pendingAudioMs.set(itemId, audioMs);
+    }
+  }
+
+  private addAudio(itemId: string, audioMs: number): void {
+    const turn = this.ensureTurn(itemId, 'assistant');
+    this.turns.set(itemId, { ...turn, audioMs: (turn.audioMs ?? 0) + audioMs });
+    this.commit();
+  }
+
+  private appendText(itemId: string, role: TurnRole, delta: string): void {
+    const turn = this.ensureTurn(itemId, role);
+    this.turns.set(itemId, { ...turn, text: turn.text + delta, updatedAt: this.now() });
+    this.commit();
+  }
+
+  private finalizeText(itemId: string, role: TurnRole, text: string): void {
+    const turn = this.ensureTurn(itemId, role);
+    this.turns.set(itemId, { ...turn, text, status: 'final', updatedAt: this.now() });
+    this.commit();
+  }
+
+  private updateTurn(itemId: string, changes: Partial<ConversationTurn>): void {
+    const turn = this.turns.get(itemId);
+    if (!turn) return;
+    this.turns.set(itemId, { ...turn, ...changes, updatedAt: this.now() });
+    this.commit();
+  }
+
+  private removeTurn(itemId: string): void {
+    if (!this.turns.delete(itemId)) return;
+    this.order = this.order.filter(id => id !== itemId);
+    this.commit();
+  }
+
+  private commit(): void {
+    this.snapshot = this.order.map(id => this.turns.get(id)!);
+    this.listeners.forEach(listener => listener());
+  }
+}
@@ -0,0 +1,33 @@
+type Listener<T> = (payload: T) => void;
+
+// Minimal typed event emitter so each service instance owns its own listeners
+export class TypedEventEmitter<Events extends object> {
+  private listeners = new Map<keyof Events, Set<Listener<never>>>();
+
+  on<K extends keyof Events>(event: K, listener: Listener<Events[K]>): () => void {
+    let listeners = this.listeners.get(event);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(event, listeners);
+    }
+    listeners.add(listener as Listener<never>);
+
+    return () => {
+      listeners.delete(listener as Listener<never>);
+    };
+  }
+
+  emit<K extends keyof Events>(event: K, payload: Events[K]): void {
+    this.listeners.get(event)?.forEach(listener => {
+      try {
+        (listener as Listener<Events[K]>)(payload);
+      } catch (error) {
+        console.error(`Listener for "${String(event)}" failed:`, error);
+      }
+    });
+  }
+
+  removeAllListeners(): void {
+    this.listeners.clear();
+  }
+}
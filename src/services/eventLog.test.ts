@@ -0,0 +1,113 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AudioService } from './audioService';
+import { EventLog, parseEventLog, serializeEventLog } from './eventLog';
+import { ServerEvent } from './realtimeEvents';
+import { FakeRealtimeServer } from '../test/fakeRealtimeServer';
+import { learnerTurn, tutorReply } from '../test/cannedConversations';
+import { createTestService } from '../test/testService';
+
+describe('EventLog', () => {
+  it('keeps the type of each event and drops audio payloads', () => {
+    const log = new EventLog();
+    const audio = 'A'.repeat(4000);
+
+    log.record({ direction: 'server', at: 1, data: JSON.stringify({ type: 'response.audio.delta', delta: audio }) });
+    log.record({ direction: 'server', at: 2, data: '{not json' });
+
+    const [delta, malformed] = log.getSnapshot();
+    expect(delta).toMatchObject({ seq: 1, type: 'response.audio.delta', data: '{"type":"response.audio.delta","delta":""}' });
+    expect(malformed).toMatchObject({ seq: 2, type: null, data: '{not json' });
+  });
+
+  it('forgets the oldest events beyond its limit', () => {
+    const log = new EventLog(2);
+    for (const type of ['session.created', 'session.updated', 'response.created']) {
+      log.record({ direction: 'server', at: 0, data: JSON.stringify({ type }) });
+    }
+
+    expect(log.getSnapshot().map(entry => entry.type)).toEqual(['session.updated', 'response.created']);
+  });
+
+  it('reads back what it saved', () => {
+    const log = new EventLog();
+    log.record({ direction: 'client', at: 10, data: '{"type":"response.create"}' });
+
+    expect(parseEventLog(serializeEventLog(log.toFile(42)))).toEqual(log.toFile(42));
+  });
+
+  it('explains why a file can\'t be loaded', () => {
+    expect(() => parseEventLog('nope')).toThrow('The event log is not valid JSON');
+    expect(() => parseEventLog('{"version":7,"entries":[]}')).toThrow('Unsupported event log version 7');
+    expect(() => parseEventLog('{"version":1,"entries":[{"at":1,"data":"{}"}]}')).toThrow('Event 1 has no direction');
+  });
+});
+
+describe('AudioService replay', () => {
+  let server: FakeRealtimeServer;
+  let services: AudioService[];
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    server = new FakeRealtimeServer();
+    services = [];
+  });
+
+  afterEach(() => {
+    services.forEach(service => service.disconnect());
+  });
+
+  function newService(): AudioService {
+    const service = createTestService(server);
+    services.push(service);
+    return service;
+  }
+
+  it('feeds a recorded call back through a service without a connection', async () => {
+    const recorded = newService();
+    const log = new EventLog();
+    recorded.on('traffic', traffic => log.record(traffic));
+    const liveEvents: ServerEvent[] = [];
+    recorded.on('server-event', event => liveEvents.push(event));
+    await recorded.initializeSession();
+    server.emit(...learnerTurn('item_user', 'I goed to the park.'));
+    server.emit(...tutorReply('resp_1', 'item_tutor', 'You went to the park!'));
+    server.emitRaw('{not json');
+    recorded.disconnect();
+
+    const replayed = newService();
+    const replayedEvents: ServerEvent[] = [];
+    replayed.on('server-event', event => replayedEvents.push(event));
+    const diagnostics = vi.fn();
+    replayed.on('diagnostic', diagnostics);
+    const saved = parseEventLog(serializeEventLog(log.toFile()));
+
+    await replayed.replay(saved, { speed: Infinity });
+
+    expect(replayedEvents).toEqual(liveEvents);
+    expect(diagnostics).toHaveBeenCalledTimes(1);
+    expect(replayed.connectionState.phase).toBe('connected');
+    expect(replayed.isReplaying).toBe(true);
+    // Nothing reached the server, and nothing was spent
+    expect(server.tokensIssued).toBe(1);
+    expect(replayed.usageSnapshot.session.outputAudioTokens).toBe(0);
+  });
+
+  it('stops when hung up', async () => {
+    const log = new EventLog();
+    log.record({ direction: 'server', at: 0, data: JSON.stringify({ type: 'session.created', event_id: 'e1', session: { id: 's' } }) });
+    log.record({ direction: 'server', at: 60_000, data: JSON.stringify({ type: 'session.updated', event_id: 'e2', session: { id: 's' } }) });
+    const service = newService();
+    const received = vi.fn();
+    service.on('server-event', received);
+
+    const replay = service.replay(log.toFile());
+    await vi.waitFor(() => expect(received).toHaveBeenCalledTimes(1));
+    service.disconnect();
+    await replay;
+
+    expect(received).toHaveBeenCalledTimes(1);
+    expect(service.connectionState.phase).toBe('closed');
+    expect(service.isReplaying).toBe(false);
+  });
+});
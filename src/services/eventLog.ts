@@ -0,0 +1,130 @@
+export type EventDirection = 'client' | 'server';
+
+// One event as it crossed the wire, reported by AudioService
+export interface EventTraffic {
+  direction: EventDirection;
+  // Epoch ms
+  at: number;
+  // The JSON as sent or received; server data may be malformed
+  data: string;
+}
+
+export interface EventLogEntry extends EventTraffic {
+  seq: number;
+  // null where the data isn't a JSON event
+  type: string | null;
+}
+
+// A saved log, to read later or replay through AudioService
+export interface EventLogFile {
+  version: number;
+  recordedAt: number;
+  entries: EventLogEntry[];
+}
+
+export const EVENT_LOG_VERSION = 1;
+
+// A long call shouldn't fill the tab's memory; the oldest events go first
+const MAX_ENTRIES = 5000;
+
+// Base64 audio is most of the traffic, and of no use when reading or replaying the log
+const AUDIO_PAYLOAD = /"(delta|audio)":"[A-Za-z0-9+/=]{64,}"/g;
+
+export function elideAudio(data: string): string {
+  return data.replace(AUDIO_PAYLOAD, '"$1":""');
+}
+
+function eventType(data: string): string | null {
+  try {
+    const parsed: unknown = JSON.parse(data);
+    if (typeof parsed === 'object' && parsed !== null && typeof (parsed as { type?: unknown }).type === 'string') {
+      return (parsed as { type: string }).type;
+    }
+  } catch {
+    // Malformed data is logged as it came
+  }
+  return null;
+}
+
+// Everything sent and received during calls, for the developer inspector
+export class EventLog {
+  private entries: EventLogEntry[] = [];
+  private listeners = new Set<() => void>();
+  private nextSeq = 1;
+
+  constructor(private readonly maxEntries = MAX_ENTRIES) {}
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getSnapshot = (): EventLogEntry[] => this.entries;
+
+  record(traffic: EventTraffic): void {
+    const data = elideAudio(traffic.data);
+    const entry: EventLogEntry = { ...traffic, data, seq: this.nextSeq++, type: eventType(data) };
+    const kept = this.entries.length >= this.maxEntries ? this.entries.slice(1 - this.maxEntries) : this.entries;
+    this.entries = [...kept, entry];
+    this.notify();
+  }
+
+  clear(): void {
+    this.entries = [];
+    this.notify();
+  }
+
+  toFile(recordedAt = Date.now()): EventLogFile {
+    return { version: EVENT_LOG_VERSION, recordedAt, entries: this.entries };
+  }
+
+  private notify() {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export function serializeEventLog(log: EventLogFile): string {
+  return JSON.stringify(log, null, 2);
+}
+
+function parseEntry(value: unknown, index: number): EventLogEntry {
+  const entry = (typeof value === 'object' && value !== null ? value : {}) as Record<string, unknown>;
+  if (entry.direction !== 'client' && entry.direction !== 'server') {
+    throw new Error(`Event ${index + 1} has no direction`);
+  }
+  if (typeof entry.at !== 'number' || typeof entry.data !== 'string') {
+    throw new Error(`Event ${index + 1} is missing its time or data`);
+  }
+  return {
+    seq: typeof entry.seq === 'number' ? entry.seq : index + 1,
+    at: entry.at,
+    direction: entry.direction,
+    type: eventType(entry.data),
+    data: entry.data,
+  };
+}
+
+export function parseEventLog(json: string): EventLogFile {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error('The event log is not valid JSON');
+  }
+
+  const log = (typeof parsed === 'object' && parsed !== null ? parsed : {}) as Record<string, unknown>;
+  if (log.version !== EVENT_LOG_VERSION) {
+    throw new Error(`Unsupported event log version ${String(log.version)}`);
+  }
+  if (!Array.isArray(log.entries)) {
+    throw new Error('The event log has no "entries" list');
+  }
+  const entries = log.entries.map(parseEntry);
+  return {
+    version: EVENT_LOG_VERSION,
+    recordedAt: typeof log.recordedAt === 'number' ? log.recordedAt : entries[0]?.at ?? 0,
+    entries,
+  };
+}
@@ -0,0 +1,45 @@
+const DB_NAME = 'english-tutor';
+const DB_VERSION = 2;
+
+export const SESSIONS_STORE = 'sessions';
+export const RECORDINGS_STORE = 'recordings';
+
+let database: Promise<IDBDatabase> | null = null;
+
+export function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Shared connection to the app's IndexedDB database; upgrades create any missing stores
+export function openDatabase(): Promise<IDBDatabase> {
+  if (!database) {
+    database = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SESSIONS_STORE)) {
+          const store = db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+          store.createIndex('startedAt', 'startedAt');
+        }
+        if (!db.objectStoreNames.contains(RECORDINGS_STORE)) {
+          const store = db.createObjectStore(RECORDINGS_STORE, { keyPath: 'id', autoIncrement: true });
+          store.createIndex('sessionId', 'sessionId');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        database = null;
+        reject(new Error(`Failed to open local storage: ${request.error?.message ?? 'Unknown error'}`));
+      };
+    });
+  }
+  return database;
+}
+
+export async function objectStore(name: string, mode: IDBTransactionMode): Promise<IDBObjectStore> {
+  const db = await openDatabase();
+  return db.transaction(name, mode).objectStore(name);
+}
@@ -0,0 +1,57 @@
+import { objectStore, promisifyRequest, RECORDINGS_STORE } from './indexedDb';
+import {
+  RecordingRepository,
+  RecordingRetentionPolicy,
+  RecordingUsage,
+  selectExpiredRecordings,
+} from './recordingRepository';
+import { RecordingSegment } from './sessionRecorder';
+
+interface StoredSegment extends RecordingSegment {
+  id?: number;
+  sessionId: string;
+}
+
+// Web session recordings, stored as blobs next to the session history in IndexedDB
+export class IndexedDbRecordingRepository implements RecordingRepository {
+  async save(sessionId: string, segments: RecordingSegment[]): Promise<void> {
+    if (segments.length === 0) return;
+    const store = await objectStore(RECORDINGS_STORE, 'readwrite');
+    await Promise.all(segments.map(segment => promisifyRequest(store.add({ ...segment, sessionId }))));
+  }
+
+  async get(sessionId: string): Promise<RecordingSegment[]> {
+    const store = await objectStore(RECORDINGS_STORE, 'readonly');
+    const stored = await promisifyRequest<StoredSegment[]>(store.index('sessionId').getAll(sessionId));
+    return stored
+      .map(({ id: _id, sessionId: _sessionId, ...segment }) => segment)
+      .sort((a, b) => a.startedAt - b.startedAt);
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    const store = await objectStore(RECORDINGS_STORE, 'readwrite');
+    const keys = await promisifyRequest(store.index('sessionId').getAllKeys(sessionId));
+    await Promise.all(keys.map(key => promisifyRequest(store.delete(key))));
+  }
+
+  async applyRetention(policy: RecordingRetentionPolicy): Promise<void> {
+    const store = await objectStore(RECORDINGS_STORE, 'readonly');
+    const stored = await promisifyRequest<StoredSegment[]>(store.getAll());
+
+    const usage = new Map<string, RecordingUsage>();
+    for (const segment of stored) {
+      const current = usage.get(segment.sessionId);
+      usage.set(segment.sessionId, {
+        sessionId: segment.sessionId,
+        startedAt: Math.min(current?.startedAt ?? Infinity, segment.startedAt),
+        bytes: (current?.bytes ?? 0) + segment.blob.size,
+      });
+    }
+
+    for (const sessionId of selectExpiredRecordings([...usage.values()], policy)) {
+      await this.delete(sessionId);
+    }
+  }
+}
+
+export const indexedDbRecordingRepository = new IndexedDbRecordingRepository();
@@ -0,0 +1,31 @@
+import { objectStore, promisifyRequest, SESSIONS_STORE } from './indexedDb';
+import { SessionRecord, SessionRepository, SessionSummary, summarizeSession } from './sessionRepository';
+
+// Web session history, stored in IndexedDB
+export class IndexedDbSessionRepository implements SessionRepository {
+  async save(record: SessionRecord): Promise<void> {
+    const store = await objectStore(SESSIONS_STORE, 'readwrite');
+    await promisifyRequest(store.put(record));
+  }
+
+  async get(id: string): Promise<SessionRecord | null> {
+    const store = await objectStore(SESSIONS_STORE, 'readonly');
+    const record = await promisifyRequest<SessionRecord | undefined>(store.get(id));
+    return record ?? null;
+  }
+
+  async list(): Promise<SessionSummary[]> {
+    const store = await objectStore(SESSIONS_STORE, 'readonly');
+    const records = await promisifyRequest<SessionRecord[]>(store.getAll());
+    return records
+      .map(summarizeSession)
+      .sort((a, b) => b.startedAt - a.startedAt);
+  }
+
+  async delete(id: string): Promise<void> {
+    const store = await objectStore(SESSIONS_STORE, 'readwrite');
+    await promisifyRequest(store.delete(id));
+  }
+}
+
+export const indexedDbSessionRepository = new IndexedDbSessionRepository();
@@ -0,0 +1,87 @@
+import { CEFR_LEVELS, CefrLevel, isCefrLevel } from './tutorProfile';
+import { ProgressSummary } from './learnerProgress';
+
+export interface LearnerProfile {
+  // How the tutor addresses the learner; empty to stay anonymous
+  name: string;
+  // Learner's first language, used for occasional clarifications
+  nativeLanguage: string;
+  // What the learner is practising for, in their own words
+  goals: string[];
+  // Self-assessed at first, then the tutor's estimate from the latest session report; null when unknown
+  estimatedLevel: CefrLevel | null;
+}
+
+export const EMPTY_LEARNER_PROFILE: LearnerProfile = {
+  name: '',
+  nativeLanguage: '',
+  goals: [],
+  estimatedLevel: null,
+};
+
+// The one learner on this device
+export interface LearnerProfileStore {
+  load(): LearnerProfile;
+  save(profile: LearnerProfile): void;
+}
+
+// Whatever was stored, with anything unreadable dropped
+export function parseLearnerProfile(json: string): LearnerProfile {
+  const stored = JSON.parse(json);
+  if (typeof stored !== 'object' || stored === null) return EMPTY_LEARNER_PROFILE;
+  return {
+    name: typeof stored.name === 'string' ? stored.name : '',
+    nativeLanguage: typeof stored.nativeLanguage === 'string' ? stored.nativeLanguage : '',
+    goals: Array.isArray(stored.goals) ? stored.goals.filter((goal: unknown): goal is string => typeof goal === 'string') : [],
+    estimatedLevel: isCefrLevel(stored.estimatedLevel) ? stored.estimatedLevel : null,
+  };
+}
+
+const STORAGE_KEY = 'learnerProfile';
+
+export const localStorageLearnerProfileStore: LearnerProfileStore = {
+  load() {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      return stored ? parseLearnerProfile(stored) : EMPTY_LEARNER_PROFILE;
+    } catch {
+      return EMPTY_LEARNER_PROFILE;
+    }
+  },
+  save(profile) {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(profile));
+    } catch (error) {
+      console.warn('Failed to save learner profile:', error);
+    }
+  },
+};
+
+// How many of the most frequent mistake categories the tutor is asked to watch for
+const FOCUS_CATEGORIES = 2;
+
+// Added to the tutor's instructions, so it knows who it is talking to and what to work on
+export function compileLearnerInstructions(profile: LearnerProfile, progress: ProgressSummary | null): string {
+  const lines: string[] = [];
+  const name = profile.name.trim();
+  if (name) {
+    lines.push(`The learner's name is ${name}. Greet them by name and use it now and then.`);
+  }
+  if (profile.nativeLanguage.trim()) {
+    lines.push(`The learner's native language is ${profile.nativeLanguage.trim()}. Always speak English, but you may give a one-word translation when the learner is stuck.`);
+  }
+  const goals = profile.goals.map(goal => goal.trim()).filter(Boolean);
+  if (goals.length > 0) {
+    lines.push(`The learner is practising to: ${goals.join('; ')}. Where it fits, steer the conversation towards situations that help with these goals.`);
+  }
+  if (profile.estimatedLevel) {
+    lines.push(`Past sessions put the learner at about ${profile.estimatedLevel} (${CEFR_LEVELS[profile.estimatedLevel]}).`);
+  }
+
+  const focus = (progress?.errorTrends ?? []).filter(trend => trend.recentPerSession > 0).slice(0, FOCUS_CATEGORIES);
+  if (focus.length > 0) {
+    const described = focus.map(trend => (trend.direction === 'down' ? `${trend.category} (improving)` : trend.category));
+    lines.push(`In recent sessions the learner's most frequent mistakes were: ${described.join(', ')}. Watch for these, and acknowledge improvement when you notice it.`);
+  }
+  return lines.join('\n');
+}
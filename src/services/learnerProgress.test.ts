@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import { PracticeDay, recordPractice, summarizeProgress } from './learnerProgress';
+import { compileLearnerInstructions, EMPTY_LEARNER_PROFILE } from './learnerProfile';
+import { SessionRecord } from './sessionRepository';
+import { DEFAULT_TUTOR_PROFILE } from './tutorProfile';
+import { CorrectionCategory } from './tutorTools';
+
+// Noon local time, clear of any DST change
+function at(day: string): number {
+  const [year, month, date] = day.split('-').map(Number);
+  return new Date(year, month - 1, date, 12).getTime();
+}
+
+function session(day: string, minutes: number, categories: CorrectionCategory[] = []): SessionRecord {
+  const startedAt = at(day);
+  return {
+    id: `session-${day}-${minutes}`,
+    startedAt,
+    endedAt: startedAt + minutes * 60_000,
+    tutorProfile: DEFAULT_TUTOR_PROFILE,
+    turns: [{
+      id: 'turn',
+      role: 'user',
+      text: 'I goed to the shop',
+      status: 'final',
+      source: 'audio',
+      startedAt,
+      updatedAt: startedAt,
+      corrections: categories.map(category => ({ original: 'goed', corrected: 'went', category, explanation: '' })),
+      vocabulary: [],
+      interrupted: false,
+      audioMs: null,
+    }],
+  };
+}
+
+function practiced(...sessions: SessionRecord[]): PracticeDay[] {
+  return sessions.reduce<PracticeDay[]>((days, record) => recordPractice(days, record), []);
+}
+
+describe('recordPractice', () => {
+  it('adds sessions on the same day together, oldest day first', () => {
+    const days = practiced(
+      session('2024-03-10', 10, ['tense']),
+      session('2024-03-09', 5),
+      session('2024-03-10', 20, ['tense', 'article']),
+    );
+
+    expect(days).toEqual([
+      { day: '2024-03-09', practiceMs: 5 * 60_000, sessions: 1, corrections: {} },
+      { day: '2024-03-10', practiceMs: 30 * 60_000, sessions: 2, corrections: { tense: 2, article: 1 } },
+    ]);
+  });
+
+  it('ignores calls that have not ended', () => {
+    expect(recordPractice([], { ...session('2024-03-10', 10), endedAt: null })).toEqual([]);
+  });
+});
+
+describe('summarizeProgress', () => {
+  it('counts the streak up to today, or up to yesterday until today is over', () => {
+    const days = practiced(session('2024-03-07', 10), session('2024-03-09', 10), session('2024-03-10', 10));
+
+    expect(summarizeProgress(days, at('2024-03-10')).streakDays).toBe(2);
+    expect(summarizeProgress(days, at('2024-03-11')).streakDays).toBe(2);
+    expect(summarizeProgress(days, at('2024-03-12')).streakDays).toBe(0);
+  });
+
+  it('totals the last seven days and averages sessions over the weeks practised', () => {
+    const days = practiced(session('2024-02-20', 10), session('2024-03-05', 10), session('2024-03-10', 15), session('2024-03-10', 5));
+    const summary = summarizeProgress(days, at('2024-03-10'));
+
+    expect(summary.totalSessions).toBe(4);
+    expect(summary.sessionsThisWeek).toBe(3);
+    expect(summary.practiceMsThisWeek).toBe(30 * 60_000);
+    // The session on the 20th falls in the third week back
+    expect(summary.sessionsPerWeek).toBe(4 / 3);
+  });
+
+  it('compares mistakes per session over the last two weeks with the two before', () => {
+    const days = practiced(
+      session('2024-02-20', 10, ['tense', 'tense', 'article']),
+      session('2024-02-21', 10, ['tense', 'tense']),
+      session('2024-03-08', 10, ['article', 'preposition']),
+      session('2024-03-09', 10, ['tense']),
+    );
+    const { errorTrends } = summarizeProgress(days, at('2024-03-10'));
+
+    expect(errorTrends).toEqual([
+      { category: 'tense', recentPerSession: 0.5, earlierPerSession: 2, direction: 'down' },
+      { category: 'article', recentPerSession: 0.5, earlierPerSession: 0.5, direction: 'steady' },
+      { category: 'preposition', recentPerSession: 0.5, earlierPerSession: 0, direction: 'up' },
+    ]);
+  });
+});
+
+describe('compileLearnerInstructions', () => {
+  it('is empty for an anonymous learner without history', () => {
+    expect(compileLearnerInstructions(EMPTY_LEARNER_PROFILE, null)).toBe('');
+  });
+
+  it('names the learner, their goals and the mistakes to watch for', () => {
+    const days = practiced(
+      session('2024-02-20', 10, ['tense', 'tense']),
+      session('2024-03-09', 10, ['tense', 'article', 'article']),
+    );
+    const instructions = compileLearnerInstructions(
+      { name: 'Aru', nativeLanguage: 'Kazakh', goals: ['pass a job interview'], estimatedLevel: 'B2' },
+      summarizeProgress(days, at('2024-03-10')),
+    );
+
+    expect(instructions).toContain('The learner\'s name is Aru.');
+    expect(instructions).toContain('native language is Kazakh');
+    expect(instructions).toContain('pass a job interview');
+    expect(instructions).toContain('about B2 (Upper intermediate)');
+    expect(instructions).toContain('most frequent mistakes were: article, tense (improving)');
+  });
+});
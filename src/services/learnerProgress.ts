@@ -0,0 +1,182 @@
+import { SessionRecord } from './sessionRepository';
+import { CorrectionCategory } from './tutorTools';
+import { usageDay } from './usageMeter';
+
+export interface PracticeDay {
+  // Local calendar day, e.g. 2024-03-09
+  day: string;
+  practiceMs: number;
+  sessions: number;
+  // Corrections the tutor made that day, by category
+  corrections: Partial<Record<CorrectionCategory, number>>;
+}
+
+// Practice accumulated on this device, a day per entry, oldest first
+export interface ProgressStore {
+  load(): PracticeDay[];
+  save(days: PracticeDay[]): void;
+}
+
+export type TrendDirection = 'down' | 'up' | 'steady';
+
+export interface ErrorTrend {
+  category: CorrectionCategory;
+  // Corrections per session over the last TREND_WINDOW_DAYS
+  recentPerSession: number;
+  // The same over the window before; null without sessions in it
+  earlierPerSession: number | null;
+  direction: TrendDirection;
+}
+
+export interface ProgressSummary {
+  totalPracticeMs: number;
+  totalSessions: number;
+  // Over the last seven days, today included
+  practiceMsThisWeek: number;
+  sessionsThisWeek: number;
+  // Averaged over the last AVERAGE_WEEKS weeks, or since the first session if that is more recent
+  sessionsPerWeek: number;
+  // Days in a row with practice; yesterday's streak still counts until today is over
+  streakDays: number;
+  // Most frequent recent mistakes first
+  errorTrends: ErrorTrend[];
+}
+
+// A year is plenty for streaks and trends, and keeps storage small
+const MAX_DAYS = 366;
+const TREND_WINDOW_DAYS = 14;
+const AVERAGE_WEEKS = 4;
+// Changes smaller than this share of the earlier rate are noise
+const TREND_MARGIN = 0.2;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Days since the epoch for a calendar day, so days can be counted across month ends and DST changes
+function dayNumber(day: string): number {
+  const [year, month, date] = day.split('-').map(Number);
+  return Math.round(Date.UTC(year, month - 1, date) / DAY_MS);
+}
+
+function countCorrections(record: SessionRecord): Partial<Record<CorrectionCategory, number>> {
+  const counts: Partial<Record<CorrectionCategory, number>> = {};
+  for (const turn of record.turns) {
+    for (const correction of turn.corrections) {
+      counts[correction.category] = (counts[correction.category] ?? 0) + 1;
+    }
+  }
+  return counts;
+}
+
+// Add a finished session to the day it started on
+export function recordPractice(days: PracticeDay[], record: SessionRecord): PracticeDay[] {
+  if (record.endedAt === null) return days;
+
+  const day = usageDay(record.startedAt);
+  const existing = days.find(entry => entry.day === day) ?? { day, practiceMs: 0, sessions: 0, corrections: {} };
+  const corrections = { ...existing.corrections };
+  for (const [category, count] of Object.entries(countCorrections(record)) as Array<[CorrectionCategory, number]>) {
+    corrections[category] = (corrections[category] ?? 0) + count;
+  }
+  const updated: PracticeDay = {
+    day,
+    practiceMs: existing.practiceMs + Math.max(0, record.endedAt - record.startedAt),
+    sessions: existing.sessions + 1,
+    corrections,
+  };
+
+  return [...days.filter(entry => entry.day !== day), updated]
+    .sort((a, b) => a.day.localeCompare(b.day))
+    .slice(-MAX_DAYS);
+}
+
+function streak(practised: Set<number>, today: number): number {
+  let day = practised.has(today) ? today : today - 1;
+  let length = 0;
+  while (practised.has(day)) {
+    length++;
+    day--;
+  }
+  return length;
+}
+
+function errorTrends(days: Array<PracticeDay & { number: number }>, today: number): ErrorTrend[] {
+  const recentDays = days.filter(entry => entry.number > today - TREND_WINDOW_DAYS);
+  const earlierDays = days.filter(entry => entry.number <= today - TREND_WINDOW_DAYS && entry.number > today - 2 * TREND_WINDOW_DAYS);
+
+  const tally = (window: PracticeDay[]) => {
+    const sessions = window.reduce((sum, entry) => sum + entry.sessions, 0);
+    const counts: Partial<Record<CorrectionCategory, number>> = {};
+    for (const entry of window) {
+      for (const [category, count] of Object.entries(entry.corrections) as Array<[CorrectionCategory, number]>) {
+        counts[category] = (counts[category] ?? 0) + count;
+      }
+    }
+    return { sessions, counts };
+  };
+  const recent = tally(recentDays);
+  const earlier = tally(earlierDays);
+  const categories = new Set([...Object.keys(recent.counts), ...Object.keys(earlier.counts)] as CorrectionCategory[]);
+
+  return [...categories].map(category => {
+    const recentPerSession = recent.sessions > 0 ? (recent.counts[category] ?? 0) / recent.sessions : 0;
+    const earlierPerSession = earlier.sessions > 0 ? (earlier.counts[category] ?? 0) / earlier.sessions : null;
+    let direction: TrendDirection = 'steady';
+    if (earlierPerSession !== null && recent.sessions > 0) {
+      if (recentPerSession < earlierPerSession * (1 - TREND_MARGIN)) direction = 'down';
+      else if (recentPerSession > earlierPerSession * (1 + TREND_MARGIN)) direction = 'up';
+    }
+    return { category, recentPerSession, earlierPerSession, direction };
+  }).sort((a, b) => b.recentPerSession - a.recentPerSession || (b.earlierPerSession ?? 0) - (a.earlierPerSession ?? 0));
+}
+
+export function summarizeProgress(days: PracticeDay[], now: number = Date.now()): ProgressSummary {
+  const today = dayNumber(usageDay(now));
+  const numbered = days.map(entry => ({ ...entry, number: dayNumber(entry.day) }));
+  const thisWeek = numbered.filter(entry => entry.number > today - 7);
+
+  const firstDay = numbered.length > 0 ? Math.min(...numbered.map(entry => entry.number)) : today;
+  const averageWeeks = Math.min(AVERAGE_WEEKS, Math.max(1, Math.ceil((today - firstDay + 1) / 7)));
+  const averaged = numbered.filter(entry => entry.number > today - averageWeeks * 7);
+
+  return {
+    totalPracticeMs: days.reduce((sum, entry) => sum + entry.practiceMs, 0),
+    totalSessions: days.reduce((sum, entry) => sum + entry.sessions, 0),
+    practiceMsThisWeek: thisWeek.reduce((sum, entry) => sum + entry.practiceMs, 0),
+    sessionsThisWeek: thisWeek.reduce((sum, entry) => sum + entry.sessions, 0),
+    sessionsPerWeek: averaged.reduce((sum, entry) => sum + entry.sessions, 0) / averageWeeks,
+    streakDays: streak(new Set(numbered.filter(entry => entry.sessions > 0).map(entry => entry.number)), today),
+    errorTrends: errorTrends(numbered, today),
+  };
+}
+
+// Whatever was stored, with unreadable days dropped
+export function parsePracticeDays(json: string): PracticeDay[] {
+  const stored = JSON.parse(json);
+  if (!Array.isArray(stored)) return [];
+  return stored.filter((entry): entry is PracticeDay =>
+    typeof entry?.day === 'string'
+    && /^\d{4}-\d{2}-\d{2}$/.test(entry.day)
+    && typeof entry.practiceMs === 'number'
+    && typeof entry.sessions === 'number'
+    && typeof entry.corrections === 'object' && entry.corrections !== null
+  );
+}
+
+const STORAGE_KEY = 'learnerProgress';
+
+export const localStorageProgressStore: ProgressStore = {
+  load() {
+    try {
+      return parsePracticeDays(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    } catch {
+      return [];
+    }
+  },
+  save(days) {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(days));
+    } catch (error) {
+      console.warn('Failed to save progress:', error);
+    }
+  },
+};
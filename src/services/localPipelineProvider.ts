@@ -0,0 +1,47 @@
+import { SessionToken, TokenService } from './tokenService';
+import { RealtimeTransport, TransportKind, TransportTimeouts } from './realtimeTransport';
+import { WebSocketTransport } from './webSocketTransport';
+import { PcmAudioFactory } from './pcmEventTransport';
+import { createWebAudioPcm } from './webAudioPcm';
+import { FREE_PRICING, PricingTable } from './usageMeter';
+import { SpeechProvider } from './speechProvider';
+import { BrowserApis, browserApis } from './browserApis';
+
+// Local speech recognition, chat model and speech synthesis, chained by the local pipeline server
+// (server/pipeline.ts), for offline classroom demos
+export class LocalPipelineProvider implements SpeechProvider {
+  readonly kind = 'local' as const;
+  readonly label = 'Local pipeline';
+  private readonly sessions: TokenService;
+
+  constructor(
+    sessionUrl: string,
+    private readonly createAudio: PcmAudioFactory = createWebAudioPcm,
+    private readonly apis: BrowserApis = browserApis
+  ) {
+    this.sessions = new TokenService(sessionUrl, 'Local speech pipeline', apis);
+  }
+
+  // The pipeline accepts each token for a single socket, so a cached one is never reused
+  getSession(): Promise<SessionToken> {
+    this.sessions.invalidate();
+    return this.sessions.getToken();
+  }
+
+  invalidateSession(): void {
+    this.sessions.invalidate();
+  }
+
+  // The pipeline only speaks the event protocol; there is no media server for WebRTC
+  selectTransport(): TransportKind {
+    return 'websocket';
+  }
+
+  createTransport(_kind: TransportKind, timeouts: TransportTimeouts): RealtimeTransport {
+    return new WebSocketTransport(timeouts, this.createAudio, this.apis);
+  }
+
+  pricing(): PricingTable {
+    return FREE_PRICING;
+  }
+}
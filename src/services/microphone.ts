@@ -0,0 +1,107 @@
+// 'unsupported': no way to record here at all (missing API, insecure origin, no input device)
+export type MicrophonePermission = 'granted' | 'denied' | 'prompt' | 'unsupported';
+
+// Access to the learner's microphone; each platform provides its own
+export interface MicrophoneAccess {
+  // Current permission, without prompting the user
+  queryPermission(): Promise<MicrophonePermission>;
+  // Shows the platform prompt where it still can and resolves to the outcome
+  requestPermission(): Promise<MicrophonePermission>;
+  // Changes made outside the app, e.g. access revoked in the site settings mid-call
+  watchPermission(listener: (permission: MicrophonePermission) => void): () => void;
+  // The mic as a MediaStream, from the given device or the system default;
+  // null where the transport captures audio itself
+  open(deviceId: string | null): Promise<MediaStream | null>;
+}
+
+function permissionFromError(error: unknown): MicrophonePermission {
+  if (error instanceof DOMException) {
+    switch (error.name) {
+      case 'NotAllowedError':
+      case 'SecurityError':
+        return 'denied';
+      case 'NotFoundError':
+      case 'OverconstrainedError':
+        return 'unsupported';
+    }
+  }
+  // Anything else (e.g. the mic is busy in another app) says nothing about permission
+  throw new Error(`Failed to access microphone: ${error instanceof Error ? error.message : 'Unknown error'}`);
+}
+
+export class BrowserMicrophone implements MicrophoneAccess {
+  // Not every browser can query 'microphone' (older Firefox and Safari throw)
+  private status: Promise<PermissionStatus | null> | null = null;
+
+  private get canCapture(): boolean {
+    return typeof navigator !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+  }
+
+  private permissionStatus(): Promise<PermissionStatus | null> {
+    if (!this.status) {
+      this.status = navigator.permissions
+        ? navigator.permissions.query({ name: 'microphone' as PermissionName }).catch(() => null)
+        : Promise.resolve(null);
+    }
+    return this.status;
+  }
+
+  async queryPermission(): Promise<MicrophonePermission> {
+    if (!this.canCapture) return 'unsupported';
+
+    const status = await this.permissionStatus();
+    if (status) return status.state;
+
+    // Without the Permissions API: device labels are only exposed once access has been granted
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    const inputs = devices.filter(device => device.kind === 'audioinput');
+    return inputs.some(device => device.label) ? 'granted' : 'prompt';
+  }
+
+  // Probe with a throwaway stream; the only way to trigger the prompt in every browser
+  async requestPermission(): Promise<MicrophonePermission> {
+    if (!this.canCapture) return 'unsupported';
+
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      stream.getTracks().forEach(track => track.stop());
+      return 'granted';
+    } catch (error) {
+      return permissionFromError(error);
+    }
+  }
+
+  watchPermission(listener: (permission: MicrophonePermission) => void): () => void {
+    let unwatch: (() => void) | null = null;
+    let isWatching = true;
+
+    void this.permissionStatus().then(status => {
+      if (!status || !isWatching) return;
+      const onChange = () => listener(status.state);
+      status.addEventListener('change', onChange);
+      unwatch = () => status.removeEventListener('change', onChange);
+    });
+
+    return () => {
+      isWatching = false;
+      unwatch?.();
+    };
+  }
+
+  async open(deviceId: string | null): Promise<MediaStream> {
+    try {
+      return await navigator.mediaDevices.getUserMedia({
+        audio: {
+          deviceId: deviceId ? { exact: deviceId } : undefined,
+          echoCancellation: true,
+          noiseSuppression: true,
+          autoGainControl: true,
+        }
+      });
+    } catch (error) {
+      throw new Error(`Failed to access microphone: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
+
+export const browserMicrophone = new BrowserMicrophone();
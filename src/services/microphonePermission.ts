@@ -0,0 +1,110 @@
+import { MicrophoneAccess, MicrophonePermission } from './microphone';
+
+// Where the learner has to go to fix a blocked microphone
+export type PermissionPlatform =
+  | 'chromium'
+  | 'firefox'
+  | 'safari'
+  | 'ios-browser'
+  | 'other-browser'
+  | 'ios'
+  | 'android';
+
+export interface PermissionGuidance {
+  title: string;
+  description: string;
+  // Label of the button that asks (or checks) again, if there is anything left to try in-app
+  actionLabel: string | null;
+}
+
+export function detectBrowserPlatform(userAgent: string): PermissionPlatform {
+  // Every iOS browser shares Safari's per-site settings
+  if (/iPhone|iPad|iPod/.test(userAgent)) return 'ios-browser';
+  if (/Firefox\//.test(userAgent)) return 'firefox';
+  if (/Chrome\/|Chromium\/|Edg\//.test(userAgent)) return 'chromium';
+  if (/Safari\//.test(userAgent)) return 'safari';
+  return 'other-browser';
+}
+
+const RECOVERY_STEPS: Record<PermissionPlatform, string> = {
+  'chromium': 'Click the icon to the left of the address bar, set Microphone to Allow, then reload the page.',
+  'firefox': 'Click the crossed-out microphone in the address bar, clear the blocked permission, then reload the page.',
+  'safari': 'Open Safari > Settings for This Website, set Microphone to Allow, then reload the page.',
+  'ios-browser': 'Tap "aA" in the address bar, open Website Settings, set Microphone to Allow, then reload the page.',
+  'other-browser': 'Allow microphone access for this site in your browser settings, then reload the page.',
+  'ios': 'Open Settings > Privacy & Security > Microphone and turn on access for this app.',
+  'android': 'Open Settings > Apps > this app > Permissions > Microphone and choose Allow.',
+};
+
+function isBrowser(platform: PermissionPlatform): boolean {
+  return platform !== 'ios' && platform !== 'android';
+}
+
+// Copy for the permission screen; not needed once access is granted
+export function describeMicrophonePermission(
+  permission: Exclude<MicrophonePermission, 'granted'>,
+  platform: PermissionPlatform
+): PermissionGuidance {
+  switch (permission) {
+    case 'prompt':
+      return {
+        title: 'Microphone Access Required',
+        description: 'To use the AI Language Tutor, we need access to your microphone. This allows you to have voice conversations with your AI tutor.',
+        actionLabel: 'Allow Microphone Access',
+      };
+    case 'denied':
+      return {
+        title: 'Microphone Access Blocked',
+        description: `The tutor can't hear you because microphone access is turned off. ${RECOVERY_STEPS[platform]}`,
+        actionLabel: 'Check Again',
+      };
+    case 'unsupported':
+      return {
+        title: 'Microphone Not Available',
+        description: isBrowser(platform)
+          ? 'This browser can\'t record audio here. Open the app over HTTPS in a current version of Chrome, Edge, Firefox or Safari, and make sure a microphone is connected.'
+          : 'No microphone was found on this device.',
+        actionLabel: isBrowser(platform) ? 'Check Again' : null,
+      };
+  }
+}
+
+// Tracks the mic permission across prompts and changes made outside the app
+export class MicrophonePermissionManager {
+  // null until the first check
+  private current: MicrophonePermission | null = null;
+  private unwatch: (() => void) | null = null;
+
+  constructor(
+    private readonly microphone: MicrophoneAccess,
+    private readonly onChange: (permission: MicrophonePermission) => void
+  ) {}
+
+  get permission(): MicrophonePermission | null {
+    return this.current;
+  }
+
+  async refresh(): Promise<MicrophonePermission> {
+    this.watch();
+    return this.update(await this.microphone.queryPermission());
+  }
+
+  async request(): Promise<MicrophonePermission> {
+    this.watch();
+    return this.update(await this.microphone.requestPermission());
+  }
+
+  private watch() {
+    if (!this.unwatch) {
+      this.unwatch = this.microphone.watchPermission(permission => this.update(permission));
+    }
+  }
+
+  private update(permission: MicrophonePermission): MicrophonePermission {
+    if (permission !== this.current) {
+      this.current = permission;
+      this.onChange(permission);
+    }
+    return permission;
+  }
+}
@@ -0,0 +1,48 @@
+import { SessionToken, TokenService, tokenService } from './tokenService';
+import { RealtimeTransport, selectTransportKind, TransportKind, TransportPreference, TransportTimeouts } from './realtimeTransport';
+import { createTransportFactory } from './transportFactory';
+import { PcmAudioFactory } from './pcmEventTransport';
+import { createWebAudioPcm } from './webAudioPcm';
+import { PricingTable, pricingForModel } from './usageMeter';
+import { SpeechProvider } from './speechProvider';
+import { BrowserApis, browserApis } from './browserApis';
+
+export interface OpenAiRealtimeProviderOptions {
+  createAudio?: PcmAudioFactory;
+  apis?: BrowserApis;
+  // Defaults to the app's token broker
+  tokens?: TokenService;
+}
+
+// The OpenAI Realtime API, with the model and voice fixed by the token broker
+export class OpenAiRealtimeProvider implements SpeechProvider {
+  readonly kind = 'openai-realtime' as const;
+  readonly label = 'OpenAI Realtime';
+  private readonly transports: ReturnType<typeof createTransportFactory>;
+  private readonly tokens: TokenService;
+
+  constructor({ createAudio = createWebAudioPcm, apis = browserApis, tokens = tokenService }: OpenAiRealtimeProviderOptions = {}) {
+    this.transports = createTransportFactory(createAudio, apis);
+    this.tokens = tokens;
+  }
+
+  getSession(): Promise<SessionToken> {
+    return this.tokens.getToken();
+  }
+
+  invalidateSession(): void {
+    this.tokens.invalidate();
+  }
+
+  selectTransport(preference: TransportPreference): TransportKind {
+    return selectTransportKind(preference);
+  }
+
+  createTransport(kind: TransportKind, timeouts: TransportTimeouts): RealtimeTransport {
+    return this.transports(kind, timeouts);
+  }
+
+  pricing(model: string): PricingTable {
+    return pricingForModel(model);
+  }
+}
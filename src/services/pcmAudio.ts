@@ -0,0 +1,111 @@
+// The Realtime API's pcm16 format: 16-bit little-endian mono at 24 kHz
+export const PCM_SAMPLE_RATE = 24_000;
+
+// Microphone audio as pcm16 chunks, for transports that carry audio inside events
+export interface PcmAudioInput {
+  start(onChunk: (pcm: Int16Array) => void): Promise<void>;
+  stop(): void;
+  // Capture from another mic without restarting, where the platform works with streams
+  replaceStream?(stream: MediaStream): void;
+}
+
+// Tutor audio from `response.audio.delta` events, played back in arrival order
+export interface PcmAudioOutput {
+  enqueue(pcm: Int16Array): void;
+  // Drop everything still queued, e.g. when the learner interrupts
+  clear(): void;
+  setMuted(muted: boolean): void;
+  setVolume(volume: number): void;
+  // Play through another output device ('' for the default), where the platform can route audio
+  setSinkId?(deviceId: string): Promise<void>;
+  // The playback as a MediaStream, where the platform can provide one (used for recording)
+  readonly stream: MediaStream | null;
+  close(): void;
+}
+
+export interface PcmAudio {
+  input: PcmAudioInput;
+  output: PcmAudioOutput;
+}
+
+export function floatToPcm16(samples: Float32Array): Int16Array {
+  const pcm = new Int16Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    const sample = Math.max(-1, Math.min(1, samples[i]));
+    pcm[i] = sample < 0 ? sample * 0x8000 : sample * 0x7fff;
+  }
+  return pcm;
+}
+
+export function pcm16ToFloat(pcm: Int16Array): Float32Array {
+  const samples = new Float32Array(pcm.length);
+  for (let i = 0; i < pcm.length; i++) {
+    samples[i] = pcm[i] / 0x8000;
+  }
+  return samples;
+}
+
+// Linear interpolation is plenty for speech going to the model
+export function resampleLinear(samples: Float32Array, fromRate: number, toRate: number): Float32Array {
+  if (fromRate === toRate) return samples;
+  const ratio = fromRate / toRate;
+  const output = new Float32Array(Math.floor(samples.length / ratio));
+  for (let i = 0; i < output.length; i++) {
+    const position = i * ratio;
+    const index = Math.floor(position);
+    const next = samples[Math.min(index + 1, samples.length - 1)];
+    output[i] = samples[index] + (next - samples[index]) * (position - index);
+  }
+  return output;
+}
+
+const BASE64_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+const BASE64_LOOKUP = new Uint8Array(128);
+for (let i = 0; i < BASE64_ALPHABET.length; i++) {
+  BASE64_LOOKUP[BASE64_ALPHABET.charCodeAt(i)] = i;
+}
+
+// Plain JS codecs: atob/btoa are not available in every runtime this code runs in
+export function encodePcm16(pcm: Int16Array): string {
+  const bytes = new Uint8Array(pcm.length * 2);
+  const view = new DataView(bytes.buffer);
+  pcm.forEach((sample, index) => view.setInt16(index * 2, sample, true));
+
+  let output = '';
+  for (let i = 0; i < bytes.length; i += 3) {
+    const chunk = (bytes[i] << 16) | ((bytes[i + 1] ?? 0) << 8) | (bytes[i + 2] ?? 0);
+    output += BASE64_ALPHABET[(chunk >> 18) & 63] + BASE64_ALPHABET[(chunk >> 12) & 63];
+    output += i + 1 < bytes.length ? BASE64_ALPHABET[(chunk >> 6) & 63] : '=';
+    output += i + 2 < bytes.length ? BASE64_ALPHABET[chunk & 63] : '=';
+  }
+  return output;
+}
+
+// Length of a base64 pcm16 chunk without decoding it
+export function pcm16DurationMs(base64: string): number {
+  const padding = base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0;
+  const bytes = (base64.length * 3) / 4 - padding;
+  return (bytes / 2 / PCM_SAMPLE_RATE) * 1000;
+}
+
+export function decodePcm16(base64: string): Int16Array {
+  const clean = base64.replace(/[^A-Za-z0-9+/]/g, '');
+  const bytes = new Uint8Array(Math.floor((clean.length * 3) / 4));
+  let byteIndex = 0;
+  for (let i = 0; i < clean.length; i += 4) {
+    const chunk = (BASE64_LOOKUP[clean.charCodeAt(i)] << 18)
+      | (BASE64_LOOKUP[clean.charCodeAt(i + 1)] << 12)
+      | ((BASE64_LOOKUP[clean.charCodeAt(i + 2)] ?? 0) << 6)
+      | (BASE64_LOOKUP[clean.charCodeAt(i + 3)] ?? 0);
+    if (byteIndex < bytes.length) bytes[byteIndex++] = (chunk >> 16) & 255;
+    if (byteIndex < bytes.length) bytes[byteIndex++] = (chunk >> 8) & 255;
+    if (byteIndex < bytes.length) bytes[byteIndex++] = chunk & 255;
+  }
+
+  const view = new DataView(bytes.buffer);
+  const pcm = new Int16Array(Math.floor(bytes.length / 2));
+  for (let i = 0; i < pcm.length; i++) {
+    pcm[i] = view.getInt16(i * 2, true);
+  }
+  return pcm;
+}
@@ -0,0 +1,150 @@
+import { SessionToken } from './tokenService';
+import { ClientEvent } from './realtimeEvents';
+import { TypedEventEmitter } from './eventEmitter';
+import { RealtimeTransport, RealtimeTransportEvents, TransportKind, TransportTimeouts } from './realtimeTransport';
+import { decodePcm16, encodePcm16, PcmAudio } from './pcmAudio';
+
+export type PcmAudioFactory = (stream: MediaStream | null) => PcmAudio;
+
+// Transports that carry audio inside events: pcm16 `input_audio_buffer.append` chunks up,
+// `response.audio.delta` chunks down into a playback queue
+export abstract class PcmEventTransport implements RealtimeTransport {
+  abstract readonly kind: TransportKind;
+  abstract readonly isOpen: boolean;
+  readonly playsAudioLocally = true;
+  private events = new TypedEventEmitter<RealtimeTransportEvents>();
+  private audio: PcmAudio | null = null;
+  private inputEnabled = false;
+  private output = { muted: false, volume: 1 };
+  private outputDeviceId: string | null = null;
+  private isConnected = false;
+  private isClosed = false;
+
+  constructor(
+    private readonly timeouts: TransportTimeouts,
+    private readonly createAudio: PcmAudioFactory,
+  ) {}
+
+  // Resolves once the event channel is open
+  protected abstract openChannel(token: SessionToken): Promise<void>;
+  protected abstract sendRaw(data: string): void;
+  protected abstract closeChannel(): void;
+
+  on<K extends keyof RealtimeTransportEvents>(event: K, listener: (payload: RealtimeTransportEvents[K]) => void): () => void {
+    return this.events.on(event, listener);
+  }
+
+  async connect(token: SessionToken, stream: MediaStream | null, captureAudio: boolean): Promise<void> {
+    const audio = this.createAudio(stream);
+    this.audio = audio;
+    this.applyOutput();
+    if (this.outputDeviceId) {
+      // A missing speaker shouldn't stop the call; the default output still works
+      await this.applyOutputDevice().catch(error => {
+        console.warn('Failed to select output device:', error);
+      });
+    }
+
+    await this.withTimeout(this.openChannel(token));
+    this.isConnected = true;
+
+    if (audio.output.stream) {
+      this.events.emit('remote-stream', audio.output.stream);
+    }
+    if (captureAudio) {
+      await audio.input.start(pcm => {
+        if (this.inputEnabled && this.isOpen) {
+          this.send({ type: 'input_audio_buffer.append', audio: encodePcm16(pcm) });
+        }
+      });
+    }
+    this.events.emit('open', undefined);
+  }
+
+  private withTimeout(opening: Promise<void>): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        this.closeChannel();
+        reject(new Error('Timed out waiting for the connection'));
+      }, this.timeouts.connectTimeoutMs);
+
+      opening.then(resolve, reject).finally(() => clearTimeout(timeout));
+    });
+  }
+
+  protected handleMessage(data: string): void {
+    this.events.emit('message', data);
+  }
+
+  // Subclasses report their channel closing; only a drop after connecting counts as lost
+  protected handleClosed(reason: string): void {
+    if (!this.isConnected || this.isClosed) return;
+    this.isConnected = false;
+    this.events.emit('connection-lost', reason);
+  }
+
+  send(event: ClientEvent): boolean {
+    if (this.isOpen) {
+      this.sendRaw(JSON.stringify(event));
+      return true;
+    }
+    console.warn(`${this.kind} channel not ready to send ${event.type}`);
+    return false;
+  }
+
+  receiveAudio(delta: string): void {
+    this.audio?.output.enqueue(decodePcm16(delta));
+  }
+
+  clearPlayback(): void {
+    this.audio?.output.clear();
+  }
+
+  // Nothing is sent while disabled, rather than streaming silence
+  setInputEnabled(enabled: boolean): void {
+    this.inputEnabled = enabled;
+  }
+
+  setOutput(muted: boolean, volume: number): void {
+    this.output = { muted, volume };
+    this.applyOutput();
+  }
+
+  private applyOutput(): void {
+    this.audio?.output.setMuted(this.output.muted);
+    this.audio?.output.setVolume(this.output.volume);
+  }
+
+  async replaceInputStream(stream: MediaStream): Promise<void> {
+    if (!this.audio?.input.replaceStream) {
+      throw new Error('Switching microphones is not supported here');
+    }
+    this.audio.input.replaceStream(stream);
+  }
+
+  async setOutputDevice(deviceId: string | null): Promise<void> {
+    this.outputDeviceId = deviceId;
+    await this.applyOutputDevice();
+  }
+
+  private async applyOutputDevice(): Promise<void> {
+    const output = this.audio?.output;
+    if (!output) return;
+    if (!output.setSinkId) {
+      throw new Error('Choosing an output device is not supported here');
+    }
+    await output.setSinkId(this.outputDeviceId ?? '');
+  }
+
+  close(): void {
+    this.isClosed = true;
+    this.isConnected = false;
+    this.events.removeAllListeners();
+    this.closeChannel();
+    if (this.audio) {
+      this.audio.input.stop();
+      this.audio.output.close();
+      this.audio = null;
+    }
+  }
+}
@@ -0,0 +1,389 @@
+// Typed model of the OpenAI Realtime event protocol, as exchanged over the
+// `oai-events` data channel. Only the fields the app relies on are modelled;
+// extra fields sent by the server are preserved but left untyped.
+
+export type Modality = 'text' | 'audio';
+export type AudioFormat = 'pcm16' | 'g711_ulaw' | 'g711_alaw';
+
+export interface ServerVadTurnDetection {
+  type: 'server_vad';
+  threshold?: number;
+  prefix_padding_ms?: number;
+  silence_duration_ms?: number;
+  create_response?: boolean;
+  interrupt_response?: boolean;
+}
+
+export interface ToolDefinition {
+  type: 'function';
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+export interface SessionConfig {
+  modalities: Modality[];
+  instructions: string;
+  voice: string;
+  input_audio_format: AudioFormat;
+  output_audio_format: AudioFormat;
+  input_audio_transcription: { model: string } | null;
+  turn_detection: ServerVadTurnDetection | null;
+  tools: ToolDefinition[];
+  // Naming a function forces the model to call it
+  tool_choice: 'auto' | 'none' | 'required' | { type: 'function'; name: string };
+  temperature: number;
+  max_response_output_tokens: number | 'inf';
+}
+
+export interface RealtimeSession extends Partial<SessionConfig> {
+  id: string;
+  object: 'realtime.session';
+  model: string;
+}
+
+export type ContentPart =
+  | { type: 'input_text'; text: string }
+  | { type: 'input_audio'; audio?: string; transcript?: string | null }
+  | { type: 'text'; text: string }
+  | { type: 'audio'; audio?: string; transcript?: string | null };
+
+export type ItemStatus = 'completed' | 'in_progress' | 'incomplete';
+
+export type ConversationItem =
+  | {
+    id: string;
+    object?: 'realtime.item';
+    type: 'message';
+    role: 'user' | 'assistant' | 'system';
+    status?: ItemStatus;
+    content: ContentPart[];
+  }
+  | {
+    id: string;
+    object?: 'realtime.item';
+    type: 'function_call';
+    status?: ItemStatus;
+    call_id: string;
+    name: string;
+    arguments: string;
+  }
+  | {
+    id: string;
+    object?: 'realtime.item';
+    type: 'function_call_output';
+    call_id: string;
+    output: string;
+  };
+
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+
+// Items the client creates don't need an id, the server assigns one
+export type NewConversationItem = DistributiveOmit<ConversationItem, 'id' | 'object' | 'status'> & { id?: string };
+
+export interface ResponseUsage {
+  total_tokens: number;
+  input_tokens: number;
+  output_tokens: number;
+  input_token_details?: {
+    cached_tokens?: number;
+    text_tokens?: number;
+    audio_tokens?: number;
+    // How the cached tokens split between text and audio
+    cached_tokens_details?: {
+      text_tokens?: number;
+      audio_tokens?: number;
+    };
+  };
+  output_token_details?: {
+    text_tokens?: number;
+    audio_tokens?: number;
+  };
+}
+
+export interface RealtimeResponse {
+  id: string;
+  object: 'realtime.response';
+  status: 'in_progress' | 'completed' | 'cancelled' | 'failed' | 'incomplete';
+  status_details?: {
+    type?: string;
+    reason?: string;
+    error?: { type?: string; code?: string; message?: string };
+  } | null;
+  output: ConversationItem[];
+  metadata?: Record<string, string> | null;
+  usage?: ResponseUsage | null;
+}
+
+export interface ResponseConfig {
+  modalities?: Modality[];
+  instructions?: string;
+  voice?: string;
+  tools?: ToolDefinition[];
+  tool_choice?: SessionConfig['tool_choice'];
+  temperature?: number;
+  max_response_output_tokens?: number | 'inf';
+  // 'none' runs the response outside the default conversation
+  conversation?: 'auto' | 'none';
+  metadata?: Record<string, string>;
+  input?: NewConversationItem[];
+}
+
+export interface RateLimit {
+  name: 'requests' | 'tokens' | string;
+  limit: number;
+  remaining: number;
+  reset_seconds: number;
+}
+
+export interface RealtimeError {
+  type: string;
+  code?: string | null;
+  message: string;
+  param?: string | null;
+  event_id?: string | null;
+}
+
+/* Client events */
+
+interface ClientEventBase {
+  event_id?: string;
+}
+
+export type ClientEvent = ClientEventBase & (
+  | { type: 'session.update'; session: Partial<SessionConfig> }
+  | { type: 'input_audio_buffer.append'; audio: string }
+  | { type: 'input_audio_buffer.commit' }
+  | { type: 'input_audio_buffer.clear' }
+  | { type: 'conversation.item.create'; previous_item_id?: string | null; item: NewConversationItem }
+  | { type: 'conversation.item.truncate'; item_id: string; content_index: number; audio_end_ms: number }
+  | { type: 'conversation.item.delete'; item_id: string }
+  | { type: 'response.create'; response?: ResponseConfig }
+  | { type: 'response.cancel'; response_id?: string }
+  | { type: 'output_audio_buffer.clear' }
+);
+
+export type ClientEventType = ClientEvent['type'];
+
+/* Server events */
+
+interface ServerEventBase {
+  event_id: string;
+}
+
+interface ContentRef {
+  response_id: string;
+  item_id: string;
+  output_index: number;
+  content_index: number;
+}
+
+export type ServerEvent = ServerEventBase & (
+  | { type: 'error'; error: RealtimeError }
+  | { type: 'session.created'; session: RealtimeSession }
+  | { type: 'session.updated'; session: RealtimeSession }
+  | { type: 'conversation.created'; conversation: { id: string } }
+  | { type: 'conversation.item.created'; previous_item_id: string | null; item: ConversationItem }
+  | { type: 'conversation.item.input_audio_transcription.delta'; item_id: string; content_index: number; delta: string }
+  | { type: 'conversation.item.input_audio_transcription.completed'; item_id: string; content_index: number; transcript: string }
+  | { type: 'conversation.item.input_audio_transcription.failed'; item_id: string; content_index: number; error: RealtimeError }
+  | { type: 'conversation.item.truncated'; item_id: string; content_index: number; audio_end_ms: number }
+  | { type: 'conversation.item.deleted'; item_id: string }
+  | { type: 'input_audio_buffer.committed'; previous_item_id: string | null; item_id: string }
+  | { type: 'input_audio_buffer.cleared' }
+  | { type: 'input_audio_buffer.speech_started'; audio_start_ms: number; item_id: string }
+  | { type: 'input_audio_buffer.speech_stopped'; audio_end_ms: number; item_id: string }
+  | { type: 'output_audio_buffer.started'; response_id: string }
+  | { type: 'output_audio_buffer.stopped'; response_id: string }
+  | { type: 'output_audio_buffer.cleared'; response_id: string }
+  | { type: 'response.created'; response: RealtimeResponse }
+  | { type: 'response.done'; response: RealtimeResponse }
+  | { type: 'response.output_item.added'; response_id: string; output_index: number; item: ConversationItem }
+  | { type: 'response.output_item.done'; response_id: string; output_index: number; item: ConversationItem }
+  | ({ type: 'response.content_part.added'; part: ContentPart } & ContentRef)
+  | ({ type: 'response.content_part.done'; part: ContentPart } & ContentRef)
+  | ({ type: 'response.text.delta'; delta: string } & ContentRef)
+  | ({ type: 'response.text.done'; text: string } & ContentRef)
+  | ({ type: 'response.audio_transcript.delta'; delta: string } & ContentRef)
+  | ({ type: 'response.audio_transcript.done'; transcript: string } & ContentRef)
+  | ({ type: 'response.audio.delta'; delta: string } & ContentRef)
+  | ({ type: 'response.audio.done' } & ContentRef)
+  | { type: 'response.function_call_arguments.delta'; response_id: string; item_id: string; output_index: number; call_id: string; delta: string }
+  | { type: 'response.function_call_arguments.done'; response_id: string; item_id: string; output_index: number; call_id: string; name?: string; arguments: string }
+  | { type: 'rate_limits.updated'; rate_limits: RateLimit[] }
+);
+
+export type ServerEventType = ServerEvent['type'];
+
+export type ServerEventOf<T extends ServerEventType> = Extract<ServerEvent, { type: T }>;
+
+/* Parsing */
+
+export type RealtimeDiagnostic =
+  | { kind: 'malformed-json'; message: string; raw: string }
+  | { kind: 'invalid-event'; message: string; type?: string; raw: unknown }
+  | { kind: 'unknown-type'; message: string; type: string; raw: unknown };
+
+export type ParsedServerEvent =
+  | { ok: true; event: ServerEvent }
+  | { ok: false; diagnostic: RealtimeDiagnostic };
+
+type FieldKind = 'string' | 'number' | 'object' | 'array' | 'string?' | 'object?';
+
+const CONTENT_REF: Record<string, FieldKind> = {
+  response_id: 'string',
+  item_id: 'string',
+  output_index: 'number',
+  content_index: 'number',
+};
+
+// Required top-level fields for every server event we understand
+const SERVER_EVENT_FIELDS: Record<ServerEventType, Record<string, FieldKind>> = {
+  'error': { error: 'object' },
+  'session.created': { session: 'object' },
+  'session.updated': { session: 'object' },
+  'conversation.created': { conversation: 'object' },
+  'conversation.item.created': { previous_item_id: 'string?', item: 'object' },
+  'conversation.item.input_audio_transcription.delta': { item_id: 'string', content_index: 'number', delta: 'string' },
+  'conversation.item.input_audio_transcription.completed': { item_id: 'string', content_index: 'number', transcript: 'string' },
+  'conversation.item.input_audio_transcription.failed': { item_id: 'string', content_index: 'number', error: 'object' },
+  'conversation.item.truncated': { item_id: 'string', content_index: 'number', audio_end_ms: 'number' },
+  'conversation.item.deleted': { item_id: 'string' },
+  'input_audio_buffer.committed': { previous_item_id: 'string?', item_id: 'string' },
+  'input_audio_buffer.cleared': {},
+  'input_audio_buffer.speech_started': { audio_start_ms: 'number', item_id: 'string' },
+  'input_audio_buffer.speech_stopped': { audio_end_ms: 'number', item_id: 'string' },
+  'output_audio_buffer.started': { response_id: 'string' },
+  'output_audio_buffer.stopped': { response_id: 'string' },
+  'output_audio_buffer.cleared': { response_id: 'string' },
+  'response.created': { response: 'object' },
+  'response.done': { response: 'object' },
+  'response.output_item.added': { response_id: 'string', output_index: 'number', item: 'object' },
+  'response.output_item.done': { response_id: 'string', output_index: 'number', item: 'object' },
+  'response.content_part.added': { ...CONTENT_REF, part: 'object' },
+  'response.content_part.done': { ...CONTENT_REF, part: 'object' },
+  'response.text.delta': { ...CONTENT_REF, delta: 'string' },
+  'response.text.done': { ...CONTENT_REF, text: 'string' },
+  'response.audio_transcript.delta': { ...CONTENT_REF, delta: 'string' },
+  'response.audio_transcript.done': { ...CONTENT_REF, transcript: 'string' },
+  'response.audio.delta': { ...CONTENT_REF, delta: 'string' },
+  'response.audio.done': CONTENT_REF,
+  'response.function_call_arguments.delta': { response_id: 'string', item_id: 'string', output_index: 'number', call_id: 'string', delta: 'string' },
+  'response.function_call_arguments.done': { response_id: 'string', item_id: 'string', output_index: 'number', call_id: 'string', arguments: 'string' },
+  'rate_limits.updated': { rate_limits: 'array' },
+};
+
+// Required top-level fields for every client event, for servers that speak the protocol themselves
+const CLIENT_EVENT_FIELDS: Record<ClientEventType, Record<string, FieldKind>> = {
+  'session.update': { session: 'object' },
+  'input_audio_buffer.append': { audio: 'string' },
+  'input_audio_buffer.commit': {},
+  'input_audio_buffer.clear': {},
+  'conversation.item.create': { previous_item_id: 'string?', item: 'object' },
+  'conversation.item.truncate': { item_id: 'string', content_index: 'number', audio_end_ms: 'number' },
+  'conversation.item.delete': { item_id: 'string' },
+  'response.create': { response: 'object?' },
+  'response.cancel': { response_id: 'string?' },
+  'output_audio_buffer.clear': {},
+};
+
+function matchesKind(value: unknown, kind: FieldKind): boolean {
+  switch (kind) {
+    case 'string':
+      return typeof value === 'string';
+    case 'string?':
+      return value === undefined || value === null || typeof value === 'string';
+    case 'number':
+      return typeof value === 'number' && !Number.isNaN(value);
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+    case 'object?':
+      return value === undefined || value === null || matchesKind(value, 'object');
+    case 'array':
+      return Array.isArray(value);
+  }
+}
+
+export function isKnownServerEventType(type: string): type is ServerEventType {
+  return Object.prototype.hasOwnProperty.call(SERVER_EVENT_FIELDS, type);
+}
+
+// Validate an already-decoded payload against the server event model
+export function validateServerEvent(payload: unknown): ParsedServerEvent {
+  if (typeof payload !== 'object' || payload === null || Array.isArray(payload)) {
+    return { ok: false, diagnostic: { kind: 'invalid-event', message: 'Event is not a JSON object', raw: payload } };
+  }
+
+  const record = payload as Record<string, unknown>;
+  if (typeof record.type !== 'string') {
+    return { ok: false, diagnostic: { kind: 'invalid-event', message: 'Event has no type', raw: payload } };
+  }
+
+  const type = record.type;
+  if (!isKnownServerEventType(type)) {
+    return {
+      ok: false,
+      diagnostic: { kind: 'unknown-type', message: `Unknown server event type "${type}"`, type, raw: payload },
+    };
+  }
+
+  for (const [field, kind] of Object.entries(SERVER_EVENT_FIELDS[type])) {
+    if (!matchesKind(record[field], kind)) {
+      return {
+        ok: false,
+        diagnostic: {
+          kind: 'invalid-event',
+          message: `Field "${field}" of "${type}" should be ${kind.replace('?', ' or null')}`,
+          type,
+          raw: payload,
+        },
+      };
+    }
+  }
+
+  return { ok: true, event: payload as ServerEvent };
+}
+
+// Decode and validate a raw data channel message
+export function parseServerEvent(raw: string): ParsedServerEvent {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(raw);
+  } catch (error) {
+    return {
+      ok: false,
+      diagnostic: {
+        kind: 'malformed-json',
+        message: error instanceof Error ? error.message : 'Invalid JSON',
+        raw,
+      },
+    };
+  }
+
+  return validateServerEvent(payload);
+}
+
+// What is wrong with a decoded client event, or null when it can be handled
+export function clientEventProblem(payload: unknown): string | null {
+  if (typeof payload !== 'object' || payload === null || Array.isArray(payload)) {
+    return 'Event is not a JSON object';
+  }
+
+  const record = payload as Record<string, unknown>;
+  if (typeof record.type !== 'string') {
+    return 'Event has no type';
+  }
+
+  const type = record.type;
+  if (!Object.prototype.hasOwnProperty.call(CLIENT_EVENT_FIELDS, type)) {
+    return `Unsupported event type "${type}"`;
+  }
+
+  for (const [field, kind] of Object.entries(CLIENT_EVENT_FIELDS[type as ClientEventType])) {
+    if (!matchesKind(record[field], kind)) {
+      return `Field "${field}" of "${type}" should be ${kind.replace('?', ' or null')}`;
+    }
+  }
+
+  return null;
+}
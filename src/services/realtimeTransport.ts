@@ -0,0 +1,85 @@
+import { SessionToken } from './tokenService';
+import { ClientEvent } from './realtimeEvents';
+
+// How audio and events reach the Realtime API
+export type TransportKind = 'webrtc' | 'websocket' | 'socket.io';
+export type TransportPreference = TransportKind | 'auto';
+
+export interface RealtimeTransportEvents {
+  // The event channel is open and ready for session.update
+  'open': void;
+  // A raw server event, parsed and validated by AudioService
+  'message': string;
+  // An established connection dropped; AudioService decides whether to reconnect
+  'connection-lost': string;
+  // Tutor audio as a MediaStream, when the transport can provide one
+  'remote-stream': MediaStream;
+}
+
+export interface TransportTimeouts {
+  // How long a connection may stay interrupted before it counts as lost
+  disconnectGraceMs: number;
+  // How long to wait for a connection to come up
+  connectTimeoutMs: number;
+}
+
+export interface RealtimeTransport {
+  readonly kind: TransportKind;
+  readonly isOpen: boolean;
+  // Tutor audio is played by the client rather than streamed as media
+  readonly playsAudioLocally: boolean;
+  // Resolves once audio and events can flow; the mic stream is null where the transport captures audio itself.
+  // Without captureAudio (text-only sessions) the mic is never touched and tutor audio only flows down
+  connect(token: SessionToken, stream: MediaStream | null, captureAudio: boolean): Promise<void>;
+  // Cheap recovery that keeps the upstream session, where the transport supports one
+  restart?(token: SessionToken): Promise<void>;
+  send(event: ClientEvent): boolean;
+  // Event-based transports hand tutor audio from `response.audio.delta` to their playback queue
+  receiveAudio(delta: string): void;
+  // Stop tutor audio that is already on its way to the speaker
+  clearPlayback(): void;
+  // Whether mic audio should reach the model right now (mute, push-to-talk)
+  setInputEnabled(enabled: boolean): void;
+  setOutput(muted: boolean, volume: number): void;
+  // Switch to another mic mid-call without renegotiating the upstream session
+  replaceInputStream(stream: MediaStream): Promise<void>;
+  // Route tutor audio to an output device; null for the system default
+  setOutputDevice(deviceId: string | null): Promise<void>;
+  // Media stats for quality monitoring, where the transport has them
+  getStats?(): Promise<RTCStatsReport>;
+  close(): void;
+  on<K extends keyof RealtimeTransportEvents>(event: K, listener: (payload: RealtimeTransportEvents[K]) => void): () => void;
+}
+
+// The Realtime API turned the session token down; the provider has to mint a new one
+export class TokenRejectedError extends Error {
+  constructor() {
+    super('Session token was rejected or has expired');
+    this.name = 'TokenRejectedError';
+  }
+}
+
+export type TransportFactory = (kind: TransportKind, timeouts: TransportTimeouts) => RealtimeTransport;
+
+export function supportsWebRtc(): boolean {
+  return typeof RTCPeerConnection !== 'undefined'
+    && typeof document !== 'undefined'
+    && typeof navigator !== 'undefined'
+    && !!navigator.mediaDevices;
+}
+
+// WebRTC where the runtime has it, otherwise audio over a WebSocket
+export function selectTransportKind(preference: TransportPreference): TransportKind {
+  if (preference !== 'auto') return preference;
+  return supportsWebRtc() ? 'webrtc' : 'websocket';
+}
+
+// Sockets can't send an Authorization header from the browser, so the token travels as a subprotocol
+export function realtimeSocketUrl(token: SessionToken): string {
+  const url = token.realtimeUrl.replace(/^http/, 'ws');
+  return `${url}?model=${encodeURIComponent(token.model)}`;
+}
+
+export function realtimeSocketProtocols(token: SessionToken): string[] {
+  return ['realtime', `openai-insecure-api-key.${token.value}`, 'openai-beta.realtime-v1'];
+}
@@ -0,0 +1,57 @@
+import { RecordingSegment } from './sessionRecorder';
+
+// Limits on how much recorded audio is kept; the oldest sessions' recordings go first
+export interface RecordingRetentionPolicy {
+  maxSessions: number;
+  maxBytes: number;
+  maxAgeMs: number;
+}
+
+export const DEFAULT_RETENTION_POLICY: RecordingRetentionPolicy = {
+  maxSessions: 20,
+  maxBytes: 200 * 1024 * 1024,
+  maxAgeMs: 30 * 24 * 60 * 60 * 1000,
+};
+
+export interface RecordingUsage {
+  sessionId: string;
+  // Start of the session's first segment
+  startedAt: number;
+  bytes: number;
+}
+
+// Audio recorded during practice sessions, keyed by the session it belongs to
+export interface RecordingRepository {
+  // Appends to whatever was already stored for the session
+  save(sessionId: string, segments: RecordingSegment[]): Promise<void>;
+  // Oldest first; empty when nothing was recorded
+  get(sessionId: string): Promise<RecordingSegment[]>;
+  delete(sessionId: string): Promise<void>;
+  applyRetention(policy: RecordingRetentionPolicy): Promise<void>;
+}
+
+// Sessions whose recordings fall outside the policy
+export function selectExpiredRecordings(
+  usage: RecordingUsage[],
+  policy: RecordingRetentionPolicy,
+  now = Date.now(),
+): string[] {
+  const newestFirst = [...usage].sort((a, b) => b.startedAt - a.startedAt);
+  const expired: string[] = [];
+  let keptBytes = 0;
+  let keptSessions = 0;
+
+  for (const session of newestFirst) {
+    const keep = now - session.startedAt <= policy.maxAgeMs
+      && keptSessions < policy.maxSessions
+      && keptBytes + session.bytes <= policy.maxBytes;
+
+    if (keep) {
+      keptSessions++;
+      keptBytes += session.bytes;
+    } else {
+      expired.push(session.sessionId);
+    }
+  }
+  return expired;
+}
@@ -0,0 +1,78 @@
+import { TypedEventEmitter } from './eventEmitter';
+import { RealtimeTransport, RealtimeTransportEvents } from './realtimeTransport';
+import { EventLogEntry } from './eventLog';
+
+// Plays the server side of a saved event log back to AudioService, with the recorded timing
+// divided by speed (Infinity for no delays). What the client sends goes nowhere, and no audio is played
+export class ReplayTransport implements RealtimeTransport {
+  readonly kind = 'websocket' as const;
+  readonly playsAudioLocally = false;
+  private events = new TypedEventEmitter<RealtimeTransportEvents>();
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private isClosed = false;
+  private finish: () => void = () => {};
+  // Resolves once the last event has been delivered, or the replay was stopped
+  readonly finished = new Promise<void>(resolve => {
+    this.finish = resolve;
+  });
+
+  constructor(
+    private readonly entries: EventLogEntry[],
+    private readonly speed = 1,
+  ) {}
+
+  get isOpen(): boolean {
+    return !this.isClosed;
+  }
+
+  on<K extends keyof RealtimeTransportEvents>(event: K, listener: (payload: RealtimeTransportEvents[K]) => void): () => void {
+    return this.events.on(event, listener);
+  }
+
+  async connect(): Promise<void> {
+    this.events.emit('open', undefined);
+    const serverEntries = this.entries.filter(entry => entry.direction === 'server');
+    this.deliver(serverEntries, 0, Date.now());
+  }
+
+  private deliver(entries: EventLogEntry[], index: number, startedAt: number): void {
+    if (this.isClosed) return;
+    if (index >= entries.length) {
+      this.finish();
+      return;
+    }
+
+    const offset = (entries[index].at - entries[0].at) / this.speed;
+    const delay = Math.max(0, startedAt + offset - Date.now());
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.events.emit('message', entries[index].data);
+      this.deliver(entries, index + 1, startedAt);
+    }, delay);
+  }
+
+  send(): boolean {
+    return !this.isClosed;
+  }
+
+  receiveAudio(): void {}
+
+  clearPlayback(): void {}
+
+  setInputEnabled(): void {}
+
+  setOutput(): void {}
+
+  async replaceInputStream(): Promise<void> {}
+
+  async setOutputDevice(): Promise<void> {}
+
+  close(): void {
+    this.isClosed = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.finish();
+  }
+}
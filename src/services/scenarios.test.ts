@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { BUILT_IN_SCENARIOS, parseScenarioLibrary, Scenario, serializeScenarioLibrary } from './scenarios';
+
+const [COFFEE, INTERVIEW] = BUILT_IN_SCENARIOS;
+
+function withoutField(scenario: Scenario, field: keyof Scenario): Record<string, unknown> {
+  const { [field]: _removed, ...rest } = scenario;
+  return rest;
+}
+
+describe('parseScenarioLibrary', () => {
+  it('reads back a library it wrote', () => {
+    expect(parseScenarioLibrary(serializeScenarioLibrary(BUILT_IN_SCENARIOS))).toEqual(BUILT_IN_SCENARIOS);
+  });
+
+  it('accepts a bare list of scenarios and fills in the optional fields', () => {
+    const { level: _level, targetPhrases: _phrases, ...required } = COFFEE;
+
+    expect(parseScenarioLibrary(JSON.stringify([required]))).toEqual([{ ...COFFEE, level: null, targetPhrases: [] }]);
+  });
+
+  it('rejects a file that is not JSON', () => {
+    expect(() => parseScenarioLibrary('{"scenarios": [')).toThrow('The scenario file is not valid JSON');
+  });
+
+  it('rejects a library without a scenario list or of another version', () => {
+    expect(() => parseScenarioLibrary('{"version": 1}')).toThrow('The scenario file has no "scenarios" list');
+    expect(() => parseScenarioLibrary('"scenarios"')).toThrow('The scenario file has no "scenarios" list');
+    expect(() => parseScenarioLibrary(JSON.stringify({ version: 2, scenarios: [] }))).toThrow('Unsupported scenario library version 2');
+  });
+
+  it('names the scenario and field that are missing', () => {
+    expect(() => parseScenarioLibrary(JSON.stringify([COFFEE, withoutField(INTERVIEW, 'setting')])))
+      .toThrow('Scenario "job-interview": missing "setting"');
+    expect(() => parseScenarioLibrary(JSON.stringify([withoutField(COFFEE, 'id')]))).toThrow('Scenario 1: missing "id"');
+    expect(() => parseScenarioLibrary(JSON.stringify([{ ...COFFEE, title: '   ' }]))).toThrow('Scenario "order-coffee": missing "title"');
+    expect(() => parseScenarioLibrary(JSON.stringify([null]))).toThrow('Scenario 1 is not an object');
+  });
+
+  it('rejects malformed goals, levels and phrases', () => {
+    expect(() => parseScenarioLibrary(JSON.stringify([{ ...COFFEE, goals: [] }])))
+      .toThrow('Scenario "order-coffee": "goals" must list at least one goal');
+    expect(() => parseScenarioLibrary(JSON.stringify([{ ...COFFEE, goals: [{ id: 'greet' }] }])))
+      .toThrow('Scenario "order-coffee", goal 1: missing "description"');
+    expect(() => parseScenarioLibrary(JSON.stringify([{ ...COFFEE, level: 'D1' }])))
+      .toThrow('Scenario "order-coffee": "level" must be one of');
+    expect(() => parseScenarioLibrary(JSON.stringify([{ ...COFFEE, targetPhrases: ['Hello', 3] }])))
+      .toThrow('Scenario "order-coffee": "targetPhrases" must be a list of strings');
+  });
+
+  it('rejects duplicate scenario and goal ids', () => {
+    expect(() => parseScenarioLibrary(JSON.stringify([COFFEE, { ...INTERVIEW, id: COFFEE.id }]))).toThrow('Scenario ids must be unique');
+    expect(() => parseScenarioLibrary(JSON.stringify([{ ...COFFEE, goals: [COFFEE.goals[0], COFFEE.goals[0]] }])))
+      .toThrow('Scenario "order-coffee": goal ids must be unique');
+  });
+});
@@ -0,0 +1,246 @@
+import { CEFR_LEVELS, CefrLevel, isCefrLevel } from './tutorProfile';
+
+export interface ScenarioGoal {
+  // Referenced by the model when it reports progress
+  id: string;
+  description: string;
+}
+
+// A guided role-play, authored by teachers as JSON
+export interface Scenario {
+  id: string;
+  title: string;
+  // Suggested learner level, for the scenario list only
+  level: CefrLevel | null;
+  setting: string;
+  tutorRole: string;
+  learnerRole: string;
+  goals: ScenarioGoal[];
+  // Phrases the learner should try to use
+  targetPhrases: string[];
+  // How the tutor decides whether the learner passed
+  successRubric: string;
+}
+
+export interface ScenarioResult {
+  passed: boolean;
+  summary: string;
+}
+
+export interface ScenarioProgress {
+  scenario: Scenario;
+  // What the learner said to achieve each goal, by goal id
+  completedGoals: Record<string, string>;
+  // Set once the scene has been assessed
+  result: ScenarioResult | null;
+}
+
+export const SCENARIO_LIBRARY_VERSION = 1;
+
+export const BUILT_IN_SCENARIOS: Scenario[] = [
+  {
+    id: 'order-coffee',
+    title: 'Order a coffee',
+    level: 'A2',
+    setting: 'A busy café on a weekday morning. There is a short queue behind the learner.',
+    tutorRole: 'A friendly barista',
+    learnerRole: 'A customer who wants a drink and something to eat',
+    goals: [
+      { id: 'greet', description: 'Greet the barista' },
+      { id: 'order-drink', description: 'Order a drink, including its size' },
+      { id: 'order-food', description: 'Ask about or order something to eat' },
+      { id: 'here-or-away', description: 'Say whether it is to have here or to take away' },
+      { id: 'pay', description: 'Ask how much it is and pay' },
+    ],
+    targetPhrases: ['Could I have…?', 'I\'d like…', 'to take away', 'How much is that?'],
+    successRubric: 'The learner completes the order politely and the barista understands what they want without having to guess.',
+  },
+  {
+    id: 'job-interview',
+    title: 'Job interview',
+    level: 'B2',
+    setting: 'A first-round interview for a job the learner would like to have, in a small office.',
+    tutorRole: 'A hiring manager who is friendly but asks follow-up questions',
+    learnerRole: 'A candidate for the job',
+    goals: [
+      { id: 'introduce', description: 'Introduce yourself and your background' },
+      { id: 'strength', description: 'Describe a strength with a concrete example' },
+      { id: 'weakness', description: 'Talk about a weakness and how you work on it' },
+      { id: 'motivation', description: 'Explain why you want this job' },
+      { id: 'question', description: 'Ask the interviewer a question about the role' },
+    ],
+    targetPhrases: ['I have experience in…', 'For example, …', 'I\'m particularly interested in…', 'Could you tell me more about…?'],
+    successRubric: 'The learner answers in full sentences, supports claims with examples, and keeps a professional register throughout.',
+  },
+  {
+    id: 'hotel-check-in',
+    title: 'Check in at a hotel',
+    level: 'B1',
+    setting: 'The reception desk of a city hotel in the evening. The learner has a booking.',
+    tutorRole: 'A hotel receptionist',
+    learnerRole: 'A guest arriving for a three-night stay',
+    goals: [
+      { id: 'booking', description: 'Say you have a booking and give your name' },
+      { id: 'confirm', description: 'Confirm the dates and room type' },
+      { id: 'breakfast', description: 'Ask about breakfast times' },
+      { id: 'wifi', description: 'Ask how to connect to the Wi-Fi' },
+      { id: 'problem', description: 'Politely raise a problem, such as a noisy room, and ask for a solution' },
+    ],
+    targetPhrases: ['I have a reservation under…', 'Is breakfast included?', 'Would it be possible to…?'],
+    successRubric: 'The learner gets all the information they need and handles the problem politely and clearly.',
+  },
+];
+
+function readString(value: Record<string, unknown>, field: string, where: string): string {
+  const text = value[field];
+  if (typeof text !== 'string' || !text.trim()) {
+    throw new Error(`${where}: missing "${field}"`);
+  }
+  return text.trim();
+}
+
+function parseScenario(value: unknown, index: number): Scenario {
+  if (typeof value !== 'object' || value === null) {
+    throw new Error(`Scenario ${index + 1} is not an object`);
+  }
+  const raw = value as Record<string, unknown>;
+  const where = typeof raw.id === 'string' ? `Scenario "${raw.id}"` : `Scenario ${index + 1}`;
+
+  const level = raw.level ?? null;
+  if (level !== null && !isCefrLevel(level)) {
+    throw new Error(`${where}: "level" must be one of ${Object.keys(CEFR_LEVELS).join(', ')}`);
+  }
+  if (!Array.isArray(raw.goals) || raw.goals.length === 0) {
+    throw new Error(`${where}: "goals" must list at least one goal`);
+  }
+  const goals = raw.goals.map((goal, goalIndex) => {
+    if (typeof goal !== 'object' || goal === null) {
+      throw new Error(`${where}: goal ${goalIndex + 1} is not an object`);
+    }
+    return {
+      id: readString(goal as Record<string, unknown>, 'id', `${where}, goal ${goalIndex + 1}`),
+      description: readString(goal as Record<string, unknown>, 'description', `${where}, goal ${goalIndex + 1}`),
+    };
+  });
+  if (new Set(goals.map(goal => goal.id)).size !== goals.length) {
+    throw new Error(`${where}: goal ids must be unique`);
+  }
+  const targetPhrases = raw.targetPhrases ?? [];
+  if (!Array.isArray(targetPhrases) || targetPhrases.some(phrase => typeof phrase !== 'string')) {
+    throw new Error(`${where}: "targetPhrases" must be a list of strings`);
+  }
+
+  return {
+    id: readString(raw, 'id', where),
+    title: readString(raw, 'title', where),
+    level: level as CefrLevel | null,
+    setting: readString(raw, 'setting', where),
+    tutorRole: readString(raw, 'tutorRole', where),
+    learnerRole: readString(raw, 'learnerRole', where),
+    goals,
+    targetPhrases: targetPhrases.map(phrase => phrase.trim()).filter(Boolean),
+    successRubric: readString(raw, 'successRubric', where),
+  };
+}
+
+// Accepts a library ({ "version": 1, "scenarios": [...] }) or a bare list of scenarios;
+// throws with a message a teacher can act on
+export function parseScenarioLibrary(json: string): Scenario[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error('The scenario file is not valid JSON');
+  }
+
+  let scenarios: unknown = parsed;
+  if (!Array.isArray(parsed) && typeof parsed === 'object' && parsed !== null) {
+    const library = parsed as Record<string, unknown>;
+    if (library.version !== undefined && library.version !== SCENARIO_LIBRARY_VERSION) {
+      throw new Error(`Unsupported scenario library version ${String(library.version)}`);
+    }
+    scenarios = library.scenarios;
+  }
+  if (!Array.isArray(scenarios)) {
+    throw new Error('The scenario file has no "scenarios" list');
+  }
+
+  const parsedScenarios = scenarios.map(parseScenario);
+  if (new Set(parsedScenarios.map(scenario => scenario.id)).size !== parsedScenarios.length) {
+    throw new Error('Scenario ids must be unique');
+  }
+  return parsedScenarios;
+}
+
+export function serializeScenarioLibrary(scenarios: Scenario[]): string {
+  return JSON.stringify({ version: SCENARIO_LIBRARY_VERSION, scenarios }, null, 2);
+}
+
+// Imported scenarios replace earlier imports and built-ins with the same id
+export function mergeScenarios(existing: Scenario[], imported: Scenario[]): Scenario[] {
+  const importedIds = new Set(imported.map(scenario => scenario.id));
+  return [...existing.filter(scenario => !importedIds.has(scenario.id)), ...imported];
+}
+
+// Teacher-imported scenarios on this device
+export interface ScenarioStore {
+  load(): Scenario[];
+  save(scenarios: Scenario[]): void;
+}
+
+const STORAGE_KEY = 'importedScenarios';
+
+export const localStorageScenarioStore: ScenarioStore = {
+  load() {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      return stored ? parseScenarioLibrary(stored) : [];
+    } catch {
+      return [];
+    }
+  },
+  save(scenarios) {
+    try {
+      localStorage.setItem(STORAGE_KEY, serializeScenarioLibrary(scenarios));
+    } catch (error) {
+      console.warn('Failed to save scenarios:', error);
+    }
+  },
+};
+
+// Added to the tutor's instructions while a scenario runs
+export function compileScenarioInstructions(scenario: Scenario): string {
+  const lines = [
+    `This session is a role-play called "${scenario.title}". Setting: ${scenario.setting}`,
+    `You play ${scenario.tutorRole}. The learner plays ${scenario.learnerRole}. Stay in character and open the scene yourself, instead of the usual greeting.`,
+    'The learner\'s goals, by id:',
+    ...scenario.goals.map(goal => `- ${goal.id}: ${goal.description}`),
+  ];
+  if (scenario.targetPhrases.length > 0) {
+    lines.push(`Give the learner natural chances to use these phrases: ${scenario.targetPhrases.join('; ')}.`);
+  }
+  lines.push(
+    `Success rubric: ${scenario.successRubric}`,
+    'Whenever the learner achieves a goal, call complete_scenario_goal with its id. Once every goal is done or the scene has clearly ended, call finish_scenario with your assessment against the rubric, then step out of character and give brief feedback.',
+  );
+  return lines.join('\n');
+}
+
+export function startScenarioProgress(scenario: Scenario): ScenarioProgress {
+  return { scenario, completedGoals: {}, result: null };
+}
+
+export function completeScenarioGoal(progress: ScenarioProgress, goalId: string, evidence: string): ScenarioProgress {
+  if (progress.completedGoals[goalId] !== undefined) return progress;
+  return { ...progress, completedGoals: { ...progress.completedGoals, [goalId]: evidence } };
+}
+
+// Used when the call ends before the tutor has assessed the scene
+export function assessScenarioLocally(progress: ScenarioProgress): ScenarioResult {
+  const done = progress.scenario.goals.filter(goal => progress.completedGoals[goal.id] !== undefined).length;
+  const total = progress.scenario.goals.length;
+  return {
+    passed: done === total,
+    summary: `${done} of ${total} goals completed before the scenario ended.`,
+  };
+}
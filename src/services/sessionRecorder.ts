@@ -0,0 +1,176 @@
+import { ConversationTurn } from './conversationStore';
+
+export type RecordingTrack = 'learner' | 'tutor';
+
+// Why a track is currently not being recorded
+export type RecordingPauseReason = 'mic-off' | 'reconnecting';
+
+// One continuous stretch of audio; pausing a track ends its segment and resuming starts a new one
+export interface RecordingSegment {
+  track: RecordingTrack;
+  startedAt: number;
+  endedAt: number;
+  mimeType: string;
+  blob: Blob;
+}
+
+interface ActiveSegment {
+  recorder: MediaRecorder;
+  stream: MediaStream;
+}
+
+const TRACKS: RecordingTrack[] = ['learner', 'tutor'];
+
+// Preferred container first; Safari only offers mp4
+const MIME_TYPES = ['audio/webm;codecs=opus', 'audio/webm', 'audio/mp4'];
+
+// A push-to-talk press is recorded just before its turn is announced
+const CLIP_LOOKBEHIND_MS = 2000;
+
+function pickMimeType(): string {
+  return MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type)) ?? '';
+}
+
+function hasLiveAudio(stream: MediaStream | null): stream is MediaStream {
+  return !!stream && stream.getAudioTracks().some(track => track.readyState === 'live');
+}
+
+// Records the learner's mic and the tutor's remote audio as separate, timestamped segments
+export class SessionRecorder {
+  private isRecording = false;
+  private streams: Record<RecordingTrack, MediaStream | null> = { learner: null, tutor: null };
+  private pauseReasons: Record<RecordingTrack, Set<RecordingPauseReason>> = {
+    learner: new Set(),
+    tutor: new Set(),
+  };
+  private active: Partial<Record<RecordingTrack, ActiveSegment>> = {};
+  private finished: Promise<RecordingSegment | null>[] = [];
+
+  constructor(private readonly now: () => number = Date.now) {}
+
+  static isSupported(): boolean {
+    return typeof MediaRecorder !== 'undefined';
+  }
+
+  start(): void {
+    this.isRecording = true;
+    TRACKS.forEach(track => this.sync(track));
+  }
+
+  // Streams are replaced when the mic is re-acquired or the peer connection is rebuilt
+  setStream(track: RecordingTrack, stream: MediaStream | null): void {
+    this.streams[track] = stream;
+    this.sync(track);
+  }
+
+  setPaused(track: RecordingTrack, reason: RecordingPauseReason, paused: boolean): void {
+    if (paused) {
+      this.pauseReasons[track].add(reason);
+    } else {
+      this.pauseReasons[track].delete(reason);
+    }
+    this.sync(track);
+  }
+
+  // Resolves with every non-empty segment, oldest first
+  async stop(): Promise<RecordingSegment[]> {
+    this.isRecording = false;
+    TRACKS.forEach(track => this.sync(track));
+
+    const segments = await Promise.all(this.finished);
+    this.finished = [];
+    return segments
+      .filter((segment): segment is RecordingSegment => !!segment && segment.blob.size > 0)
+      .sort((a, b) => a.startedAt - b.startedAt);
+  }
+
+  private sync(track: RecordingTrack): void {
+    const stream = this.streams[track];
+    const shouldRecord = this.isRecording && this.pauseReasons[track].size === 0 && hasLiveAudio(stream);
+    const active = this.active[track];
+
+    if (active && (!shouldRecord || active.stream !== stream)) {
+      active.recorder.stop();
+      delete this.active[track];
+    }
+    if (shouldRecord && !this.active[track]) {
+      this.begin(track, stream!);
+    }
+  }
+
+  private begin(track: RecordingTrack, stream: MediaStream): void {
+    let recorder: MediaRecorder;
+    try {
+      const mimeType = pickMimeType();
+      recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+    } catch (error) {
+      console.error(`Failed to record ${track} audio:`, error);
+      return;
+    }
+
+    const startedAt = this.now();
+    const chunks: Blob[] = [];
+    const result = new Promise<RecordingSegment | null>(resolve => {
+      recorder.ondataavailable = event => {
+        if (event.data.size > 0) chunks.push(event.data);
+      };
+      recorder.onstop = () => {
+        const mimeType = recorder.mimeType || chunks[0]?.type || '';
+        resolve({
+          track,
+          startedAt,
+          endedAt: this.now(),
+          mimeType,
+          blob: new Blob(chunks, { type: mimeType }),
+        });
+      };
+      recorder.onerror = () => resolve(null);
+    });
+
+    recorder.start();
+    this.active[track] = { recorder, stream };
+    this.finished.push(result);
+  }
+}
+
+export interface TurnClip {
+  segment: RecordingSegment;
+  // Where the turn starts and stops within the segment
+  offsetMs: number;
+  durationMs: number;
+}
+
+export function trackForTurn(turn: ConversationTurn): RecordingTrack {
+  return turn.role === 'user' ? 'learner' : 'tutor';
+}
+
+// Find the recorded audio for a turn; it ends where the next turn begins
+export function findTurnClip(
+  segments: RecordingSegment[],
+  turn: ConversationTurn,
+  nextTurn?: ConversationTurn,
+): TurnClip | null {
+  const track = trackForTurn(turn);
+  const start = turn.startedAt;
+  const end = Math.max(nextTurn?.startedAt ?? turn.updatedAt, start);
+  const candidates = segments.filter(segment => segment.track === track);
+
+  const overlapping = candidates.find(segment => segment.startedAt <= end && segment.endedAt > start);
+  if (overlapping) {
+    const offsetMs = Math.max(0, start - overlapping.startedAt);
+    return {
+      segment: overlapping,
+      offsetMs,
+      durationMs: Math.max(0, Math.min(end, overlapping.endedAt) - overlapping.startedAt - offsetMs),
+    };
+  }
+
+  // Fall back to a segment that ended just before the turn was announced, e.g. a push-to-talk press
+  const preceding = candidates
+    .filter(segment => segment.endedAt <= start && start - segment.endedAt <= CLIP_LOOKBEHIND_MS)
+    .pop();
+  if (preceding) {
+    return { segment: preceding, offsetMs: 0, durationMs: preceding.endedAt - preceding.startedAt };
+  }
+  return null;
+}
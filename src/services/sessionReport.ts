@@ -0,0 +1,141 @@
+import { ConversationTurn } from './conversationStore';
+import { RealtimeResponse } from './realtimeEvents';
+import { Correction, CorrectionCategory, VocabularyItem } from './tutorTools';
+import { CefrLevel, isCefrLevel } from './tutorProfile';
+
+export interface ErrorPattern {
+  category: CorrectionCategory;
+  count: number;
+  // The latest few, newest last
+  examples: Correction[];
+}
+
+export interface SessionMetrics {
+  durationMs: number;
+  learnerTurns: number;
+  // Spoken time on each side, from the turns' audio timing
+  learnerTalkMs: number;
+  tutorTalkMs: number;
+  // Learner's share of the spoken time, 0..1; null when nothing was spoken
+  learnerTalkRatio: number | null;
+  // Over the learner's spoken turns only; null without any
+  wordsPerMinute: number | null;
+  uniqueWords: number;
+  averageUtteranceWords: number;
+  // Mistake categories corrected more than once, most frequent first
+  recurringErrors: ErrorPattern[];
+  correctionCount: number;
+  newWords: VocabularyItem[];
+}
+
+// Written by the tutor model at the end of the call
+export interface SessionNarrative {
+  summary: string;
+  nextSteps: string[];
+  // The tutor's CEFR estimate from this conversation; absent in reports written before it was asked for
+  estimatedLevel?: CefrLevel | null;
+}
+
+export interface SessionReport {
+  metrics: SessionMetrics;
+  // null when the session ended without the tutor being asked, e.g. the connection dropped
+  narrative: SessionNarrative | null;
+}
+
+const MAX_ERROR_EXAMPLES = 3;
+
+function wordsOf(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+(?:['’][\p{L}]+)*/gu) ?? [];
+}
+
+export function computeSessionMetrics(turns: ConversationTurn[], startedAt: number, endedAt: number): SessionMetrics {
+  const learnerTurns = turns.filter(turn => turn.role === 'user' && turn.text.trim());
+  const spokenTime = (role: ConversationTurn['role']) => turns
+    .filter(turn => turn.role === role)
+    .reduce((total, turn) => total + (turn.audioMs ?? 0), 0);
+  const learnerTalkMs = spokenTime('user');
+  const tutorTalkMs = spokenTime('assistant');
+
+  const learnerWords = learnerTurns.map(turn => wordsOf(turn.text));
+  const totalWords = learnerWords.reduce((total, words) => total + words.length, 0);
+  const timedTurns = learnerTurns.filter(turn => turn.source === 'audio' && turn.audioMs);
+  const timedWords = timedTurns.reduce((total, turn) => total + wordsOf(turn.text).length, 0);
+  const timedMs = timedTurns.reduce((total, turn) => total + (turn.audioMs ?? 0), 0);
+
+  const corrections = turns.flatMap(turn => turn.corrections);
+  const byCategory = new Map<CorrectionCategory, Correction[]>();
+  corrections.forEach(correction => {
+    byCategory.set(correction.category, [...(byCategory.get(correction.category) ?? []), correction]);
+  });
+  const recurringErrors = [...byCategory.entries()]
+    .filter(([, examples]) => examples.length > 1)
+    .map(([category, examples]) => ({
+      category,
+      count: examples.length,
+      examples: examples.slice(-MAX_ERROR_EXAMPLES),
+    }))
+    .sort((a, b) => b.count - a.count);
+
+  const newWords = new Map<string, VocabularyItem>();
+  turns.flatMap(turn => turn.vocabulary).forEach(item => {
+    const key = item.word.toLowerCase();
+    if (!newWords.has(key)) newWords.set(key, item);
+  });
+
+  return {
+    durationMs: Math.max(0, endedAt - startedAt),
+    learnerTurns: learnerTurns.length,
+    learnerTalkMs,
+    tutorTalkMs,
+    learnerTalkRatio: learnerTalkMs + tutorTalkMs > 0 ? learnerTalkMs / (learnerTalkMs + tutorTalkMs) : null,
+    wordsPerMinute: timedMs > 0 ? Math.round(timedWords / (timedMs / 60_000)) : null,
+    uniqueWords: new Set(learnerWords.flat()).size,
+    averageUtteranceWords: learnerTurns.length > 0 ? Math.round((totalWords / learnerTurns.length) * 10) / 10 : 0,
+    recurringErrors,
+    correctionCount: corrections.length,
+    newWords: [...newWords.values()],
+  };
+}
+
+// Replaces the session instructions for the out-of-band request, so it has to stand on its own
+export const SESSION_NARRATIVE_INSTRUCTIONS = [
+  'The practice session is over. Do not address the learner directly or continue the conversation.',
+  'Write a short report on the learner\'s English in this conversation, for the learner to read.',
+  'Reply with JSON only, in exactly this shape: {"summary": "...", "nextSteps": ["...", "..."], "level": "B1"}.',
+  '"summary" is two to four sentences on what went well and what was difficult. "nextSteps" lists two or three concrete things to practise next.',
+  '"level" is your estimate of the learner\'s CEFR level from this conversation (A1, A2, B1, B2, C1 or C2), or null if there was too little to judge.',
+].join('\n');
+
+// The model usually returns the JSON it was asked for, but anything readable is kept
+export function parseSessionNarrative(text: string): SessionNarrative | null {
+  const trimmed = text.trim().replace(/^```(?:json)?\s*|\s*```$/g, '');
+  if (!trimmed) return null;
+
+  try {
+    const parsed = JSON.parse(trimmed);
+    if (typeof parsed?.summary === 'string') {
+      return {
+        summary: parsed.summary.trim(),
+        nextSteps: Array.isArray(parsed.nextSteps)
+          ? parsed.nextSteps.filter((step: unknown): step is string => typeof step === 'string' && !!step.trim())
+          : [],
+        estimatedLevel: isCefrLevel(parsed.level) ? parsed.level : null,
+      };
+    }
+  } catch {
+    // Not JSON after all; fall through to plain text
+  }
+  return { summary: trimmed, nextSteps: [], estimatedLevel: null };
+}
+
+export function responseText(response: RealtimeResponse): string {
+  return response.output
+    .flatMap(item => (item.type === 'message' ? item.content : []))
+    .map(part => (part.type === 'text' ? part.text : ''))
+    .join('');
+}
+
+export function formatMinutes(ms: number): string {
+  const minutes = ms / 60_000;
+  return minutes < 1 ? `${Math.round(ms / 1000)} s` : `${Math.round(minutes * 10) / 10} min`;
+}
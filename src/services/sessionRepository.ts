@@ -0,0 +1,52 @@
+import { ConversationTurn } from './conversationStore';
+import { TutorProfile } from './tutorProfile';
+import { ScenarioProgress } from './scenarios';
+import { SessionReport } from './sessionReport';
+
+export interface SessionRecord {
+  // The sessionId generated by useAudioChat for the call
+  id: string;
+  startedAt: number;
+  endedAt: number | null;
+  tutorProfile: TutorProfile;
+  turns: ConversationTurn[];
+  // Role-play calls only; absent in sessions saved before scenarios existed
+  scenario?: ScenarioProgress | null;
+  // Written once the session has ended
+  report?: SessionReport | null;
+}
+
+export interface SessionSummary {
+  id: string;
+  startedAt: number;
+  endedAt: number | null;
+  turnCount: number;
+  // First words of the learner's first turn, for the history list
+  preview: string;
+}
+
+// Storage for past practice sessions; each platform provides its own implementation
+export interface SessionRepository {
+  save(record: SessionRecord): Promise<void>;
+  get(id: string): Promise<SessionRecord | null>;
+  // Newest first
+  list(): Promise<SessionSummary[]>;
+  delete(id: string): Promise<void>;
+}
+
+const PREVIEW_LENGTH = 80;
+
+export function summarizeSession(record: SessionRecord): SessionSummary {
+  const firstUserTurn = record.turns.find(turn => turn.role === 'user' && turn.text);
+  const previewSource = firstUserTurn?.text ?? record.turns.find(turn => turn.text)?.text ?? '';
+
+  return {
+    id: record.id,
+    startedAt: record.startedAt,
+    endedAt: record.endedAt,
+    turnCount: record.turns.length,
+    preview: previewSource.length > PREVIEW_LENGTH
+      ? `${previewSource.slice(0, PREVIEW_LENGTH - 1)}…`
+      : previewSource,
+  };
+}
@@ -0,0 +1,65 @@
+import { io, Socket } from 'socket.io-client';
+import { SessionToken } from './tokenService';
+import { PcmAudioFactory, PcmEventTransport } from './pcmEventTransport';
+import { TransportTimeouts } from './realtimeTransport';
+
+// Through a socket.io relay, for networks that only allow plain HTTP(S) to our own origin.
+// The relay opens the upstream Realtime socket with the session token from the handshake, then
+// forwards JSON strings: 'client-event' up, 'server-event' down. It emits 'relay-ready' once the
+// upstream socket is open and 'relay-error' with a message if it can't be opened or drops.
+export class SocketIoTransport extends PcmEventTransport {
+  readonly kind = 'socket.io' as const;
+  private socket: Socket | null = null;
+  private isReady = false;
+
+  constructor(
+    private readonly relayUrl: string,
+    timeouts: TransportTimeouts,
+    createAudio: PcmAudioFactory,
+  ) {
+    super(timeouts, createAudio);
+  }
+
+  get isOpen(): boolean {
+    return this.isReady && !!this.socket?.connected;
+  }
+
+  protected openChannel(token: SessionToken): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const socket = io(this.relayUrl, {
+        auth: { token: token.value, model: token.model, realtimeUrl: token.realtimeUrl },
+        // Reconnects go through AudioService so the session is configured again
+        reconnection: false,
+      });
+      this.socket = socket;
+
+      socket.on('relay-ready', () => {
+        this.isReady = true;
+        resolve();
+      });
+      socket.on('server-event', (data: string) => this.handleMessage(data));
+      socket.on('relay-error', (message: string) => {
+        reject(new Error(message));
+        this.handleClosed(message);
+      });
+      socket.on('connect_error', error => reject(new Error(`Relay connection failed: ${error.message}`)));
+      socket.on('disconnect', reason => {
+        reject(new Error(`Relay disconnected: ${reason}`));
+        this.handleClosed(`Relay disconnected: ${reason}`);
+      });
+    });
+  }
+
+  protected sendRaw(data: string): void {
+    this.socket?.emit('client-event', data);
+  }
+
+  protected closeChannel(): void {
+    this.isReady = false;
+    if (this.socket) {
+      this.socket.removeAllListeners();
+      this.socket.disconnect();
+      this.socket = null;
+    }
+  }
+}
@@ -0,0 +1,39 @@
+import { LOCAL_PIPELINE_URL } from '../config';
+import { SessionToken } from './tokenService';
+import { RealtimeTransport, TransportKind, TransportPreference, TransportTimeouts } from './realtimeTransport';
+import { PricingTable } from './usageMeter';
+import { PcmAudioFactory } from './pcmEventTransport';
+import { OpenAiRealtimeProvider } from './openAiRealtimeProvider';
+import { LocalPipelineProvider } from './localPipelineProvider';
+
+export type SpeechProviderKind = 'openai-realtime' | 'local';
+
+// Where speech recognition, the tutor model and its voice come from. A call runs over one of the
+// provider's transports (connect, send audio and text, receive transcript, audio and tool events, close),
+// which all speak the Realtime event protocol, so the rest of the app doesn't change with the provider.
+export interface SpeechProvider {
+  readonly kind: SpeechProviderKind;
+  // For logs and status text
+  readonly label: string;
+  // Credentials and endpoint for a new upstream session
+  getSession(): Promise<SessionToken>;
+  // Forget the cached session so the next getSession() starts a fresh one
+  invalidateSession(): void;
+  // Providers with a single transport ignore the preference
+  selectTransport(preference: TransportPreference): TransportKind;
+  createTransport(kind: TransportKind, timeouts: TransportTimeouts): RealtimeTransport;
+  // Prices behind the usage meter and budgets
+  pricing(model: string): PricingTable;
+}
+
+// Platforms without Web Audio pass their own PCM audio for event-based transports
+export function createSpeechProvider(kind: SpeechProviderKind, createAudio?: PcmAudioFactory): SpeechProvider {
+  switch (kind) {
+    case 'openai-realtime':
+      return new OpenAiRealtimeProvider({ createAudio });
+    case 'local':
+      return new LocalPipelineProvider(LOCAL_PIPELINE_URL, createAudio);
+    default:
+      throw new Error(`Unknown speech provider "${kind as string}"`);
+  }
+}
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { TokenService } from './tokenService';
+
+const BROKER_URL = 'https://broker.test/api/realtime/session';
+
+function serviceAnswering(body: unknown): TokenService {
+  return new TokenService(BROKER_URL, 'Token broker', { fetch: async () => Response.json(body) });
+}
+
+describe('TokenService', () => {
+  const token = { token: 'ek_1', expiresAt: Date.now() + 60_000, model: 'gpt-4o-realtime-preview', realtimeUrl: 'https://realtime.test/v1/realtime' };
+
+  it('hands out the token the broker minted', async () => {
+    await expect(serviceAnswering(token).getToken()).resolves.toEqual({
+      value: 'ek_1',
+      expiresAt: token.expiresAt,
+      model: 'gpt-4o-realtime-preview',
+      realtimeUrl: 'https://realtime.test/v1/realtime',
+    });
+  });
+
+  it('rejects a token without the model or Realtime URL to use it with', async () => {
+    await expect(serviceAnswering({ ...token, model: undefined }).getToken()).rejects.toThrow('Token broker returned an invalid session token');
+    await expect(serviceAnswering({ ...token, realtimeUrl: 42 }).getToken()).rejects.toThrow('Token broker returned an invalid session token');
+  });
+});
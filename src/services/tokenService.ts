@@ -0,0 +1,84 @@
+import { TOKEN_BROKER_URL } from '../config';
+import { BrowserApis, browserApis } from './browserApis';
+
+export interface SessionToken {
+  value: string;
+  expiresAt: number;
+  model: string;
+  realtimeUrl: string;
+}
+
+// Refresh tokens this long before they actually expire so a slow SDP exchange doesn't race the expiry
+const EXPIRY_MARGIN_MS = 10_000;
+
+export class TokenService {
+  private cachedToken: SessionToken | null = null;
+  private pendingRequest: Promise<SessionToken> | null = null;
+
+  // The name is only used in error messages
+  constructor(
+    private readonly brokerUrl: string,
+    private readonly name = 'Token broker',
+    private readonly apis: Pick<BrowserApis, 'fetch'> = browserApis
+  ) {}
+
+  async getToken(): Promise<SessionToken> {
+    if (this.cachedToken && this.cachedToken.expiresAt - EXPIRY_MARGIN_MS > Date.now()) {
+      return this.cachedToken;
+    }
+
+    // Share a single in-flight request between concurrent callers
+    if (!this.pendingRequest) {
+      this.pendingRequest = this.requestToken().finally(() => {
+        this.pendingRequest = null;
+      });
+    }
+
+    return this.pendingRequest;
+  }
+
+  // Drop the cached token so the next getToken() mints a fresh one
+  invalidate(): void {
+    this.cachedToken = null;
+  }
+
+  private async requestToken(): Promise<SessionToken> {
+    let response: Response;
+    try {
+      response = await this.apis.fetch(this.brokerUrl, { method: 'POST' });
+    } catch (error) {
+      throw new Error(`${this.name} is unreachable at ${this.brokerUrl}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    if (!response.ok) {
+      let message = response.statusText;
+      try {
+        const body = await response.json();
+        message = body.error ?? message;
+      } catch {
+        // Keep the status text when the broker didn't send JSON
+      }
+      throw new Error(`${this.name} refused the session request (${response.status}): ${message}`);
+    }
+
+    const body = await response.json();
+    if (
+      typeof body.token !== 'string'
+      || typeof body.expiresAt !== 'number'
+      || typeof body.model !== 'string'
+      || typeof body.realtimeUrl !== 'string'
+    ) {
+      throw new Error(`${this.name} returned an invalid session token`);
+    }
+
+    this.cachedToken = {
+      value: body.token,
+      expiresAt: body.expiresAt,
+      model: body.model,
+      realtimeUrl: body.realtimeUrl,
+    };
+    return this.cachedToken;
+  }
+}
+
+export const tokenService = new TokenService(TOKEN_BROKER_URL);
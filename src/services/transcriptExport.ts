@@ -0,0 +1,131 @@
+import { ConversationTurn } from './conversationStore';
+import { SessionRecord } from './sessionRepository';
+import { CEFR_LEVELS } from './tutorProfile';
+
+export type ExportFormat = 'markdown' | 'json' | 'srt' | 'vtt';
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; extension: string; mimeType: string }> = {
+  markdown: { label: 'Markdown', extension: 'md', mimeType: 'text/markdown' },
+  json: { label: 'JSON', extension: 'json', mimeType: 'application/json' },
+  srt: { label: 'SRT', extension: 'srt', mimeType: 'application/x-subrip' },
+  vtt: { label: 'WebVTT', extension: 'vtt', mimeType: 'text/vtt' },
+};
+
+// Subtitle cues shorter than this are hard to read
+const MIN_CUE_MS = 1000;
+
+const SPEAKERS: Record<ConversationTurn['role'], string> = {
+  user: 'Learner',
+  assistant: 'Tutor',
+};
+
+interface Cue {
+  start: number;
+  end: number;
+  speaker: string;
+  text: string;
+}
+
+function spokenTurns(record: SessionRecord): ConversationTurn[] {
+  return record.turns.filter(turn => turn.text.trim());
+}
+
+// Cue timings relative to the start of the session, never overlapping the next turn
+function toCues(record: SessionRecord): Cue[] {
+  const turns = spokenTurns(record);
+  return turns.map((turn, index) => {
+    const start = Math.max(0, turn.startedAt - record.startedAt);
+    const next = turns[index + 1];
+    let end = Math.max(start + MIN_CUE_MS, turn.updatedAt - record.startedAt);
+    if (next) {
+      end = Math.max(start + 1, Math.min(end, next.startedAt - record.startedAt));
+    }
+    return { start, end, speaker: SPEAKERS[turn.role], text: turn.text.trim() };
+  });
+}
+
+function formatTimestamp(ms: number, fractionSeparator: ',' | '.'): string {
+  const hours = Math.floor(ms / 3_600_000);
+  const minutes = Math.floor((ms % 3_600_000) / 60_000);
+  const seconds = Math.floor((ms % 60_000) / 1000);
+  const millis = Math.floor(ms % 1000);
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${fractionSeparator}${pad(millis, 3)}`;
+}
+
+function formatClock(ms: number): string {
+  return formatTimestamp(ms, '.').slice(0, 8);
+}
+
+export function toMarkdown(record: SessionRecord): string {
+  const started = new Date(record.startedAt);
+  const lines = [
+    `# English practice session — ${started.toLocaleString()}`,
+    '',
+    `- Level: ${record.tutorProfile.level} (${CEFR_LEVELS[record.tutorProfile.level]})`,
+  ];
+  if (record.tutorProfile.topic) {
+    lines.push(`- Topic: ${record.tutorProfile.topic}`);
+  }
+  if (record.endedAt) {
+    lines.push(`- Duration: ${formatClock(record.endedAt - record.startedAt)}`);
+  }
+  lines.push('', '## Transcript', '');
+
+  for (const turn of spokenTurns(record)) {
+    const offset = formatClock(Math.max(0, turn.startedAt - record.startedAt));
+    lines.push(`**${SPEAKERS[turn.role]}** _(${offset})_: ${turn.text.trim()}`, '');
+
+    for (const correction of turn.corrections) {
+      lines.push(`> ✏️ ~~${correction.original}~~ → **${correction.corrected}** (${correction.category}): ${correction.explanation}`, '');
+    }
+    for (const word of turn.vocabulary) {
+      lines.push(`> 📘 **${word.word}** — ${word.definition} _“${word.example}”_`, '');
+    }
+  }
+
+  return lines.join('\n');
+}
+
+export function toJson(record: SessionRecord): string {
+  return JSON.stringify(record, null, 2);
+}
+
+export function toSrt(record: SessionRecord): string {
+  return toCues(record)
+    .map((cue, index) => [
+      String(index + 1),
+      `${formatTimestamp(cue.start, ',')} --> ${formatTimestamp(cue.end, ',')}`,
+      `${cue.speaker}: ${cue.text}`,
+      '',
+    ].join('\n'))
+    .join('\n');
+}
+
+export function toWebVtt(record: SessionRecord): string {
+  const cues = toCues(record).map(cue => [
+    `${formatTimestamp(cue.start, '.')} --> ${formatTimestamp(cue.end, '.')}`,
+    `<v ${cue.speaker}>${cue.text}`,
+    '',
+  ].join('\n'));
+
+  return ['WEBVTT', '', ...cues].join('\n');
+}
+
+export function exportTranscript(record: SessionRecord, format: ExportFormat): string {
+  switch (format) {
+    case 'markdown':
+      return toMarkdown(record);
+    case 'json':
+      return toJson(record);
+    case 'srt':
+      return toSrt(record);
+    case 'vtt':
+      return toWebVtt(record);
+  }
+}
+
+export function exportFileName(record: SessionRecord, format: ExportFormat): string {
+  const date = new Date(record.startedAt).toISOString().slice(0, 16).replace(/[:T]/g, '-');
+  return `english-session-${date}.${EXPORT_FORMATS[format].extension}`;
+}
@@ -0,0 +1,25 @@
+import { REALTIME_RELAY_URL } from '../config';
+import { RealtimeTransport, TransportKind, TransportTimeouts } from './realtimeTransport';
+import { WebRtcTransport } from './webRtcTransport';
+import { WebSocketTransport } from './webSocketTransport';
+import { SocketIoTransport } from './socketIoTransport';
+import { PcmAudioFactory } from './pcmEventTransport';
+import { createWebAudioPcm } from './webAudioPcm';
+import { BrowserApis, browserApis } from './browserApis';
+
+// Transports for the given platform audio; browsers use Web Audio for event-based transports
+export function createTransportFactory(createAudio: PcmAudioFactory = createWebAudioPcm, apis: BrowserApis = browserApis) {
+  return (kind: TransportKind, timeouts: TransportTimeouts): RealtimeTransport => {
+    switch (kind) {
+      case 'webrtc':
+        return new WebRtcTransport(timeouts, apis);
+      case 'websocket':
+        return new WebSocketTransport(timeouts, createAudio, apis);
+      case 'socket.io':
+        if (!REALTIME_RELAY_URL) {
+          throw new Error('The socket.io transport needs VITE_REALTIME_RELAY_URL');
+        }
+        return new SocketIoTransport(REALTIME_RELAY_URL, timeouts, createAudio);
+    }
+  };
+}
@@ -0,0 +1,47 @@
+import { ServerVadTurnDetection } from './realtimeEvents';
+
+export interface ServerVadSettings {
+  mode: 'server-vad';
+  // Activation threshold, 0..1. Higher values need louder speech (useful in noisy rooms)
+  threshold: number;
+  // Silence needed before the server ends the learner's turn
+  silenceDurationMs: number;
+  // Audio kept from before speech was detected
+  prefixPaddingMs: number;
+}
+
+export interface PushToTalkSettings {
+  mode: 'push-to-talk';
+}
+
+export type TurnDetectionSettings = ServerVadSettings | PushToTalkSettings;
+
+export type TurnDetectionMode = TurnDetectionSettings['mode'];
+
+export const DEFAULT_SERVER_VAD: ServerVadSettings = {
+  mode: 'server-vad',
+  threshold: 0.5,
+  silenceDurationMs: 500,
+  prefixPaddingMs: 300,
+};
+
+export const PUSH_TO_TALK: PushToTalkSettings = { mode: 'push-to-talk' };
+
+// Presses shorter than this are treated as accidental taps and discarded
+export const MIN_PUSH_TO_TALK_MS = 200;
+
+export function toSessionTurnDetection(settings: TurnDetectionSettings): ServerVadTurnDetection | null {
+  if (settings.mode === 'push-to-talk') {
+    // No server VAD: the client commits the buffer and asks for a response itself
+    return null;
+  }
+
+  return {
+    type: 'server_vad',
+    threshold: Math.min(1, Math.max(0, settings.threshold)),
+    silence_duration_ms: Math.max(0, Math.round(settings.silenceDurationMs)),
+    prefix_padding_ms: Math.max(0, Math.round(settings.prefixPaddingMs)),
+    // Barge-in is handled by the client, so it can truncate the tutor to what was actually heard
+    interrupt_response: false,
+  };
+}
@@ -0,0 +1,67 @@
+import { pcm16DurationMs } from './pcmAudio';
+
+export interface HeardAudio {
+  itemId: string;
+  contentIndex: number;
+  // How far into the item's audio the learner got
+  audioEndMs: number;
+}
+
+interface PlayingItem {
+  itemId: string;
+  contentIndex: number;
+  startedAt: number;
+  // Audio received so far; null where it arrives as media and its length is unknown
+  audioMs: number | null;
+  isStopped: boolean;
+}
+
+// Follows which tutor item is being played and for how long, so a barge-in can cut it to what was heard
+export class TutorPlayback {
+  private current: PlayingItem | null = null;
+
+  constructor(private readonly now: () => number = Date.now) {}
+
+  // Audio delivered in events is played back to back from its first chunk
+  audioReceived(itemId: string, contentIndex: number, delta: string): void {
+    const current = this.start(itemId, contentIndex, 0);
+    current.audioMs = (current.audioMs ?? 0) + pcm16DurationMs(delta);
+  }
+
+  // Audio streamed as media: the transcript starts arriving as the tutor starts speaking
+  transcriptReceived(itemId: string, contentIndex: number): void {
+    this.start(itemId, contentIndex, null);
+  }
+
+  playbackStopped(): void {
+    if (this.current) {
+      this.current.isStopped = true;
+    }
+  }
+
+  reset(): void {
+    this.current = null;
+  }
+
+  // What has been heard of the item still playing, or null when the tutor is silent
+  heard(): HeardAudio | null {
+    const current = this.current;
+    if (!current || current.isStopped) return null;
+
+    const elapsed = this.now() - current.startedAt;
+    if (current.audioMs !== null && elapsed >= current.audioMs) return null;
+
+    return {
+      itemId: current.itemId,
+      contentIndex: current.contentIndex,
+      audioEndMs: Math.max(0, Math.round(elapsed)),
+    };
+  }
+
+  private start(itemId: string, contentIndex: number, audioMs: number | null): PlayingItem {
+    if (this.current?.itemId !== itemId || this.current.contentIndex !== contentIndex) {
+      this.current = { itemId, contentIndex, startedAt: this.now(), audioMs, isStopped: false };
+    }
+    return this.current;
+  }
+}
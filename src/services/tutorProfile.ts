@@ -0,0 +1,103 @@
+import { SessionConfig } from './realtimeEvents';
+
+export type CefrLevel = 'A1' | 'A2' | 'B1' | 'B2' | 'C1' | 'C2';
+export type SpeakingRate = 'slow' | 'natural' | 'fast';
+export type CorrectionStyle = 'none' | 'gentle' | 'balanced' | 'strict';
+
+export const CEFR_LEVELS: Record<CefrLevel, string> = {
+  A1: 'Beginner',
+  A2: 'Elementary',
+  B1: 'Intermediate',
+  B2: 'Upper intermediate',
+  C1: 'Advanced',
+  C2: 'Proficient',
+};
+
+export function isCefrLevel(value: unknown): value is CefrLevel {
+  return typeof value === 'string' && value in CEFR_LEVELS;
+}
+
+export const TUTOR_VOICES = ['alloy', 'ash', 'ballad', 'coral', 'echo', 'sage', 'shimmer', 'verse'] as const;
+export type TutorVoice = typeof TUTOR_VOICES[number];
+
+export const SPEAKING_RATES: Record<SpeakingRate, string> = {
+  slow: 'Slow',
+  natural: 'Natural',
+  fast: 'Fast',
+};
+
+export const CORRECTION_STYLES: Record<CorrectionStyle, string> = {
+  none: 'Don\'t correct me',
+  gentle: 'Only major mistakes',
+  balanced: 'Balanced',
+  strict: 'Correct everything',
+};
+
+export interface TutorProfile {
+  level: CefrLevel;
+  topic: string;
+  voice: TutorVoice;
+  speakingRate: SpeakingRate;
+  correctionStyle: CorrectionStyle;
+  // Whether speaking over the tutor stops it; beginners who pause and hum mid-thought may prefer it finishes
+  allowInterruptions: boolean;
+}
+
+export const DEFAULT_TUTOR_PROFILE: TutorProfile = {
+  level: 'B1',
+  topic: '',
+  voice: 'alloy',
+  speakingRate: 'natural',
+  correctionStyle: 'balanced',
+  allowInterruptions: true,
+};
+
+const LEVEL_GUIDANCE: Record<CefrLevel, string> = {
+  A1: 'Use very short sentences and only the most common everyday words. Ask simple yes/no or either/or questions.',
+  A2: 'Use short, simple sentences and familiar vocabulary. Introduce at most one new word at a time.',
+  B1: 'Use clear, everyday language. Occasionally introduce useful new expressions and check they were understood.',
+  B2: 'Speak naturally with some idioms and varied structures. Encourage the learner to give longer answers and opinions.',
+  C1: 'Speak as with a fluent colleague, using nuanced vocabulary and idiomatic language. Challenge the learner to be precise.',
+  C2: 'Speak as with a native-level peer. Focus on subtle register, style and precision.',
+};
+
+const RATE_GUIDANCE: Record<SpeakingRate, string> = {
+  slow: 'Speak slowly and clearly, with short pauses between sentences.',
+  natural: 'Speak at a natural, relaxed pace.',
+  fast: 'Speak at a brisk, native-like pace.',
+};
+
+const CORRECTION_GUIDANCE: Record<CorrectionStyle, string> = {
+  none: 'Do not correct mistakes unless the learner explicitly asks; keep the conversation flowing.',
+  gentle: 'Only correct mistakes that block understanding, by naturally recasting the sentence correctly in your reply.',
+  balanced: 'Correct important grammar and vocabulary mistakes briefly, then continue the conversation.',
+  strict: 'Point out every grammar, vocabulary and pronunciation mistake, give the correct form, and ask the learner to repeat it.',
+};
+
+// Turn a profile into the system instructions for the Realtime session
+export function compileInstructions(profile: TutorProfile): string {
+  const lines = [
+    'You are a friendly English tutor helping students practice their speaking skills.',
+    `The learner's level is ${profile.level} (${CEFR_LEVELS[profile.level]}) on the CEFR scale. ${LEVEL_GUIDANCE[profile.level]}`,
+    RATE_GUIDANCE[profile.speakingRate],
+    CORRECTION_GUIDANCE[profile.correctionStyle],
+  ];
+
+  if (profile.topic.trim()) {
+    lines.push(`Keep the conversation centered on this topic: ${profile.topic.trim()}.`);
+  } else {
+    lines.push('Let the learner choose what to talk about, and suggest an everyday topic if they have no idea.');
+  }
+
+  lines.push('Keep your turns short so the learner does most of the talking. At the start of the conversation, greet the learner warmly and ask an opening question.');
+
+  return lines.join('\n');
+}
+
+// The voice can only change before the tutor has produced any audio in a session
+export function toSessionConfig(profile: TutorProfile, options: { includeVoice: boolean } = { includeVoice: true }): Partial<SessionConfig> {
+  return {
+    instructions: compileInstructions(profile),
+    ...(options.includeVoice ? { voice: profile.voice } : {}),
+  };
+}
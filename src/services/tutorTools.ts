@@ -0,0 +1,170 @@
+import { ToolDefinition } from './realtimeEvents';
+import { Scenario } from './scenarios';
+
+export const CORRECTION_CATEGORIES = [
+  'grammar',
+  'tense',
+  'article',
+  'preposition',
+  'word-order',
+  'vocabulary',
+  'pronunciation',
+  'other',
+] as const;
+
+export type CorrectionCategory = typeof CORRECTION_CATEGORIES[number];
+
+export interface Correction {
+  original: string;
+  corrected: string;
+  category: CorrectionCategory;
+  explanation: string;
+}
+
+export interface VocabularyItem {
+  word: string;
+  definition: string;
+  example: string;
+}
+
+export type TutorToolEffect =
+  | { kind: 'correction'; correction: Correction }
+  | { kind: 'vocabulary'; vocabulary: VocabularyItem }
+  | { kind: 'scenario-goal'; goalId: string; evidence: string }
+  | { kind: 'scenario-finished'; passed: boolean; summary: string };
+
+export interface ToolCallResult {
+  // Sent back to the model as the function_call_output
+  output: Record<string, unknown>;
+  effect: TutorToolEffect | null;
+}
+
+export const TUTOR_TOOLS: ToolDefinition[] = [
+  {
+    type: 'function',
+    name: 'report_correction',
+    description: 'Record a mistake the learner just made so it can be shown to them as a written correction.',
+    parameters: {
+      type: 'object',
+      properties: {
+        original: { type: 'string', description: 'The learner\'s words containing the mistake, as spoken.' },
+        corrected: { type: 'string', description: 'The same phrase, corrected.' },
+        category: { type: 'string', enum: [...CORRECTION_CATEGORIES] },
+        explanation: { type: 'string', description: 'One short sentence explaining the rule, at the learner\'s level.' },
+      },
+      required: ['original', 'corrected', 'category', 'explanation'],
+    },
+  },
+  {
+    type: 'function',
+    name: 'introduce_word',
+    description: 'Record a new word or expression you are teaching the learner.',
+    parameters: {
+      type: 'object',
+      properties: {
+        word: { type: 'string' },
+        definition: { type: 'string', description: 'A simple definition in English.' },
+        example: { type: 'string', description: 'A short example sentence using the word.' },
+      },
+      required: ['word', 'definition', 'example'],
+    },
+  },
+];
+
+// Only offered while a role-play scenario is running
+export const SCENARIO_TOOLS: ToolDefinition[] = [
+  {
+    type: 'function',
+    name: 'complete_scenario_goal',
+    description: 'Record that the learner has achieved one of the role-play goals.',
+    parameters: {
+      type: 'object',
+      properties: {
+        goal_id: { type: 'string', description: 'The id of the goal, exactly as listed in the instructions.' },
+        evidence: { type: 'string', description: 'What the learner said that achieved the goal.' },
+      },
+      required: ['goal_id', 'evidence'],
+    },
+  },
+  {
+    type: 'function',
+    name: 'finish_scenario',
+    description: 'Assess the role-play against its success rubric once it is over.',
+    parameters: {
+      type: 'object',
+      properties: {
+        passed: { type: 'boolean', description: 'Whether the learner met the success rubric.' },
+        summary: { type: 'string', description: 'Two or three sentences for the learner on how it went and what to practise next.' },
+      },
+      required: ['passed', 'summary'],
+    },
+  },
+];
+
+export const TUTOR_TOOL_INSTRUCTIONS =
+  'Whenever you correct a mistake, also call report_correction for it. Whenever you teach a new word or expression, also call introduce_word. Never mention these tools to the learner.';
+
+function readString(args: Record<string, unknown>, field: string): string {
+  const value = args[field];
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new Error(`Missing "${field}"`);
+  }
+  return value.trim();
+}
+
+// Validate a completed function call from the model and turn it into a UI effect;
+// scenario tools are only accepted while that scenario is running
+export function handleTutorToolCall(name: string, rawArguments: string, scenario: Scenario | null = null): ToolCallResult {
+  let args: Record<string, unknown>;
+  try {
+    args = JSON.parse(rawArguments);
+  } catch {
+    return { output: { ok: false, error: 'Arguments were not valid JSON' }, effect: null };
+  }
+
+  try {
+    switch (name) {
+      case 'report_correction': {
+        const category = readString(args, 'category') as CorrectionCategory;
+        const correction: Correction = {
+          original: readString(args, 'original'),
+          corrected: readString(args, 'corrected'),
+          category: CORRECTION_CATEGORIES.includes(category) ? category : 'other',
+          explanation: readString(args, 'explanation'),
+        };
+        return { output: { ok: true }, effect: { kind: 'correction', correction } };
+      }
+      case 'introduce_word': {
+        const vocabulary: VocabularyItem = {
+          word: readString(args, 'word'),
+          definition: readString(args, 'definition'),
+          example: readString(args, 'example'),
+        };
+        return { output: { ok: true }, effect: { kind: 'vocabulary', vocabulary } };
+      }
+      case 'complete_scenario_goal': {
+        if (!scenario) throw new Error('No scenario is running');
+        const goalId = readString(args, 'goal_id');
+        if (!scenario.goals.some(goal => goal.id === goalId)) {
+          throw new Error(`Unknown goal "${goalId}", use one of: ${scenario.goals.map(goal => goal.id).join(', ')}`);
+        }
+        return { output: { ok: true }, effect: { kind: 'scenario-goal', goalId, evidence: readString(args, 'evidence') } };
+      }
+      case 'finish_scenario': {
+        if (!scenario) throw new Error('No scenario is running');
+        if (typeof args.passed !== 'boolean') throw new Error('Missing "passed"');
+        return {
+          output: { ok: true },
+          effect: { kind: 'scenario-finished', passed: args.passed, summary: readString(args, 'summary') },
+        };
+      }
+      default:
+        return { output: { ok: false, error: `Unknown tool "${name}"` }, effect: null };
+    }
+  } catch (error) {
+    return {
+      output: { ok: false, error: error instanceof Error ? error.message : 'Invalid arguments' },
+      effect: null,
+    };
+  }
+}
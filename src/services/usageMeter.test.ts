@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { PRICING_TABLES, PricingTable, UsageMeter } from './usageMeter';
+import { ResponseUsage } from './realtimeEvents';
+import { createMemoryUsageStore } from '../test/fakeMedia';
+
+// A million output audio tokens cost exactly the table's outputAudio price
+const MILLION_AUDIO_TOKENS: ResponseUsage = {
+  total_tokens: 1_000_000,
+  input_tokens: 0,
+  output_tokens: 1_000_000,
+  output_token_details: { audio_tokens: 1_000_000 },
+};
+
+describe('UsageMeter', () => {
+  it('goes back to the model\'s published prices when the override is cleared', () => {
+    const published = PRICING_TABLES['gpt-4o-realtime-preview'];
+    const negotiated: PricingTable = { ...published, outputAudio: 10 };
+    const meter = new UsageMeter(createMemoryUsageStore(), () => {});
+    meter.startSession(published);
+
+    meter.setPricing(negotiated);
+    meter.recordResponse(MILLION_AUDIO_TOKENS);
+    meter.setPricing(null);
+    meter.recordResponse(MILLION_AUDIO_TOKENS);
+
+    expect(meter.snapshot.session.costUsd).toBeCloseTo(10 + published.outputAudio);
+  });
+});
@@ -0,0 +1,312 @@
+import { RateLimit, ResponseUsage } from './realtimeEvents';
+
+export interface UsageTotals {
+  // Input tokens are split so cached ones can be billed at their discounted rate
+  inputTextTokens: number;
+  inputAudioTokens: number;
+  cachedInputTokens: number;
+  outputTextTokens: number;
+  outputAudioTokens: number;
+  // Estimated from the pricing table in effect when the tokens were used
+  costUsd: number;
+  // Wall-clock time connected to the tutor
+  talkTimeMs: number;
+}
+
+export const EMPTY_USAGE: UsageTotals = {
+  inputTextTokens: 0,
+  inputAudioTokens: 0,
+  cachedInputTokens: 0,
+  outputTextTokens: 0,
+  outputAudioTokens: 0,
+  costUsd: 0,
+  talkTimeMs: 0,
+};
+
+const USAGE_FIELDS = Object.keys(EMPTY_USAGE) as (keyof UsageTotals)[];
+
+// USD per million tokens
+export interface PricingTable {
+  inputText: number;
+  inputAudio: number;
+  cachedInput: number;
+  outputText: number;
+  outputAudio: number;
+}
+
+// Published list prices, keyed by model name prefix
+export const PRICING_TABLES: Record<string, PricingTable> = {
+  'gpt-realtime': { inputText: 4, inputAudio: 32, cachedInput: 0.4, outputText: 16, outputAudio: 64 },
+  'gpt-4o-realtime-preview': { inputText: 5, inputAudio: 40, cachedInput: 2.5, outputText: 20, outputAudio: 80 },
+  'gpt-4o-mini-realtime-preview': { inputText: 0.6, inputAudio: 10, cachedInput: 0.3, outputText: 2.4, outputAudio: 20 },
+};
+
+// For providers that run on the classroom's own hardware
+export const FREE_PRICING: PricingTable = { inputText: 0, inputAudio: 0, cachedInput: 0, outputText: 0, outputAudio: 0 };
+
+// Unknown models are priced like the most expensive one, so budgets err on the safe side
+const FALLBACK_PRICING = PRICING_TABLES['gpt-4o-realtime-preview'];
+
+export function pricingForModel(model: string): PricingTable {
+  const prefix = Object.keys(PRICING_TABLES)
+    .filter(key => model.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? PRICING_TABLES[prefix] : FALLBACK_PRICING;
+}
+
+export function estimateCost(usage: UsageTotals, pricing: PricingTable): number {
+  return (
+    usage.inputTextTokens * pricing.inputText
+    + usage.inputAudioTokens * pricing.inputAudio
+    + usage.cachedInputTokens * pricing.cachedInput
+    + usage.outputTextTokens * pricing.outputText
+    + usage.outputAudioTokens * pricing.outputAudio
+  ) / 1_000_000;
+}
+
+// Token counts of one response.done, priced
+export function usageFromResponse(usage: ResponseUsage, pricing: PricingTable): UsageTotals {
+  const input = usage.input_token_details ?? {};
+  const output = usage.output_token_details ?? {};
+  const cached = input.cached_tokens ?? 0;
+  // Without a breakdown, count cached tokens against text first: audio costs more, so the estimate never comes out low
+  const cachedText = input.cached_tokens_details?.text_tokens ?? Math.min(cached, input.text_tokens ?? 0);
+  const cachedAudio = input.cached_tokens_details?.audio_tokens ?? cached - cachedText;
+
+  const tokens: UsageTotals = {
+    ...EMPTY_USAGE,
+    inputTextTokens: Math.max(0, (input.text_tokens ?? 0) - cachedText),
+    inputAudioTokens: Math.max(0, (input.audio_tokens ?? 0) - cachedAudio),
+    cachedInputTokens: cached,
+    outputTextTokens: output.text_tokens ?? 0,
+    outputAudioTokens: output.audio_tokens ?? 0,
+  };
+  return { ...tokens, costUsd: estimateCost(tokens, pricing) };
+}
+
+export function addUsage(a: UsageTotals, b: UsageTotals): UsageTotals {
+  const sum = { ...EMPTY_USAGE };
+  USAGE_FIELDS.forEach(field => {
+    sum[field] = a[field] + b[field];
+  });
+  return sum;
+}
+
+// null means no limit
+export interface UsageBudget {
+  sessionCostUsd: number | null;
+  dailyCostUsd: number | null;
+  sessionMinutes: number | null;
+  dailyMinutes: number | null;
+  // Share of any limit at which the learner is warned
+  warnAt: number;
+}
+
+export const DEFAULT_USAGE_BUDGET: UsageBudget = {
+  sessionCostUsd: 1,
+  dailyCostUsd: 3,
+  sessionMinutes: 30,
+  dailyMinutes: 60,
+  warnAt: 0.8,
+};
+
+export type BudgetStatus =
+  | { level: 'ok' }
+  | { level: 'warning' | 'exceeded'; reason: string };
+
+export function formatCost(costUsd: number): string {
+  return `$${costUsd.toFixed(2)}`;
+}
+
+export function formatTalkTime(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const seconds = totalSeconds % 60;
+  return `${Math.floor(totalSeconds / 60)}:${seconds.toString().padStart(2, '0')}`;
+}
+
+// The limit closest to being used up decides the status
+export function evaluateBudget(session: UsageTotals, today: UsageTotals, budget: UsageBudget): BudgetStatus {
+  const limits = [
+    { used: session.costUsd, limit: budget.sessionCostUsd, name: (limit: number) => `this session's ${formatCost(limit)} budget` },
+    { used: today.costUsd, limit: budget.dailyCostUsd, name: (limit: number) => `today's ${formatCost(limit)} budget` },
+    { used: session.talkTimeMs / 60_000, limit: budget.sessionMinutes, name: (limit: number) => `this session's ${limit}-minute limit` },
+    { used: today.talkTimeMs / 60_000, limit: budget.dailyMinutes, name: (limit: number) => `today's ${limit}-minute limit` },
+  ];
+
+  let status: BudgetStatus = { level: 'ok' };
+  let highest = budget.warnAt;
+  for (const { used, limit, name } of limits) {
+    if (limit === null) continue;
+    const share = used / limit;
+    if (share < highest) continue;
+    highest = share;
+    status = share >= 1
+      ? { level: 'exceeded', reason: `You've reached ${name(limit)}` }
+      : { level: 'warning', reason: `You've used ${Math.floor(share * 100)}% of ${name(limit)}` };
+  }
+  return status;
+}
+
+// Today's totals on this device, so the daily budget holds across calls and reloads
+export interface DailyUsageStore {
+  load(day: string): UsageTotals;
+  save(day: string, totals: UsageTotals): void;
+}
+
+// Local calendar day, e.g. 2024-03-09
+export function usageDay(timestamp: number): string {
+  const date = new Date(timestamp);
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+const STORAGE_KEY = 'usageToday';
+
+// Only the current day is kept; yesterday's totals are simply overwritten
+export const localStorageUsageStore: DailyUsageStore = {
+  load(day) {
+    try {
+      const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+      return stored?.day === day ? { ...EMPTY_USAGE, ...stored.totals } : EMPTY_USAGE;
+    } catch {
+      return EMPTY_USAGE;
+    }
+  },
+  save(day, totals) {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify({ day, totals }));
+    } catch (error) {
+      console.warn('Failed to save usage:', error);
+    }
+  },
+};
+
+export interface UsageSnapshot {
+  session: UsageTotals;
+  today: UsageTotals;
+  // Latest limits reported by the API for this key
+  rateLimits: RateLimit[];
+  budget: BudgetStatus;
+}
+
+// How often talk time is added up while connected, which also paces time-based budget checks
+const CLOCK_INTERVAL_MS = 1000;
+
+// Accumulates what the calls cost and checks it against the budget
+export class UsageMeter {
+  private budget: UsageBudget = DEFAULT_USAGE_BUDGET;
+  // Overrides the per-model pricing when set
+  private pricingOverride: PricingTable | null = null;
+  // The provider's prices for the session's model, kept while an override is in place
+  private providerPricing: PricingTable = FALLBACK_PRICING;
+  private session: UsageTotals = EMPTY_USAGE;
+  private day: string;
+  private today: UsageTotals;
+  private rateLimits: RateLimit[] = [];
+  // Start of the talk time not yet added to the totals; null while the clock is stopped
+  private clockStartedAt: number | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(
+    private readonly store: DailyUsageStore,
+    private readonly onChange: (snapshot: UsageSnapshot) => void,
+    private readonly now: () => number = Date.now
+  ) {
+    this.day = usageDay(now());
+    this.today = store.load(this.day);
+  }
+
+  get snapshot(): UsageSnapshot {
+    this.rollOverDay();
+    return {
+      session: this.session,
+      today: this.today,
+      rateLimits: this.rateLimits,
+      budget: evaluateBudget(this.session, this.today, this.budget),
+    };
+  }
+
+  // Whether a new call may start; only the daily limits can already be used up
+  get dailyBudget(): BudgetStatus {
+    this.rollOverDay();
+    return evaluateBudget(EMPTY_USAGE, this.today, this.budget);
+  }
+
+  setBudget(budget: UsageBudget): void {
+    this.budget = budget;
+    this.update();
+  }
+
+  // null returns to the published prices of the session's model
+  setPricing(pricing: PricingTable | null): void {
+    this.pricingOverride = pricing;
+  }
+
+  // The provider's prices for the session's model, unless overridden
+  startSession(pricing: PricingTable): void {
+    this.flushClock();
+    this.providerPricing = pricing;
+    this.session = EMPTY_USAGE;
+    this.rateLimits = [];
+    this.update();
+  }
+
+  private get pricing(): PricingTable {
+    return this.pricingOverride ?? this.providerPricing;
+  }
+
+  recordResponse(usage: ResponseUsage): void {
+    this.add(usageFromResponse(usage, this.pricing));
+    this.update();
+  }
+
+  recordRateLimits(rateLimits: RateLimit[]): void {
+    this.rateLimits = rateLimits;
+    this.update();
+  }
+
+  setClockRunning(running: boolean): void {
+    if (running && this.clockStartedAt === null) {
+      this.clockStartedAt = this.now();
+      this.timer = setInterval(() => {
+        this.flushClock();
+        this.update();
+      }, CLOCK_INTERVAL_MS);
+    } else if (!running && this.clockStartedAt !== null) {
+      this.flushClock();
+      this.clockStartedAt = null;
+      if (this.timer) {
+        clearInterval(this.timer);
+        this.timer = null;
+      }
+      this.update();
+    }
+  }
+
+  private flushClock() {
+    if (this.clockStartedAt === null) return;
+    const now = this.now();
+    this.add({ ...EMPTY_USAGE, talkTimeMs: now - this.clockStartedAt });
+    this.clockStartedAt = now;
+  }
+
+  private add(usage: UsageTotals) {
+    this.rollOverDay();
+    this.session = addUsage(this.session, usage);
+    this.today = addUsage(this.today, usage);
+    this.store.save(this.day, this.today);
+  }
+
+  // A call running past midnight counts towards the new day from then on
+  private rollOverDay() {
+    const day = usageDay(this.now());
+    if (day !== this.day) {
+      this.day = day;
+      this.today = this.store.load(day);
+    }
+  }
+
+  private update() {
+    this.onChange(this.snapshot);
+  }
+}
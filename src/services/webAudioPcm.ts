@@ -0,0 +1,159 @@
+import { floatToPcm16, PCM_SAMPLE_RATE, PcmAudio, PcmAudioInput, PcmAudioOutput, pcm16ToFloat } from './pcmAudio';
+
+// Roughly 100 ms of audio per input_audio_buffer.append
+const CHUNK_SAMPLES = PCM_SAMPLE_RATE / 10;
+
+// Runs on the audio thread; buffers mic frames into fixed-size chunks for the main thread
+const CAPTURE_WORKLET = `
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor() {
+    super();
+    this.buffer = new Float32Array(${CHUNK_SAMPLES});
+    this.length = 0;
+  }
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (channel) {
+      for (let i = 0; i < channel.length; i++) {
+        this.buffer[this.length++] = channel[i];
+        if (this.length === this.buffer.length) {
+          this.port.postMessage(this.buffer.slice());
+          this.length = 0;
+        }
+      }
+    }
+    return true;
+  }
+}
+registerProcessor('pcm-capture', PcmCaptureProcessor);
+`;
+
+// Chromium only so far
+type SinkAudioContext = AudioContext & { setSinkId?(sinkId: string): Promise<void> };
+
+// Mic capture from a browser MediaStream, resampled to 24 kHz by the AudioContext
+export class WebAudioPcmInput implements PcmAudioInput {
+  private context: AudioContext | null = null;
+  private source: MediaStreamAudioSourceNode | null = null;
+  private capture: AudioWorkletNode | null = null;
+
+  constructor(private stream: MediaStream | null) {}
+
+  async start(onChunk: (pcm: Int16Array) => void): Promise<void> {
+    if (!this.stream) {
+      throw new Error('Microphone stream not available');
+    }
+    const context = new AudioContext({ sampleRate: PCM_SAMPLE_RATE });
+    this.context = context;
+
+    const moduleUrl = URL.createObjectURL(new Blob([CAPTURE_WORKLET], { type: 'application/javascript' }));
+    try {
+      await context.audioWorklet.addModule(moduleUrl);
+    } finally {
+      URL.revokeObjectURL(moduleUrl);
+    }
+
+    const capture = new AudioWorkletNode(context, 'pcm-capture');
+    capture.port.onmessage = (event: MessageEvent<Float32Array>) => onChunk(floatToPcm16(event.data));
+    this.capture = capture;
+    this.connectSource();
+  }
+
+  replaceStream(stream: MediaStream): void {
+    this.stream = stream;
+    this.source?.disconnect();
+    this.connectSource();
+  }
+
+  private connectSource(): void {
+    if (!this.context || !this.capture || !this.stream) return;
+    this.source = this.context.createMediaStreamSource(this.stream);
+    this.source.connect(this.capture);
+  }
+
+  stop(): void {
+    void this.context?.close();
+    this.context = null;
+    this.source = null;
+    this.capture = null;
+  }
+}
+
+// Schedules tutor audio back to back on an AudioContext
+export class WebAudioPcmOutput implements PcmAudioOutput {
+  private context: SinkAudioContext = new AudioContext({ sampleRate: PCM_SAMPLE_RATE });
+  private gain = this.context.createGain();
+  private destination = this.context.createMediaStreamDestination();
+  private scheduled = new Set<AudioBufferSourceNode>();
+  private nextStartTime = 0;
+  private muted = false;
+  private volume = 1;
+
+  constructor() {
+    this.gain.connect(this.context.destination);
+  }
+
+  get stream(): MediaStream {
+    return this.destination.stream;
+  }
+
+  enqueue(pcm: Int16Array): void {
+    if (pcm.length === 0) return;
+    // Autoplay policies may have suspended the context until now
+    if (this.context.state === 'suspended') {
+      void this.context.resume();
+    }
+
+    const buffer = this.context.createBuffer(1, pcm.length, PCM_SAMPLE_RATE);
+    buffer.copyToChannel(pcm16ToFloat(pcm), 0);
+
+    const source = this.context.createBufferSource();
+    source.buffer = buffer;
+    source.connect(this.gain);
+    // Recorded at full level, whatever the speaker volume
+    source.connect(this.destination);
+    source.onended = () => this.scheduled.delete(source);
+
+    const startAt = Math.max(this.context.currentTime, this.nextStartTime);
+    source.start(startAt);
+    this.nextStartTime = startAt + buffer.duration;
+    this.scheduled.add(source);
+  }
+
+  clear(): void {
+    this.scheduled.forEach(source => source.stop());
+    this.scheduled.clear();
+    this.nextStartTime = 0;
+  }
+
+  setMuted(muted: boolean): void {
+    this.muted = muted;
+    this.applyGain();
+  }
+
+  setVolume(volume: number): void {
+    this.volume = volume;
+    this.applyGain();
+  }
+
+  async setSinkId(deviceId: string): Promise<void> {
+    if (!this.context.setSinkId) {
+      throw new Error('This browser can\'t choose an output device');
+    }
+    await this.context.setSinkId(deviceId);
+  }
+
+  private applyGain(): void {
+    this.gain.gain.value = this.muted ? 0 : this.volume;
+  }
+
+  close(): void {
+    this.clear();
+    void this.context.close();
+  }
+}
+
+// Without a stream only playback works, as in text-only sessions
+export function createWebAudioPcm(stream: MediaStream | null): PcmAudio {
+  return { input: new WebAudioPcmInput(stream), output: new WebAudioPcmOutput() };
+}
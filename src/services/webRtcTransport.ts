@@ -0,0 +1,296 @@
+import { SessionToken } from './tokenService';
+import { ClientEvent } from './realtimeEvents';
+import { TypedEventEmitter } from './eventEmitter';
+import { RealtimeTransport, RealtimeTransportEvents, TokenRejectedError, TransportTimeouts } from './realtimeTransport';
+import { BrowserApis, browserApis } from './browserApis';
+
+// Audio on WebRTC media tracks, events on the 'oai-events' data channel
+export class WebRtcTransport implements RealtimeTransport {
+  readonly kind = 'webrtc' as const;
+  readonly playsAudioLocally = false;
+  private events = new TypedEventEmitter<RealtimeTransportEvents>();
+  private peerConnection: RTCPeerConnection | null = null;
+  private dataChannel: RTCDataChannel | null = null;
+  private audioElement: HTMLAudioElement | null = null;
+  private audioSender: RTCRtpSender | null = null;
+  private disconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private isConnected = false;
+  private isClosed = false;
+  private output = { muted: false, volume: 1 };
+  private outputDeviceId: string | null = null;
+
+  constructor(
+    private readonly timeouts: TransportTimeouts,
+    private readonly apis: BrowserApis = browserApis
+  ) {}
+
+  get isOpen(): boolean {
+    return this.dataChannel?.readyState === 'open';
+  }
+
+  on<K extends keyof RealtimeTransportEvents>(event: K, listener: (payload: RealtimeTransportEvents[K]) => void): () => void {
+    return this.events.on(event, listener);
+  }
+
+  async connect(token: SessionToken, stream: MediaStream | null, captureAudio: boolean): Promise<void> {
+    if (captureAudio && !stream) {
+      throw new Error('WebRTC needs a microphone stream');
+    }
+
+    // Create and configure peer connection
+    const peerConnection = this.apis.createPeerConnection({
+      iceServers: [
+        { urls: 'stun:stun.l.google.com:19302' }
+      ]
+    });
+    this.peerConnection = peerConnection;
+
+    // Handle connection state changes
+    peerConnection.onconnectionstatechange = () => {
+      this.handlePeerConnectionState(peerConnection.connectionState);
+    };
+
+    // Add tracks to peer connection, or just ask for the tutor's audio in a text-only session
+    if (captureAudio && stream) {
+      stream.getTracks().forEach(track => {
+        const sender = peerConnection.addTrack(track, stream);
+        if (track.kind === 'audio') {
+          this.audioSender = sender;
+        }
+      });
+    } else {
+      peerConnection.addTransceiver('audio', { direction: 'recvonly' });
+    }
+
+    // Set up audio element
+    const audioElement = this.apis.createAudioElement();
+    audioElement.autoplay = true;
+    this.audioElement = audioElement;
+    this.applyOutput();
+    if (this.outputDeviceId) {
+      // A missing speaker shouldn't stop the call; the default output still works
+      await audioElement.setSinkId(this.outputDeviceId).catch(error => {
+        console.warn('Failed to select output device:', error);
+      });
+    }
+
+    // Handle incoming tracks
+    peerConnection.ontrack = (event) => {
+      audioElement.srcObject = event.streams[0];
+      this.events.emit('remote-stream', event.streams[0]);
+    };
+
+    // Create and set up data channel
+    const dataChannel = peerConnection.createDataChannel('oai-events');
+    this.dataChannel = dataChannel;
+    this.setupDataChannelHandlers(dataChannel);
+
+    // Create and send offer
+    await this.createAndSendOffer(token);
+    await this.waitForConnected(peerConnection);
+    this.isConnected = true;
+  }
+
+  // Keep the session and just restart ICE
+  async restart(token: SessionToken): Promise<void> {
+    if (!this.peerConnection) {
+      throw new Error('Peer connection not initialized');
+    }
+    this.isConnected = false;
+    await this.createAndSendOffer(token, { iceRestart: true });
+    await this.waitForConnected(this.peerConnection);
+    this.isConnected = true;
+  }
+
+  private handlePeerConnectionState(state: RTCPeerConnectionState) {
+    this.clearDisconnectTimer();
+
+    // Failures while (re)negotiating are handled by whoever is waiting on the connection
+    if (!this.isConnected || this.isClosed) return;
+
+    switch (state) {
+      case 'disconnected':
+        // Often transient (e.g. a Wi-Fi roam); only react if it persists
+        this.disconnectTimer = setTimeout(() => {
+          this.connectionLost('Connection lost');
+        }, this.timeouts.disconnectGraceMs);
+        break;
+      case 'failed':
+        this.connectionLost('Peer connection failed');
+        break;
+    }
+  }
+
+  private connectionLost(reason: string) {
+    this.isConnected = false;
+    this.events.emit('connection-lost', reason);
+  }
+
+  private clearDisconnectTimer() {
+    if (this.disconnectTimer) {
+      clearTimeout(this.disconnectTimer);
+      this.disconnectTimer = null;
+    }
+  }
+
+  // Resolves once the peer connection is up, rejects if it fails or times out
+  private waitForConnected(peerConnection: RTCPeerConnection): Promise<void> {
+    if (peerConnection.connectionState === 'connected') return Promise.resolve();
+
+    return new Promise((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        cleanup();
+        reject(new Error('Timed out waiting for the connection'));
+      }, this.timeouts.connectTimeoutMs);
+
+      const onChange = () => {
+        if (peerConnection.connectionState === 'connected') {
+          cleanup();
+          resolve();
+        } else if (peerConnection.connectionState === 'failed' || peerConnection.connectionState === 'closed') {
+          cleanup();
+          reject(new Error(`Connection ${peerConnection.connectionState}`));
+        }
+      };
+
+      const cleanup = () => {
+        clearTimeout(timeout);
+        peerConnection.removeEventListener('connectionstatechange', onChange);
+      };
+
+      peerConnection.addEventListener('connectionstatechange', onChange);
+    });
+  }
+
+  private setupDataChannelHandlers(dataChannel: RTCDataChannel) {
+    dataChannel.addEventListener('message', (message: MessageEvent) => {
+      this.events.emit('message', message.data);
+    });
+    dataChannel.addEventListener('open', () => {
+      console.log('Data channel opened');
+      this.events.emit('open', undefined);
+    });
+
+    dataChannel.addEventListener('close', () => {
+      console.log('Data channel closed');
+      if (this.isConnected && !this.isClosed) {
+        this.connectionLost('Event channel closed');
+      }
+    });
+
+    dataChannel.addEventListener('error', (error) => {
+      console.error('Data channel error:', error);
+    });
+  }
+
+  private async createAndSendOffer(token: SessionToken, options?: RTCOfferOptions) {
+    if (!this.peerConnection) {
+      throw new Error('Peer connection not initialized');
+    }
+
+    const offer = await this.peerConnection.createOffer(options);
+    await this.peerConnection.setLocalDescription(offer);
+
+    const sdpResponse = await this.apis.fetch(`${token.realtimeUrl}?model=${encodeURIComponent(token.model)}`, {
+      method: 'POST',
+      body: offer.sdp,
+      headers: {
+        'Authorization': `Bearer ${token.value}`,
+        'Content-Type': 'application/sdp'
+      },
+    });
+
+    if (sdpResponse.status === 401) {
+      throw new TokenRejectedError();
+    }
+
+    if (!sdpResponse.ok) {
+      const errorText = await sdpResponse.text();
+      throw new Error(`Failed to establish WebRTC connection: ${errorText}`);
+    }
+
+    const answer = {
+      type: 'answer' as RTCSdpType,
+      sdp: await sdpResponse.text()
+    };
+
+    await this.peerConnection.setRemoteDescription(answer);
+  }
+
+  send(event: ClientEvent): boolean {
+    if (this.dataChannel?.readyState === 'open') {
+      this.dataChannel.send(JSON.stringify(event));
+      return true;
+    }
+    console.warn(`Data channel not ready to send ${event.type}`);
+    return false;
+  }
+
+  // Tutor audio arrives on the remote track, never inside events
+  receiveAudio(): void {}
+
+  clearPlayback(): void {
+    if (this.isOpen) {
+      this.send({ type: 'output_audio_buffer.clear' });
+    }
+  }
+
+  // The mic tracks themselves are toggled by AudioService
+  setInputEnabled(): void {}
+
+  setOutput(muted: boolean, volume: number): void {
+    this.output = { muted, volume };
+    this.applyOutput();
+  }
+
+  private applyOutput(): void {
+    if (this.audioElement) {
+      this.audioElement.muted = this.output.muted;
+      this.audioElement.volume = this.output.volume;
+    }
+  }
+
+  // replaceTrack swaps the media under the existing sender, so no new offer is needed
+  async replaceInputStream(stream: MediaStream): Promise<void> {
+    const [track] = stream.getAudioTracks();
+    if (!this.audioSender || !track) {
+      throw new Error('No microphone track to replace');
+    }
+    await this.audioSender.replaceTrack(track);
+  }
+
+  async setOutputDevice(deviceId: string | null): Promise<void> {
+    this.outputDeviceId = deviceId;
+    if (this.audioElement) {
+      await this.audioElement.setSinkId(deviceId ?? '');
+    }
+  }
+
+  async getStats(): Promise<RTCStatsReport> {
+    if (!this.peerConnection) {
+      throw new Error('Peer connection not initialized');
+    }
+    return this.peerConnection.getStats();
+  }
+
+  close(): void {
+    this.isClosed = true;
+    this.isConnected = false;
+    this.clearDisconnectTimer();
+    this.events.removeAllListeners();
+
+    if (this.dataChannel) {
+      this.dataChannel.close();
+      this.dataChannel = null;
+    }
+    if (this.peerConnection) {
+      this.peerConnection.close();
+      this.peerConnection = null;
+    }
+    this.audioSender = null;
+    if (this.audioElement) {
+      this.audioElement.srcObject = null;
+      this.audioElement = null;
+    }
+  }
+}
@@ -0,0 +1,53 @@
+import { SessionToken } from './tokenService';
+import { PcmAudioFactory, PcmEventTransport } from './pcmEventTransport';
+import { realtimeSocketProtocols, realtimeSocketUrl, TransportTimeouts } from './realtimeTransport';
+import { BrowserApis, browserApis } from './browserApis';
+
+// WebSocket.OPEN, without depending on the global
+const SOCKET_OPEN = 1;
+
+// Straight to the Realtime API over a WebSocket, for runtimes or networks without WebRTC
+export class WebSocketTransport extends PcmEventTransport {
+  readonly kind = 'websocket' as const;
+  private socket: WebSocket | null = null;
+
+  constructor(
+    timeouts: TransportTimeouts,
+    createAudio: PcmAudioFactory,
+    private readonly apis: Pick<BrowserApis, 'createWebSocket'> = browserApis
+  ) {
+    super(timeouts, createAudio);
+  }
+
+  get isOpen(): boolean {
+    return this.socket?.readyState === SOCKET_OPEN;
+  }
+
+  protected openChannel(token: SessionToken): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const socket = this.apis.createWebSocket(realtimeSocketUrl(token), realtimeSocketProtocols(token));
+      this.socket = socket;
+
+      socket.onopen = () => resolve();
+      socket.onerror = () => reject(new Error('WebSocket connection failed'));
+      socket.onmessage = (message: MessageEvent) => this.handleMessage(message.data);
+      socket.onclose = (event: CloseEvent) => {
+        const reason = `WebSocket closed (${event.code}${event.reason ? `: ${event.reason}` : ''})`;
+        reject(new Error(reason));
+        this.handleClosed(reason);
+      };
+    });
+  }
+
+  protected sendRaw(data: string): void {
+    this.socket?.send(data);
+  }
+
+  protected closeChannel(): void {
+    if (this.socket) {
+      this.socket.onclose = null;
+      this.socket.close();
+      this.socket = null;
+    }
+  }
+}
@@ -0,0 +1,68 @@
+import { ResponseUsage } from '../services/realtimeEvents';
+import { ServerEventInit } from './fakeRealtimeServer';
+
+export const CANNED_USAGE: ResponseUsage = {
+  total_tokens: 300,
+  input_tokens: 200,
+  output_tokens: 100,
+  input_token_details: { text_tokens: 150, audio_tokens: 50, cached_tokens: 0 },
+  output_token_details: { text_tokens: 20, audio_tokens: 80 },
+};
+
+// The learner says something and the server VAD picks it up
+export function learnerTurn(itemId: string, transcript: string, startMs = 0, endMs = 2000): ServerEventInit[] {
+  return [
+    { type: 'input_audio_buffer.speech_started', audio_start_ms: startMs, item_id: itemId },
+    { type: 'input_audio_buffer.speech_stopped', audio_end_ms: endMs, item_id: itemId },
+    { type: 'input_audio_buffer.committed', previous_item_id: null, item_id: itemId },
+    {
+      type: 'conversation.item.created',
+      previous_item_id: null,
+      item: { id: itemId, object: 'realtime.item', type: 'message', role: 'user', status: 'completed', content: [{ type: 'input_audio', transcript: null }] },
+    },
+    { type: 'conversation.item.input_audio_transcription.completed', item_id: itemId, content_index: 0, transcript },
+  ];
+}
+
+// A spoken tutor answer, its transcript streamed word by word
+export function tutorReply(responseId: string, itemId: string, text: string, usage: ResponseUsage = CANNED_USAGE): ServerEventInit[] {
+  const ref = { response_id: responseId, item_id: itemId, output_index: 0, content_index: 0 };
+  const item = {
+    id: itemId,
+    object: 'realtime.item' as const,
+    type: 'message' as const,
+    role: 'assistant' as const,
+    status: 'completed' as const,
+    content: [{ type: 'audio' as const, transcript: text }],
+  };
+  return [
+    { type: 'response.created', response: { id: responseId, object: 'realtime.response', status: 'in_progress', output: [] } },
+    { type: 'response.output_item.added', response_id: responseId, output_index: 0, item: { ...item, status: 'in_progress', content: [] } },
+    { type: 'response.content_part.added', ...ref, part: { type: 'audio', transcript: '' } },
+    ...text.split(/(?<= )/).map(delta => ({ type: 'response.audio_transcript.delta' as const, ...ref, delta })),
+    { type: 'response.audio_transcript.done', ...ref, transcript: text },
+    { type: 'response.content_part.done', ...ref, part: { type: 'audio', transcript: text } },
+    { type: 'response.output_item.done', response_id: responseId, output_index: 0, item },
+    { type: 'response.done', response: { id: responseId, object: 'realtime.response', status: 'completed', output: [item], usage } },
+  ];
+}
+
+// A response that only calls one of the tutor's tools
+export function toolCallReply(responseId: string, itemId: string, callId: string, name: string, args: unknown): ServerEventInit[] {
+  const item = {
+    id: itemId,
+    object: 'realtime.item' as const,
+    type: 'function_call' as const,
+    status: 'completed' as const,
+    call_id: callId,
+    name,
+    arguments: JSON.stringify(args),
+  };
+  return [
+    { type: 'response.created', response: { id: responseId, object: 'realtime.response', status: 'in_progress', output: [] } },
+    { type: 'response.output_item.added', response_id: responseId, output_index: 0, item: { ...item, status: 'in_progress', arguments: '' } },
+    { type: 'response.function_call_arguments.done', response_id: responseId, item_id: itemId, output_index: 0, call_id: callId, name, arguments: item.arguments },
+    { type: 'response.output_item.done', response_id: responseId, output_index: 0, item },
+    { type: 'response.done', response: { id: responseId, object: 'realtime.response', status: 'completed', output: [item], usage: CANNED_USAGE } },
+  ];
+}
@@ -0,0 +1,110 @@
+import { MicrophoneAccess, MicrophonePermission } from '../services/microphone';
+import { PcmAudio } from '../services/pcmAudio';
+import { PcmAudioFactory } from '../services/pcmEventTransport';
+import { DailyUsageStore, EMPTY_USAGE, UsageTotals } from '../services/usageMeter';
+
+export class FakeMediaStreamTrack extends EventTarget {
+  readonly kind = 'audio';
+  enabled = true;
+  readyState: MediaStreamTrackState = 'live';
+
+  stop(): void {
+    this.readyState = 'ended';
+  }
+
+  // The device went away, as opposed to the app stopping the track
+  end(): void {
+    this.stop();
+    this.dispatchEvent(new Event('ended'));
+  }
+}
+
+export class FakeMediaStream {
+  constructor(readonly tracks: FakeMediaStreamTrack[] = [new FakeMediaStreamTrack()]) {}
+
+  getTracks(): FakeMediaStreamTrack[] {
+    return this.tracks;
+  }
+
+  getAudioTracks(): FakeMediaStreamTrack[] {
+    return this.tracks;
+  }
+}
+
+// getUserMedia and the permission prompt, with the learner's answer decided by the test
+export class FakeMicrophone implements MicrophoneAccess {
+  permission: MicrophonePermission = 'granted';
+  // What a prompt resolves to while the permission is 'prompt'
+  promptAnswer: MicrophonePermission = 'granted';
+  readonly opened: FakeMediaStream[] = [];
+  private listener: ((permission: MicrophonePermission) => void) | null = null;
+
+  async queryPermission(): Promise<MicrophonePermission> {
+    return this.permission;
+  }
+
+  async requestPermission(): Promise<MicrophonePermission> {
+    if (this.permission === 'prompt') {
+      this.permission = this.promptAnswer;
+    }
+    return this.permission;
+  }
+
+  watchPermission(listener: (permission: MicrophonePermission) => void): () => void {
+    this.listener = listener;
+    return () => {
+      this.listener = null;
+    };
+  }
+
+  async open(): Promise<MediaStream> {
+    if (this.permission !== 'granted') {
+      throw new Error('Failed to access microphone: Permission denied');
+    }
+    const stream = new FakeMediaStream();
+    this.opened.push(stream);
+    return stream as unknown as MediaStream;
+  }
+
+  // Access turned off in the site settings mid-call
+  revoke(): void {
+    this.permission = 'denied';
+    this.listener?.('denied');
+  }
+
+  get lastStream(): FakeMediaStream | undefined {
+    return this.opened[this.opened.length - 1];
+  }
+}
+
+// Platform audio for event-based transports, keeping what the tutor played
+export function createFakePcmAudio(played: Int16Array[] = []): PcmAudioFactory {
+  return (): PcmAudio => ({
+    input: {
+      start: async () => {},
+      stop: () => {},
+    },
+    output: {
+      enqueue: pcm => {
+        played.push(pcm);
+      },
+      clear: () => {
+        played.length = 0;
+      },
+      setMuted: () => {},
+      setVolume: () => {},
+      stream: null,
+      close: () => {},
+    },
+  });
+}
+
+export function createMemoryUsageStore(): DailyUsageStore {
+  const days = new Map<string, UsageTotals>();
+  return {
+    load: day => days.get(day) ?? EMPTY_USAGE,
+    save: (day, totals) => {
+      days.set(day, totals);
+    },
+  };
+}
@@ -0,0 +1,309 @@
+import { BrowserApis } from '../services/browserApis';
+import { ClientEvent, ServerEvent } from '../services/realtimeEvents';
+
+export type ServerEventInit = ServerEvent extends infer E ? (E extends unknown ? Omit<E, 'event_id'> : never) : never;
+
+// Server events sent back for a client event; returning nothing lets later rules answer
+export type ScriptRule = (event: ClientEvent, server: FakeRealtimeServer) => ServerEventInit[] | void;
+
+export const FAKE_BROKER_URL = 'https://broker.test/api/realtime/session';
+export const FAKE_REALTIME_URL = 'https://realtime.test/v1/realtime';
+export const FAKE_MODEL = 'gpt-4o-realtime-preview-2024-12-17';
+
+type Failure = { status: number; body: string } | 'unreachable';
+
+// Either end of the event channel, seen from the server
+interface ServerLink {
+  deliver(data: string): void;
+  drop(): void;
+}
+
+class FakeDataChannel extends EventTarget implements ServerLink {
+  readyState: RTCDataChannelState = 'connecting';
+
+  constructor(
+    private readonly server: FakeRealtimeServer,
+    private readonly peer: FakePeerConnection,
+  ) {
+    super();
+  }
+
+  open(): void {
+    this.readyState = 'open';
+    this.server.attach(this);
+    this.dispatchEvent(new Event('open'));
+  }
+
+  send(data: string): void {
+    this.server.receive(data);
+  }
+
+  deliver(data: string): void {
+    this.dispatchEvent(Object.assign(new Event('message'), { data }));
+  }
+
+  // Media and events go down together
+  drop(): void {
+    this.peer.setState('failed');
+  }
+
+  close(): void {
+    if (this.readyState === 'closed') return;
+    this.readyState = 'closed';
+    this.server.detach(this);
+    this.dispatchEvent(new Event('close'));
+  }
+}
+
+class FakePeerConnection extends EventTarget {
+  connectionState: RTCPeerConnectionState = 'new';
+  onconnectionstatechange: (() => void) | null = null;
+  ontrack: ((event: { streams: MediaStream[] }) => void) | null = null;
+  private channel: FakeDataChannel | null = null;
+
+  constructor(private readonly server: FakeRealtimeServer) {
+    super();
+  }
+
+  addTrack() {
+    return { replaceTrack: async () => {} };
+  }
+
+  addTransceiver() {}
+
+  createDataChannel(): FakeDataChannel {
+    this.channel = new FakeDataChannel(this.server, this);
+    return this.channel;
+  }
+
+  async createOffer(options?: RTCOfferOptions): Promise<RTCSessionDescriptionInit> {
+    return { type: 'offer', sdp: options?.iceRestart ? 'v=0 fake-offer ice-restart' : 'v=0 fake-offer' };
+  }
+
+  async setLocalDescription(): Promise<void> {}
+
+  async getStats(): Promise<RTCStatsReport> {
+    return new Map(this.server.mediaStats.map(stat => [stat.id, stat])) as unknown as RTCStatsReport;
+  }
+
+  // The answer arrived: connect on the next tick, like ICE would. After an ICE restart
+  // the data channel carries on where it left off
+  async setRemoteDescription(): Promise<void> {
+    setTimeout(() => {
+      if (this.connectionState === 'closed' || !this.channel) return;
+      this.setState('connected');
+      if (this.channel.readyState === 'connecting') {
+        this.channel.open();
+      } else {
+        this.server.attach(this.channel, { resumed: true });
+      }
+    }, 0);
+  }
+
+  setState(state: RTCPeerConnectionState): void {
+    this.connectionState = state;
+    this.onconnectionstatechange?.();
+    this.dispatchEvent(new Event('connectionstatechange'));
+  }
+
+  close(): void {
+    this.connectionState = 'closed';
+    this.channel?.close();
+  }
+}
+
+class FakeWebSocket implements ServerLink {
+  readyState = 0;
+  onopen: ((event: Event) => void) | null = null;
+  onerror: ((event: Event) => void) | null = null;
+  onmessage: ((event: { data: string }) => void) | null = null;
+  onclose: ((event: { code: number; reason: string }) => void) | null = null;
+
+  constructor(
+    private readonly server: FakeRealtimeServer,
+    readonly url: string,
+    readonly protocols: string[],
+  ) {
+    setTimeout(() => server.acceptSocket(this), 0);
+  }
+
+  open(): void {
+    this.readyState = 1;
+    this.server.attach(this);
+    this.onopen?.(new Event('open'));
+  }
+
+  refuse(): void {
+    this.readyState = 3;
+    this.onerror?.(new Event('error'));
+    this.onclose?.({ code: 1006, reason: '' });
+  }
+
+  send(data: string): void {
+    this.server.receive(data);
+  }
+
+  deliver(data: string): void {
+    this.onmessage?.({ data });
+  }
+
+  drop(): void {
+    this.readyState = 3;
+    this.server.detach(this);
+    this.onclose?.({ code: 1006, reason: '' });
+  }
+
+  close(): void {
+    this.readyState = 3;
+    this.server.detach(this);
+  }
+}
+
+// Stands in for the token broker and the Realtime API with no network: session tokens and SDP answers
+// come from a fake fetch, and events travel over a fake data channel or WebSocket. Rules script how the
+// server answers client events; emit() pushes anything else, such as a canned conversation.
+export class FakeRealtimeServer {
+  readonly received: ClientEvent[] = [];
+  readonly sdpOffers: string[] = [];
+  readonly socketUrls: string[] = [];
+  tokensIssued = 0;
+  // What getStats() reports for WebRTC calls
+  mediaStats: Array<{ id: string; type: string } & Record<string, unknown>> = [];
+  // Like the local pipeline, refuse a socket whose token already opened one
+  singleUseTokens = false;
+  private usedTokens = new Set<string>();
+  readonly apis: BrowserApis;
+  private rules = new Map<string, ScriptRule[]>();
+  private brokerFailures: Failure[] = [];
+  private sdpFailures: Failure[] = [];
+  private socketRefusals = 0;
+  private link: ServerLink | null = null;
+  private nextEventId = 1;
+
+  constructor() {
+    this.apis = {
+      fetch: (input, init) => this.fetch(input, init),
+      createPeerConnection: () => new FakePeerConnection(this) as unknown as RTCPeerConnection,
+      createAudioElement: () => ({ autoplay: false, muted: false, volume: 1, srcObject: null, setSinkId: async () => {} }) as unknown as HTMLAudioElement,
+      createWebSocket: (url, protocols) => new FakeWebSocket(this, url, protocols) as unknown as WebSocket,
+    };
+  }
+
+  get isConnected(): boolean {
+    return this.link !== null;
+  }
+
+  // Rules for a type run in the order they were added, until one answers
+  on(type: ClientEvent['type'], rule: ScriptRule): this {
+    this.rules.set(type, [...(this.rules.get(type) ?? []), rule]);
+    return this;
+  }
+
+  failBroker(failure: Failure, times = 1): this {
+    this.brokerFailures.push(...Array<Failure>(times).fill(failure));
+    return this;
+  }
+
+  failSdp(failure: Failure, times = 1): this {
+    this.sdpFailures.push(...Array<Failure>(times).fill(failure));
+    return this;
+  }
+
+  refuseSockets(times = 1): this {
+    this.socketRefusals += times;
+    return this;
+  }
+
+  receivedOfType<T extends ClientEvent['type']>(type: T): Extract<ClientEvent, { type: T }>[] {
+    return this.received.filter((event): event is Extract<ClientEvent, { type: T }> => event.type === type);
+  }
+
+  emit(...events: ServerEventInit[]): void {
+    if (!this.link) throw new Error('No client is connected to the fake Realtime server');
+    for (const event of events) {
+      this.link.deliver(JSON.stringify({ event_id: `event_${this.nextEventId++}`, ...event }));
+    }
+  }
+
+  // Raw data, for malformed events
+  emitRaw(data: string): void {
+    this.link?.deliver(data);
+  }
+
+  // The network goes away under an established call
+  dropConnection(): void {
+    const link = this.link;
+    this.link = null;
+    link?.drop();
+  }
+
+  /* Called by the fake transports */
+
+  attach(link: ServerLink, { resumed = false } = {}): void {
+    this.link = link;
+    if (resumed) return;
+    this.emit({ type: 'session.created', session: { id: `sess_${this.tokensIssued}`, object: 'realtime.session', model: FAKE_MODEL } });
+  }
+
+  detach(link: ServerLink): void {
+    if (this.link === link) this.link = null;
+  }
+
+  acceptSocket(socket: FakeWebSocket): void {
+    this.socketUrls.push(socket.url);
+    const token = socket.protocols.find(protocol => protocol.startsWith('openai-insecure-api-key.'));
+    const spent = this.singleUseTokens && !!token && this.usedTokens.has(token);
+    if (token) this.usedTokens.add(token);
+    if (this.socketRefusals > 0) {
+      this.socketRefusals--;
+      socket.refuse();
+    } else if (spent) {
+      socket.refuse();
+    } else {
+      socket.open();
+    }
+  }
+
+  receive(data: string): void {
+    const event = JSON.parse(data) as ClientEvent;
+    this.received.push(event);
+    for (const rule of this.rules.get(event.type) ?? []) {
+      const reply = rule(event, this);
+      if (reply) {
+        // Answered on a later tick, as over a real connection
+        setTimeout(() => {
+          if (this.link) this.emit(...reply);
+        }, 0);
+        return;
+      }
+    }
+  }
+
+  private async fetch(input: string, init?: RequestInit): Promise<Response> {
+    if (input === FAKE_BROKER_URL) {
+      const failure = this.brokerFailures.shift();
+      if (failure) return this.fail(failure);
+      this.tokensIssued++;
+      return Response.json({
+        token: `ek_test_${this.tokensIssued}`,
+        expiresAt: Date.now() + 60_000,
+        model: FAKE_MODEL,
+        realtimeUrl: FAKE_REALTIME_URL,
+      });
+    }
+
+    if (input.startsWith(FAKE_REALTIME_URL)) {
+      this.sdpOffers.push(String(init?.body ?? ''));
+      const failure = this.sdpFailures.shift();
+      if (failure) return this.fail(failure);
+      return new Response('v=0 fake-answer', { status: 201, headers: { 'Content-Type': 'application/sdp' } });
+    }
+
+    throw new TypeError(`Failed to fetch ${input}: there is no network in tests`);
+  }
+
+  private fail(failure: Failure): Response {
+    if (failure === 'unreachable') throw new TypeError('Failed to fetch');
+    return new Response(JSON.stringify({ error: failure.body }), { status: failure.status });
+  }
+}
@@ -0,0 +1,49 @@
+import { AudioService, ReconnectPolicy } from '../services/audioService';
+import { OpenAiRealtimeProvider } from '../services/openAiRealtimeProvider';
+import { LocalPipelineProvider } from '../services/localPipelineProvider';
+import { SpeechProviderKind } from '../services/speechProvider';
+import { TokenService } from '../services/tokenService';
+import { TransportPreference } from '../services/realtimeTransport';
+import { createFakePcmAudio, createMemoryUsageStore, FakeMicrophone } from './fakeMedia';
+import { FAKE_BROKER_URL, FakeRealtimeServer } from './fakeRealtimeServer';
+
+// Retries within milliseconds, so failure paths don't slow the suite down
+export const FAST_RECONNECT_POLICY: ReconnectPolicy = {
+  baseDelayMs: 1,
+  maxDelayMs: 5,
+  jitter: 0,
+  maxAttempts: 3,
+  disconnectGraceMs: 10,
+  connectTimeoutMs: 200,
+};
+
+export interface TestServiceOptions {
+  transport?: TransportPreference;
+  microphone?: FakeMicrophone;
+  reconnectPolicy?: ReconnectPolicy;
+  // The local pipeline gets its session tokens from the same fake broker
+  speechProvider?: SpeechProviderKind;
+}
+
+// An AudioService wired to the fake server, with nothing left that needs a browser or a network
+export function createTestService(server: FakeRealtimeServer, {
+  transport = 'webrtc',
+  microphone = new FakeMicrophone(),
+  reconnectPolicy = FAST_RECONNECT_POLICY,
+  speechProvider = 'openai-realtime',
+}: TestServiceOptions = {}): AudioService {
+  const provider = speechProvider === 'local'
+    ? new LocalPipelineProvider(FAKE_BROKER_URL, createFakePcmAudio(), server.apis)
+    : new OpenAiRealtimeProvider({
+      apis: server.apis,
+      createAudio: createFakePcmAudio(),
+      tokens: new TokenService(FAKE_BROKER_URL, 'Token broker', server.apis),
+    });
+  return new AudioService({
+    transport,
+    provider,
+    microphone,
+    usageStore: createMemoryUsageStore(),
+    reconnectPolicy,
+  });
+}
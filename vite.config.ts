@@ -4,6 +4,12 @@ import react from '@vitejs/plugin-react';
 // https://vitejs.dev/config/
 export default defineConfig({
   plugins: [react()],
+  server: {
+    // Forward token requests to the local broker started with `npm run broker`
+    proxy: {
+      '/api': 'http://localhost:8787',
+    },
+  },
   optimizeDeps: {
     exclude: ['lucide-react'],
   },
@@ -0,0 +1,14 @@
+import { defineConfig } from 'vitest/config';
+
+// Kept apart from vite.config.ts so the tests run without the web build's plugins
+export default defineConfig({
+  // No stylesheets are imported by the code under test, so skip the Tailwind pipeline
+  css: { postcss: {} },
+  test: {
+    include: ['src/**/*.test.{ts,tsx}', 'server/**/*.test.ts'],
+    environment: 'node',
+    // Timers, globals and mocks from one test never leak into the next
+    restoreMocks: true,
+    unstubGlobals: true,
+  },
+});